@@ -0,0 +1,129 @@
+import type { MigrationBuilder } from "node-pg-migrate";
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // One row per subaddress handed out by /request, so it can be watched
+  pgm.createTable("issued_subaddresses", {
+    id: {
+      type: "uuid",
+      primaryKey: true,
+      default: pgm.func("gen_random_uuid()"),
+    },
+
+    paylink_id: {
+      type: "uuid",
+      notNull: true,
+      references: "paylinks",
+      onDelete: "CASCADE",
+    },
+
+    subaddress_index: {
+      type: "integer",
+      notNull: true,
+    },
+
+    // Full subaddress returned to the donor
+    address: {
+      type: "text",
+      notNull: true,
+    },
+
+    issued_at: {
+      type: "timestamptz",
+      notNull: true,
+      default: pgm.func("now()"),
+    },
+
+    // Last time the payment watcher scanned this subaddress
+    last_scanned_at: {
+      type: "timestamptz",
+      notNull: false,
+    },
+  });
+
+  pgm.createIndex("issued_subaddresses", ["paylink_id", "subaddress_index"], {
+    name: "issued_subaddresses_paylink_index_idx",
+  });
+  pgm.createIndex("issued_subaddresses", ["issued_at"], {
+    name: "issued_subaddresses_issued_at_idx",
+  });
+
+  // Incoming transfers detected on issued subaddresses
+  pgm.createTable("payments", {
+    id: {
+      type: "uuid",
+      primaryKey: true,
+      default: pgm.func("gen_random_uuid()"),
+    },
+
+    paylink_id: {
+      type: "uuid",
+      notNull: true,
+      references: "paylinks",
+      onDelete: "CASCADE",
+    },
+
+    issued_subaddress_id: {
+      type: "uuid",
+      notNull: true,
+      references: "issued_subaddresses",
+      onDelete: "CASCADE",
+    },
+
+    subaddress_index: {
+      type: "integer",
+      notNull: true,
+    },
+
+    txid: {
+      type: "text",
+      notNull: true,
+    },
+
+    // Atomic units (1 XMR = 1e12)
+    amount_atomic: {
+      type: "numeric(20,0)",
+      notNull: true,
+    },
+
+    confirmations: {
+      type: "integer",
+      notNull: true,
+      default: 0,
+    },
+
+    first_seen_at: {
+      type: "timestamptz",
+      notNull: true,
+      default: pgm.func("now()"),
+    },
+
+    updated_at: {
+      type: "timestamptz",
+      notNull: true,
+      default: pgm.func("now()"),
+    },
+  });
+
+  pgm.addConstraint("payments", "payments_amount_positive_chk", {
+    check: "amount_atomic > 0",
+  });
+
+  pgm.addConstraint("payments", "payments_confirmations_chk", {
+    check: "confirmations >= 0",
+  });
+
+  // A transfer to a given subaddress is recorded once, even if the same
+  // index was handed out to several donors
+  pgm.addConstraint("payments", "payments_paylink_index_txid_uniq", {
+    unique: ["paylink_id", "subaddress_index", "txid"],
+  });
+
+  pgm.createIndex("payments", ["issued_subaddress_id"], {
+    name: "payments_issued_subaddress_id_idx",
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropTable("payments");
+  pgm.dropTable("issued_subaddresses");
+}
@@ -0,0 +1,102 @@
+import type { MigrationBuilder } from "node-pg-migrate";
+
+const DEFAULT_TTL_MINUTES = 60;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Issued subaddresses become invoices: every /request is persisted with
+  // its amount, description, expiry and payment status.
+  pgm.renameTable("issued_subaddresses", "invoices");
+  pgm.renameColumn("invoices", "issued_at", "created_at");
+
+  pgm.sql(
+    `ALTER INDEX issued_subaddresses_paylink_index_idx RENAME TO invoices_paylink_index_idx;`,
+  );
+  pgm.sql(
+    `ALTER INDEX issued_subaddresses_issued_at_idx RENAME TO invoices_created_at_idx;`,
+  );
+
+  pgm.addColumns("invoices", {
+    // Requested amount in atomic units (null = donor decides in wallet)
+    amount_atomic: {
+      type: "numeric(20,0)",
+      notNull: false,
+    },
+
+    description: {
+      type: "text",
+      notNull: true,
+      default: "",
+    },
+
+    expires_at: {
+      type: "timestamptz",
+      notNull: false,
+    },
+
+    // pending -> seen -> confirmed, or pending -> expired
+    status: {
+      type: "text",
+      notNull: true,
+      default: "pending",
+    },
+
+    status_updated_at: {
+      type: "timestamptz",
+      notNull: true,
+      default: pgm.func("now()"),
+    },
+  });
+
+  pgm.sql(`
+    UPDATE invoices
+    SET expires_at = created_at + interval '${DEFAULT_TTL_MINUTES} minutes'
+    WHERE expires_at IS NULL;
+  `);
+  pgm.alterColumn("invoices", "expires_at", { notNull: true });
+
+  pgm.addConstraint("invoices", "invoices_status_chk", {
+    check: "status IN ('pending', 'seen', 'confirmed', 'expired')",
+  });
+
+  pgm.addConstraint("invoices", "invoices_amount_positive_chk", {
+    check: "amount_atomic IS NULL OR amount_atomic > 0",
+  });
+
+  pgm.createIndex("invoices", ["status", "expires_at"], {
+    name: "invoices_status_expires_at_idx",
+  });
+
+  pgm.renameColumn("payments", "issued_subaddress_id", "invoice_id");
+  pgm.sql(
+    `ALTER INDEX payments_issued_subaddress_id_idx RENAME TO payments_invoice_id_idx;`,
+  );
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.sql(
+    `ALTER INDEX payments_invoice_id_idx RENAME TO payments_issued_subaddress_id_idx;`,
+  );
+  pgm.renameColumn("payments", "invoice_id", "issued_subaddress_id");
+
+  pgm.dropIndex("invoices", ["status", "expires_at"], {
+    name: "invoices_status_expires_at_idx",
+  });
+  pgm.dropConstraint("invoices", "invoices_amount_positive_chk");
+  pgm.dropConstraint("invoices", "invoices_status_chk");
+  pgm.dropColumns("invoices", [
+    "amount_atomic",
+    "description",
+    "expires_at",
+    "status",
+    "status_updated_at",
+  ]);
+
+  pgm.sql(
+    `ALTER INDEX invoices_created_at_idx RENAME TO issued_subaddresses_issued_at_idx;`,
+  );
+  pgm.sql(
+    `ALTER INDEX invoices_paylink_index_idx RENAME TO issued_subaddresses_paylink_index_idx;`,
+  );
+  pgm.renameColumn("invoices", "created_at", "issued_at");
+  pgm.renameTable("invoices", "issued_subaddresses");
+}
@@ -0,0 +1,38 @@
+import type { MigrationBuilder } from "node-pg-migrate";
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Network detected from the address prefix at create time
+  pgm.addColumns("paylinks", {
+    network: {
+      type: "text",
+      notNull: false,
+    },
+  });
+
+  // Backfill from the leading base58 character of the primary address:
+  // mainnet '4', stagenet '5', testnet '9' or 'A'
+  pgm.sql(`
+    UPDATE paylinks
+    SET network = CASE left(public_address, 1)
+      WHEN '5' THEN 'stagenet'
+      WHEN '9' THEN 'testnet'
+      WHEN 'A' THEN 'testnet'
+      ELSE 'mainnet'
+    END
+    WHERE network IS NULL;
+  `);
+
+  pgm.alterColumn("paylinks", "network", {
+    notNull: true,
+    default: "mainnet",
+  });
+
+  pgm.addConstraint("paylinks", "paylinks_network_chk", {
+    check: "network IN ('mainnet', 'stagenet', 'testnet')",
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropConstraint("paylinks", "paylinks_network_chk");
+  pgm.dropColumns("paylinks", ["network"]);
+}
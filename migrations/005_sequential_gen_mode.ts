@@ -0,0 +1,47 @@
+import type { MigrationBuilder } from "node-pg-migrate";
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Allow sequential mode alongside random
+  pgm.dropConstraint("paylinks", "paylinks_gen_mode_random_chk");
+  pgm.addConstraint("paylinks", "paylinks_gen_mode_chk", {
+    check: "gen_mode IN ('random', 'sequential')",
+  });
+  // 001 set the default to the quoted text "'random'", which the check
+  // rejects; string defaults are quoted by node-pg-migrate
+  pgm.alterColumn("paylinks", "gen_mode", { default: "random" });
+
+  pgm.addColumns("paylinks", {
+    // Next index to hand out in sequential mode (null = start at min_index)
+    next_index: {
+      type: "integer",
+      notNull: false,
+    },
+
+    // What sequential mode does once next_index passes max_index
+    exhaustion_policy: {
+      type: "text",
+      notNull: true,
+      default: "refuse",
+    },
+  });
+
+  pgm.addConstraint("paylinks", "paylinks_next_index_chk", {
+    check: "next_index IS NULL OR next_index >= 1",
+  });
+
+  pgm.addConstraint("paylinks", "paylinks_exhaustion_policy_chk", {
+    check: "exhaustion_policy IN ('wrap', 'refuse', 'extend')",
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropConstraint("paylinks", "paylinks_exhaustion_policy_chk");
+  pgm.dropConstraint("paylinks", "paylinks_next_index_chk");
+  pgm.dropColumns("paylinks", ["next_index", "exhaustion_policy"]);
+
+  pgm.dropConstraint("paylinks", "paylinks_gen_mode_chk");
+  pgm.sql(`UPDATE paylinks SET gen_mode = 'random' WHERE gen_mode <> 'random';`);
+  pgm.addConstraint("paylinks", "paylinks_gen_mode_random_chk", {
+    check: "gen_mode = 'random'",
+  });
+}
@@ -0,0 +1,23 @@
+import type { MigrationBuilder } from "node-pg-migrate";
+
+const MAX_ACCOUNT_INDEX = 10_000;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Wallet account (major index) the paylink's subaddresses belong to
+  pgm.addColumns("paylinks", {
+    account_index: {
+      type: "integer",
+      notNull: true,
+      default: 0,
+    },
+  });
+
+  pgm.addConstraint("paylinks", "paylinks_account_index_range_chk", {
+    check: `account_index >= 0 AND account_index <= ${MAX_ACCOUNT_INDEX}`,
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropConstraint("paylinks", "paylinks_account_index_range_chk");
+  pgm.dropColumns("paylinks", ["account_index"]);
+}
@@ -0,0 +1,25 @@
+import type { MigrationBuilder } from "node-pg-migrate";
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Master key version used to encrypt encrypted_view_key
+  pgm.addColumns("paylinks", {
+    key_version: {
+      type: "integer",
+      notNull: true,
+      default: 1,
+    },
+  });
+
+  pgm.addConstraint("paylinks", "paylinks_key_version_chk", {
+    check: "key_version >= 1",
+  });
+
+  // Rotation looks up rows still on an old version
+  pgm.createIndex("paylinks", ["key_version"], { name: "paylinks_key_version_idx" });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropIndex("paylinks", ["key_version"], { name: "paylinks_key_version_idx" });
+  pgm.dropConstraint("paylinks", "paylinks_key_version_chk");
+  pgm.dropColumns("paylinks", ["key_version"]);
+}
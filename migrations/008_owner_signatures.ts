@@ -0,0 +1,65 @@
+import type { MigrationBuilder } from "node-pg-migrate";
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Single-use nonces for signature-based owner authentication
+  pgm.createTable("owner_challenges", {
+    nonce: {
+      type: "text",
+      primaryKey: true,
+    },
+
+    // Address the challenge was issued for
+    public_address: {
+      type: "text",
+      notNull: true,
+    },
+
+    // Exact message the owner has to sign
+    message: {
+      type: "text",
+      notNull: true,
+    },
+
+    created_at: {
+      type: "timestamptz",
+      notNull: true,
+      default: pgm.func("now()"),
+    },
+
+    expires_at: {
+      type: "timestamptz",
+      notNull: true,
+    },
+
+    used_at: {
+      type: "timestamptz",
+      notNull: false,
+    },
+  });
+
+  pgm.createIndex("owner_challenges", ["expires_at"], {
+    name: "owner_challenges_expires_at_idx",
+  });
+
+  // Lets an owner who proved control of the spend key switch off the
+  // static ownerKey (e.g. after it leaked)
+  pgm.addColumns("paylinks", {
+    owner_key_disabled: {
+      type: "boolean",
+      notNull: true,
+      default: false,
+    },
+  });
+
+  pgm.createIndex("paylinks", ["public_address"], {
+    name: "paylinks_public_address_idx",
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropIndex("paylinks", ["public_address"], {
+    name: "paylinks_public_address_idx",
+  });
+  pgm.dropColumns("paylinks", ["owner_key_disabled"]);
+  pgm.dropTable("owner_challenges");
+}
@@ -0,0 +1,61 @@
+import type { MigrationBuilder } from "node-pg-migrate";
+
+const MAX_REQUESTS = 1_000_000;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  pgm.addColumns("paylinks", {
+    // Link only answers /meta and /request inside [starts_at, expires_at)
+    starts_at: {
+      type: "timestamptz",
+      notNull: false,
+    },
+
+    expires_at: {
+      type: "timestamptz",
+      notNull: false,
+    },
+
+    // Cap on /request calls (null = unlimited)
+    max_requests: {
+      type: "integer",
+      notNull: false,
+    },
+
+    request_count: {
+      type: "integer",
+      notNull: true,
+      default: 0,
+    },
+  });
+
+  pgm.addConstraint("paylinks", "paylinks_schedule_chk", {
+    check: "starts_at IS NULL OR expires_at IS NULL OR starts_at < expires_at",
+  });
+
+  pgm.addConstraint("paylinks", "paylinks_max_requests_chk", {
+    check: `max_requests IS NULL OR (max_requests >= 1 AND max_requests <= ${MAX_REQUESTS})`,
+  });
+
+  pgm.addConstraint("paylinks", "paylinks_request_count_chk", {
+    check: "request_count >= 0",
+  });
+
+  // Sweeper looks up active links past their expiry
+  pgm.createIndex("paylinks", ["expires_at"], {
+    name: "paylinks_expires_at_idx",
+    where: "active AND expires_at IS NOT NULL",
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropIndex("paylinks", ["expires_at"], { name: "paylinks_expires_at_idx" });
+  pgm.dropConstraint("paylinks", "paylinks_request_count_chk");
+  pgm.dropConstraint("paylinks", "paylinks_max_requests_chk");
+  pgm.dropConstraint("paylinks", "paylinks_schedule_chk");
+  pgm.dropColumns("paylinks", [
+    "starts_at",
+    "expires_at",
+    "max_requests",
+    "request_count",
+  ]);
+}
@@ -0,0 +1,56 @@
+import type { MigrationBuilder } from "node-pg-migrate";
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Quote an invoice amount was converted from, when requested in fiat.
+  // Unconstrained numeric keeps the decimal strings exactly as quoted.
+  pgm.addColumns("invoices", {
+    fiat_amount: {
+      type: "numeric",
+      notNull: false,
+    },
+
+    // ISO 4217 code
+    fiat_currency: {
+      type: "text",
+      notNull: false,
+    },
+
+    // Fiat units per 1 XMR
+    fiat_rate: {
+      type: "numeric",
+      notNull: false,
+    },
+
+    rate_source: {
+      type: "text",
+      notNull: false,
+    },
+
+    quoted_at: {
+      type: "timestamptz",
+      notNull: false,
+    },
+  });
+
+  // All quote columns are set together, and only for invoices with an amount
+  pgm.addConstraint("invoices", "invoices_fiat_quote_chk", {
+    check: `
+      (fiat_amount IS NULL AND fiat_currency IS NULL AND fiat_rate IS NULL
+        AND rate_source IS NULL AND quoted_at IS NULL)
+      OR (fiat_amount > 0 AND fiat_currency IS NOT NULL AND fiat_rate > 0
+        AND rate_source IS NOT NULL AND quoted_at IS NOT NULL
+        AND amount_atomic IS NOT NULL)
+    `,
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropConstraint("invoices", "invoices_fiat_quote_chk");
+  pgm.dropColumns("invoices", [
+    "fiat_amount",
+    "fiat_currency",
+    "fiat_rate",
+    "rate_source",
+    "quoted_at",
+  ]);
+}
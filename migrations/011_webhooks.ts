@@ -0,0 +1,147 @@
+import type { MigrationBuilder } from "node-pg-migrate";
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Owner-registered endpoints notified about paylink events
+  pgm.createTable("webhooks", {
+    id: {
+      type: "uuid",
+      primaryKey: true,
+      default: pgm.func("gen_random_uuid()"),
+    },
+
+    paylink_id: {
+      type: "uuid",
+      notNull: true,
+      references: "paylinks",
+      onDelete: "CASCADE",
+    },
+
+    url: {
+      type: "text",
+      notNull: true,
+    },
+
+    // Event types this endpoint receives
+    events: {
+      type: "text[]",
+      notNull: true,
+    },
+
+    // HMAC signing secret, encrypted like the view key (AES-256-GCM)
+    encrypted_secret: {
+      type: "text",
+      notNull: true,
+    },
+
+    secret_nonce: {
+      type: "text",
+      notNull: true,
+    },
+
+    key_version: {
+      type: "integer",
+      notNull: true,
+    },
+
+    created_at: {
+      type: "timestamptz",
+      notNull: true,
+      default: pgm.func("now()"),
+    },
+  });
+
+  pgm.createIndex("webhooks", ["paylink_id"], {
+    name: "webhooks_paylink_id_idx",
+  });
+
+  // Durable delivery queue: one row per (event, webhook)
+  pgm.createTable("webhook_deliveries", {
+    id: {
+      type: "uuid",
+      primaryKey: true,
+      default: pgm.func("gen_random_uuid()"),
+    },
+
+    webhook_id: {
+      type: "uuid",
+      notNull: true,
+      references: "webhooks",
+      onDelete: "CASCADE",
+    },
+
+    // Same for every webhook receiving the event, lets receivers dedupe
+    event_id: {
+      type: "uuid",
+      notNull: true,
+    },
+
+    event_type: {
+      type: "text",
+      notNull: true,
+    },
+
+    // Exact JSON body that gets signed and sent
+    payload: {
+      type: "text",
+      notNull: true,
+    },
+
+    // pending -> delivered, or pending -> dead after the last attempt
+    status: {
+      type: "text",
+      notNull: true,
+      default: "pending",
+    },
+
+    attempts: {
+      type: "integer",
+      notNull: true,
+      default: 0,
+    },
+
+    next_attempt_at: {
+      type: "timestamptz",
+      notNull: true,
+      default: pgm.func("now()"),
+    },
+
+    last_status_code: {
+      type: "integer",
+      notNull: false,
+    },
+
+    last_error: {
+      type: "text",
+      notNull: false,
+    },
+
+    created_at: {
+      type: "timestamptz",
+      notNull: true,
+      default: pgm.func("now()"),
+    },
+
+    delivered_at: {
+      type: "timestamptz",
+      notNull: false,
+    },
+  });
+
+  pgm.addConstraint("webhook_deliveries", "webhook_deliveries_status_chk", {
+    check: "status IN ('pending', 'delivered', 'dead')",
+  });
+
+  // Dispatcher picks due pending deliveries
+  pgm.createIndex("webhook_deliveries", ["next_attempt_at"], {
+    name: "webhook_deliveries_due_idx",
+    where: "status = 'pending'",
+  });
+  pgm.createIndex("webhook_deliveries", ["webhook_id", "created_at"], {
+    name: "webhook_deliveries_webhook_created_idx",
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropTable("webhook_deliveries");
+  pgm.dropTable("webhooks");
+}
@@ -0,0 +1,44 @@
+import type { MigrationBuilder } from "node-pg-migrate";
+
+const MAX_PRESET_AMOUNTS = 10;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Owner-set amount rules, in atomic units (see src/amounts.ts)
+  pgm.addColumns("paylinks", {
+    fixed_amount_atomic: {
+      type: "numeric(20,0)",
+      notNull: false,
+    },
+
+    min_amount_atomic: {
+      type: "numeric(20,0)",
+      notNull: false,
+    },
+
+    // Sorted ascending, no duplicates
+    preset_amounts_atomic: {
+      type: "numeric(20,0)[]",
+      notNull: true,
+      default: "{}",
+    },
+  });
+
+  pgm.addConstraint("paylinks", "paylinks_amount_policy_chk", {
+    check: `
+      (fixed_amount_atomic IS NULL OR fixed_amount_atomic > 0)
+      AND (min_amount_atomic IS NULL OR min_amount_atomic > 0)
+      AND cardinality(preset_amounts_atomic) <= ${MAX_PRESET_AMOUNTS}
+      AND (fixed_amount_atomic IS NULL
+        OR (min_amount_atomic IS NULL AND cardinality(preset_amounts_atomic) = 0))
+    `,
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropConstraint("paylinks", "paylinks_amount_policy_chk");
+  pgm.dropColumns("paylinks", [
+    "fixed_amount_atomic",
+    "min_amount_atomic",
+    "preset_amounts_atomic",
+  ]);
+}
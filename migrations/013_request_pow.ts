@@ -0,0 +1,79 @@
+import type { MigrationBuilder } from "node-pg-migrate";
+
+const MAX_BASE_DIFFICULTY = 24;
+const MAX_DIFFICULTY = 30;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Base proof-of-work difficulty (leading zero bits) for /request;
+  // NULL leaves the paylink ungated (see src/pow.ts)
+  pgm.addColumns("paylinks", {
+    pow_difficulty: {
+      type: "integer",
+      notNull: false,
+    },
+  });
+
+  pgm.addConstraint("paylinks", "paylinks_pow_difficulty_chk", {
+    check: `pow_difficulty IS NULL OR pow_difficulty BETWEEN 0 AND ${MAX_BASE_DIFFICULTY}`,
+  });
+
+  // Single-use proof-of-work challenges
+  pgm.createTable("pow_challenges", {
+    nonce: {
+      type: "text",
+      primaryKey: true,
+    },
+
+    paylink_id: {
+      type: "uuid",
+      notNull: true,
+      references: "paylinks",
+      onDelete: "CASCADE",
+    },
+
+    // Effective difficulty when issued (base plus load adjustment)
+    difficulty: {
+      type: "integer",
+      notNull: true,
+      check: `difficulty BETWEEN 0 AND ${MAX_DIFFICULTY}`,
+    },
+
+    created_at: {
+      type: "timestamptz",
+      notNull: true,
+      default: pgm.func("now()"),
+    },
+
+    expires_at: {
+      type: "timestamptz",
+      notNull: true,
+    },
+
+    used_at: {
+      type: "timestamptz",
+      notNull: false,
+    },
+  });
+
+  pgm.createIndex("pow_challenges", ["expires_at"], {
+    name: "pow_challenges_expires_at_idx",
+  });
+
+  pgm.createIndex("pow_challenges", ["paylink_id"], {
+    name: "pow_challenges_paylink_id_idx",
+  });
+
+  // Recent invoices per paylink drive the load adjustment
+  pgm.createIndex("invoices", ["paylink_id", "created_at"], {
+    name: "invoices_paylink_created_at_idx",
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropIndex("invoices", ["paylink_id", "created_at"], {
+    name: "invoices_paylink_created_at_idx",
+  });
+  pgm.dropTable("pow_challenges");
+  pgm.dropConstraint("paylinks", "paylinks_pow_difficulty_chk");
+  pgm.dropColumns("paylinks", ["pow_difficulty"]);
+}
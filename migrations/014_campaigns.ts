@@ -0,0 +1,52 @@
+import type { MigrationBuilder } from "node-pg-migrate";
+
+const MAX_CAMPAIGN_DESCRIPTION_LENGTH = 500;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Fundraising campaign (see src/campaigns.ts); a paylink has one when
+  // campaign_goal_atomic is set
+  pgm.addColumns("paylinks", {
+    campaign_goal_atomic: {
+      type: "numeric(20,0)",
+      notNull: false,
+    },
+
+    campaign_deadline: {
+      type: "timestamptz",
+      notNull: false,
+    },
+
+    campaign_description: {
+      type: "text",
+      notNull: false,
+    },
+
+    // Donations the owner received outside payment detection
+    campaign_reported_atomic: {
+      type: "numeric(20,0)",
+      notNull: true,
+      default: 0,
+    },
+  });
+
+  pgm.addConstraint("paylinks", "paylinks_campaign_chk", {
+    check: `
+      (campaign_goal_atomic IS NULL OR campaign_goal_atomic > 0)
+      AND campaign_reported_atomic >= 0
+      AND (campaign_description IS NULL
+        OR length(campaign_description) <= ${MAX_CAMPAIGN_DESCRIPTION_LENGTH})
+      AND (campaign_goal_atomic IS NOT NULL
+        OR (campaign_deadline IS NULL AND campaign_description IS NULL))
+    `,
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropConstraint("paylinks", "paylinks_campaign_chk");
+  pgm.dropColumns("paylinks", [
+    "campaign_goal_atomic",
+    "campaign_deadline",
+    "campaign_description",
+    "campaign_reported_atomic",
+  ]);
+}
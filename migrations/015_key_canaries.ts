@@ -0,0 +1,33 @@
+import type { MigrationBuilder } from "node-pg-migrate";
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // A known plaintext encrypted once per master key version; the readiness
+  // check decrypts it to catch a replaced or mistyped key before any real
+  // secret fails to decrypt (see src/readiness.ts)
+  pgm.createTable("key_canaries", {
+    key_version: {
+      type: "integer",
+      primaryKey: true,
+    },
+
+    ciphertext: {
+      type: "text",
+      notNull: true,
+    },
+
+    nonce: {
+      type: "text",
+      notNull: true,
+    },
+
+    created_at: {
+      type: "timestamptz",
+      notNull: true,
+      default: pgm.func("now()"),
+    },
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropTable("key_canaries");
+}
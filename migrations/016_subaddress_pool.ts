@@ -0,0 +1,53 @@
+import type { MigrationBuilder } from "node-pg-migrate";
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Subaddresses derived ahead of time by the pool refiller, encrypted with
+  // the master key (see src/subaddresses/pool.ts). Only a cache: rows can be
+  // dropped at any time and are derived again when needed.
+  pgm.createTable(
+    "subaddress_pool",
+    {
+      paylink_id: {
+        type: "uuid",
+        notNull: true,
+        references: "paylinks",
+        onDelete: "CASCADE",
+      },
+
+      subaddress_index: {
+        type: "integer",
+        notNull: true,
+      },
+
+      encrypted_address: {
+        type: "text",
+        notNull: true,
+      },
+
+      nonce: {
+        type: "text",
+        notNull: true,
+      },
+
+      key_version: {
+        type: "integer",
+        notNull: true,
+      },
+
+      created_at: {
+        type: "timestamptz",
+        notNull: true,
+        default: pgm.func("now()"),
+      },
+    },
+    {
+      constraints: {
+        primaryKey: ["paylink_id", "subaddress_index"],
+      },
+    },
+  );
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropTable("subaddress_pool");
+}
@@ -0,0 +1,90 @@
+// src/allocation.ts
+//
+// Sequential subaddress index allocation. The paylink row is locked while
+// the next index is read and advanced, so concurrent /request calls never
+// receive the same index (until the range is exhausted and the owner chose
+// to wrap).
+
+import type { PoolClient } from "pg";
+
+export type GenMode = "random" | "sequential";
+
+export type ExhaustionPolicy = "wrap" | "refuse" | "extend";
+
+export type AllocationResult =
+  | { ok: true; index: number; wrapped: boolean; extendedTo: number | null }
+  | { ok: false; reason: "exhausted" | "not_found" };
+
+/**
+ * Allocate the next index for a sequential paylink. Runs in the caller's
+ * transaction: the row stays locked until it ends, and a rollback returns
+ * the index.
+ *
+ * When next_index passes max_index:
+ * - wrap:   start again at min_index (indices are reused from then on)
+ * - refuse: fail with "exhausted"
+ * - extend: grow max_index by the current range size (doubling the range),
+ *           up to maxIndexLimit, then behave like refuse
+ */
+export async function allocateSequentialIndex(
+  client: PoolClient,
+  paylinkId: string,
+  maxIndexLimit: number,
+): Promise<AllocationResult> {
+  const res = await client.query<{
+    min_index: number;
+    max_index: number;
+    next_index: number | null;
+    exhaustion_policy: ExhaustionPolicy;
+  }>(
+    `
+    SELECT min_index, max_index, next_index, exhaustion_policy
+    FROM paylinks
+    WHERE id = $1 AND gen_mode = 'sequential'
+    FOR UPDATE
+    `,
+    [paylinkId],
+  );
+
+  if (res.rowCount !== 1) {
+    return { ok: false, reason: "not_found" };
+  }
+
+  const row = res.rows[0]!;
+  let index = Math.max(row.next_index ?? row.min_index, row.min_index);
+  let maxIndex = row.max_index;
+  let wrapped = false;
+  let extendedTo: number | null = null;
+
+  if (index > maxIndex) {
+    if (row.exhaustion_policy === "wrap") {
+      index = row.min_index;
+      wrapped = true;
+    } else if (
+      row.exhaustion_policy === "extend" &&
+      maxIndex < maxIndexLimit
+    ) {
+      const size = maxIndex - row.min_index + 1;
+      maxIndex = Math.min(maxIndex + size, maxIndexLimit);
+      extendedTo = maxIndex;
+      // Updates keep next_index at most one past max_index; never hand out
+      // an index outside the range should that ever not hold
+      if (index > maxIndex) {
+        return { ok: false, reason: "exhausted" };
+      }
+    } else {
+      return { ok: false, reason: "exhausted" };
+    }
+  }
+
+  await client.query(
+    `
+    UPDATE paylinks
+    SET next_index = $2, max_index = $3
+    WHERE id = $1
+    `,
+    [paylinkId, index + 1, maxIndex],
+  );
+
+  return { ok: true, index, wrapped, extendedTo };
+}
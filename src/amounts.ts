@@ -0,0 +1,120 @@
+// src/amounts.ts
+//
+// Amount rules an owner can set on a paylink:
+//
+// - fixedAmount:   every request is for exactly this amount
+// - minAmount:     requests must be for at least this amount
+// - presetAmounts: choices shown by the donation page. Without minAmount
+//                  they are the only accepted amounts; with it they are
+//                  suggestions and any amount >= minAmount is accepted.
+//
+// All comparisons are on atomic units (BigInt), never on floats.
+
+import { formatXmr } from "./monero/amount";
+
+export const MAX_PRESET_AMOUNTS = 10;
+
+export type AmountPolicy = {
+  fixed: bigint | null;
+  min: bigint | null;
+  presets: bigint[];
+};
+
+export type AmountRejection =
+  | "fixed_amount"
+  | "amount_required"
+  | "below_minimum"
+  | "not_a_preset";
+
+export type AmountCheck =
+  | { ok: true; amount: bigint | null }
+  | { ok: false; reason: AmountRejection };
+
+export function hasAmountPolicy(policy: AmountPolicy): boolean {
+  return policy.fixed !== null || policy.min !== null || policy.presets.length > 0;
+}
+
+/**
+ * Build a policy from create options, or return an error message for the
+ * offending option.
+ */
+export function buildAmountPolicy(opts: {
+  fixed: bigint | null;
+  min: bigint | null;
+  presets: bigint[];
+}): { ok: true; policy: AmountPolicy } | { ok: false; field: string; message: string } {
+  if (opts.fixed !== null && (opts.min !== null || opts.presets.length > 0)) {
+    return {
+      ok: false,
+      field: "fixedAmount",
+      message: "fixedAmount can't be combined with minAmount or presetAmounts",
+    };
+  }
+
+  const presets = [...new Set(opts.presets)].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  if (opts.min !== null && presets.some((p) => p < opts.min!)) {
+    return {
+      ok: false,
+      field: "presetAmounts",
+      message: "presetAmounts must not be below minAmount",
+    };
+  }
+
+  return { ok: true, policy: { fixed: opts.fixed, min: opts.min, presets } };
+}
+
+/**
+ * Check a requested amount (null = donor didn't give one) against the
+ * policy. On success returns the amount to invoice.
+ */
+export function checkRequestedAmount(
+  policy: AmountPolicy,
+  requested: bigint | null,
+): AmountCheck {
+  if (policy.fixed !== null) {
+    if (requested !== null && requested !== policy.fixed) {
+      return { ok: false, reason: "fixed_amount" };
+    }
+    return { ok: true, amount: policy.fixed };
+  }
+
+  if (policy.min !== null) {
+    if (requested === null) return { ok: false, reason: "amount_required" };
+    if (requested < policy.min) return { ok: false, reason: "below_minimum" };
+    return { ok: true, amount: requested };
+  }
+
+  if (policy.presets.length > 0) {
+    if (requested === null) return { ok: false, reason: "amount_required" };
+    if (!policy.presets.includes(requested)) {
+      return { ok: false, reason: "not_a_preset" };
+    }
+  }
+
+  return { ok: true, amount: requested };
+}
+
+/**
+ * Select `preset_amounts_atomic::text[]`: pg parses the elements of a
+ * numeric[] as floats, which loses precision above 2^53 atomic units.
+ */
+export function amountPolicyFromRow(row: {
+  fixed_amount_atomic: string | null;
+  min_amount_atomic: string | null;
+  preset_amounts_atomic: string[];
+}): AmountPolicy {
+  return {
+    fixed: row.fixed_amount_atomic !== null ? BigInt(row.fixed_amount_atomic) : null,
+    min: row.min_amount_atomic !== null ? BigInt(row.min_amount_atomic) : null,
+    presets: row.preset_amounts_atomic.map((a) => BigInt(a)),
+  };
+}
+
+/** XMR decimal strings for API responses. */
+export function formatAmountPolicy(policy: AmountPolicy) {
+  return {
+    fixedAmount: policy.fixed !== null ? formatXmr(policy.fixed) : null,
+    minAmount: policy.min !== null ? formatXmr(policy.min) : null,
+    presetAmounts: policy.presets.map(formatXmr),
+  };
+}
@@ -0,0 +1,183 @@
+// src/benchSubaddresses.ts
+//
+// Compare the ways /request can produce a subaddress:
+//
+// - inline:  decrypt the view key and derive on the event loop (default)
+// - workers: decrypt the view key, derive in worker threads
+//            (DERIVATION_WORKERS)
+// - pooled:  decrypt a precomputed address (SUBADDRESS_POOL_SIZE)
+//
+// Requests run with the given concurrency against a throwaway wallet. For
+// each path it prints throughput, request latency and how long the event
+// loop was blocked, which is what every other request on the instance
+// waits for. The database round trips are left out: the paylink row is
+// read on every path, and a pool hit adds one indexed lookup.
+//
+// Usage: npm run bench:subaddresses -- [--requests 2000] [--concurrency 50] [--workers 4]
+
+import crypto from "crypto";
+import os from "os";
+import { monitorEventLoopDelay, performance } from "perf_hooks";
+import { cnBase58Encode } from "./monero/base58";
+import { numberToBytesLE, reduceScalar } from "./monero/ed25519";
+import { keccak256 } from "./monero/keccak";
+import { derivePublicKey } from "./monero/keys";
+import { createDeriver, type SubaddressDeriver } from "./subaddresses/derive";
+
+const MAINNET_STANDARD_PREFIX = 18;
+const SUBADDRESS_RANGE = 10_000;
+
+type Options = { requests: number; concurrency: number; workers: number };
+
+type Sealed = { payload: Buffer; nonce: Buffer };
+
+function parseIntArg(argv: string[], name: string, fallback: number, max: number): number {
+  const i = argv.indexOf(name);
+  if (i === -1) return fallback;
+  const n = Number(argv[i + 1]);
+  if (!Number.isInteger(n) || n < 1 || n > max) {
+    throw new Error(`${name} must be an integer between 1 and ${max}`);
+  }
+  return n;
+}
+
+function parseOptions(argv: string[]): Options {
+  return {
+    requests: parseIntArg(argv, "--requests", 2000, 1_000_000),
+    concurrency: parseIntArg(argv, "--concurrency", 50, 10_000),
+    workers: parseIntArg(argv, "--workers", Math.max(1, os.availableParallelism() - 1), 64),
+  };
+}
+
+function randomPrivateKey(): string {
+  const scalar = reduceScalar(crypto.randomBytes(64));
+  return Buffer.from(numberToBytesLE(scalar)).toString("hex");
+}
+
+/** A random mainnet wallet: its standard address and private view key. */
+function throwawayWallet() {
+  const privateViewKey = randomPrivateKey();
+  const body = Buffer.concat([
+    Buffer.from([MAINNET_STANDARD_PREFIX]),
+    Buffer.from(derivePublicKey(randomPrivateKey()), "hex"),
+    Buffer.from(derivePublicKey(privateViewKey), "hex"),
+  ]);
+  const checksum = keccak256(body).subarray(0, 4);
+  return {
+    publicAddress: cnBase58Encode(Buffer.concat([body, checksum])),
+    privateViewKey,
+  };
+}
+
+// Same AES-256-GCM layout as crypto.ts (enc || tag), with a throwaway key
+// so no configuration is needed
+function seal(key: Buffer, plaintext: string): Sealed {
+  const nonce = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, nonce);
+  const enc = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return { payload: Buffer.concat([enc, cipher.getAuthTag()]), nonce };
+}
+
+function open(key: Buffer, { payload, nonce }: Sealed): string {
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, nonce);
+  decipher.setAuthTag(payload.subarray(payload.length - 16));
+  return Buffer.concat([
+    decipher.update(payload.subarray(0, payload.length - 16)),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))] ?? 0;
+}
+
+/** Run `request` opts.requests times, opts.concurrency at a time. */
+async function measure(
+  name: string,
+  opts: Options,
+  request: (index: number) => Promise<string>,
+) {
+  const latencies: number[] = [];
+  const loopDelay = monitorEventLoopDelay({ resolution: 1 });
+  let next = 0;
+
+  const client = async () => {
+    while (next < opts.requests) {
+      const index = next++ % SUBADDRESS_RANGE;
+      // Stands in for the database round trip before derivation
+      await new Promise((resolve) => setImmediate(resolve));
+      const started = performance.now();
+      await request(index);
+      latencies.push(performance.now() - started);
+    }
+  };
+
+  loopDelay.enable();
+  const started = performance.now();
+  await Promise.all(Array.from({ length: opts.concurrency }, client));
+  const elapsedMs = performance.now() - started;
+  loopDelay.disable();
+
+  latencies.sort((a, b) => a - b);
+  const ms = (n: number) => n.toFixed(2).padStart(9);
+  console.log(
+    name.padEnd(8) +
+      `${Math.round((opts.requests / elapsedMs) * 1000)}`.padStart(9) +
+      ms(percentile(latencies, 50)) +
+      ms(percentile(latencies, 95)) +
+      ms(percentile(latencies, 99)) +
+      ms(loopDelay.percentile(99) / 1e6) +
+      ms(loopDelay.max / 1e6),
+  );
+}
+
+async function main() {
+  const opts = parseOptions(process.argv.slice(2));
+  const wallet = throwawayWallet();
+  const masterKey = crypto.randomBytes(32);
+  const sealedViewKey = seal(masterKey, wallet.privateViewKey);
+
+  const derivingRequest = (deriver: SubaddressDeriver) => async (index: number) => {
+    const [address] = await deriver.derive({
+      publicAddress: wallet.publicAddress,
+      privateViewKey: open(masterKey, sealedViewKey),
+      accountIndex: 0,
+      indices: [index],
+    });
+    return address!;
+  };
+
+  console.log(
+    `${opts.requests} requests, concurrency ${opts.concurrency}, ` +
+      `${opts.workers} workers, ${os.availableParallelism()} CPUs`,
+  );
+  console.log("path     req/s   p50 ms   p95 ms   p99 ms  loop p99 loop max");
+
+  const inline = createDeriver(0);
+  await measure("inline", opts, derivingRequest(inline));
+
+  const workers = createDeriver(opts.workers);
+  try {
+    // Let the threads start before timing them
+    await workers.derive({ ...wallet, accountIndex: 0, indices: [0] });
+    await measure("workers", opts, derivingRequest(workers));
+  } finally {
+    await workers.close();
+  }
+
+  // The refiller's work, done up front here
+  const pooled = new Map<number, Sealed>();
+  const count = Math.min(opts.requests, SUBADDRESS_RANGE);
+  const addresses = await inline.derive({
+    ...wallet,
+    accountIndex: 0,
+    indices: Array.from({ length: count }, (_, i) => i),
+  });
+  addresses.forEach((address, i) => pooled.set(i, seal(masterKey, address)));
+  await measure("pooled", opts, async (index) => open(masterKey, pooled.get(index)!));
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
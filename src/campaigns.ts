@@ -0,0 +1,98 @@
+// src/campaigns.ts
+//
+// Fundraising campaigns: a paylink can carry a goal amount, an optional
+// deadline and a description. Public progress counts confirmed detected
+// payments plus a total the owner reports for donations received
+// elsewhere.
+//
+// Progress is only published in coarse steps of the goal (5%), so the
+// total never moves by the size of one donation: a donation only shows
+// once the total crosses a step boundary, and it can't be told apart from
+// several smaller ones.
+
+import type { PoolClient } from "pg";
+import { formatXmr } from "./monero/amount";
+
+export const MAX_CAMPAIGN_DESCRIPTION_LENGTH = 500;
+export const PROGRESS_STEP_PERCENT = 5;
+
+export type Campaign = {
+  goal: bigint;
+  deadline: Date | null;
+  description: string | null;
+  // Owner-reported total received outside payment detection
+  reported: bigint;
+};
+
+export type CampaignRow = {
+  campaign_goal_atomic: string | null;
+  campaign_deadline: Date | null;
+  campaign_description: string | null;
+  campaign_reported_atomic: string;
+};
+
+export function campaignFromRow(row: CampaignRow): Campaign | null {
+  if (row.campaign_goal_atomic === null) return null;
+  return {
+    goal: BigInt(row.campaign_goal_atomic),
+    deadline: row.campaign_deadline,
+    description: row.campaign_description,
+    reported: BigInt(row.campaign_reported_atomic),
+  };
+}
+
+/** Public view for API responses (XMR decimal strings). */
+export function formatCampaign(campaign: Campaign | null) {
+  if (!campaign) return null;
+  return {
+    goalAmount: formatXmr(campaign.goal),
+    deadline: campaign.deadline?.toISOString() ?? null,
+    description: campaign.description,
+  };
+}
+
+/** Owner view: also includes the reported total. */
+export function formatOwnerCampaign(campaign: Campaign | null) {
+  if (!campaign) return null;
+  return {
+    ...formatCampaign(campaign)!,
+    reportedAmount: formatXmr(campaign.reported),
+  };
+}
+
+export function campaignEnded(campaign: Campaign, now = new Date()): boolean {
+  return campaign.deadline !== null && campaign.deadline.getTime() <= now.getTime();
+}
+
+/**
+ * Round a total down to whole progress steps of the goal. Past the goal
+ * the same step size keeps applying.
+ */
+export function bucketProgress(raised: bigint, goal: bigint) {
+  const steps = (raised * BigInt(100 / PROGRESS_STEP_PERCENT)) / goal;
+  return {
+    raised: (steps * goal * BigInt(PROGRESS_STEP_PERCENT)) / 100n,
+    percent: Number(steps) * PROGRESS_STEP_PERCENT,
+  };
+}
+
+/**
+ * Confirmed detected payments plus the owner-reported total, in atomic
+ * units.
+ */
+export async function campaignRaised(
+  client: PoolClient,
+  paylinkId: string,
+  campaign: Campaign,
+  minConfirmations: number,
+): Promise<bigint> {
+  const res = await client.query<{ detected: string }>(
+    `
+    SELECT COALESCE(sum(amount_atomic), 0) AS detected
+    FROM payments
+    WHERE paylink_id = $1 AND confirmations >= $2
+    `,
+    [paylinkId, minConfirmations],
+  );
+  return BigInt(res.rows[0]?.detected ?? 0) + campaign.reported;
+}
@@ -0,0 +1,434 @@
+// src/config.ts
+//
+// All settings, read from the environment once and validated at boot.
+// Every problem is collected and reported together, so a deployment with
+// several mistakes fails once instead of once per mistake (or on the first
+// request that happens to need a setting).
+//
+// Each variable can instead be given as <NAME>_FILE pointing at a file
+// holding the value (Docker/Kubernetes secrets). One trailing newline is
+// stripped. Setting both <NAME> and <NAME>_FILE is an error. Empty values
+// count as unset.
+
+import fs from "fs";
+import { z } from "zod";
+import type { PaymentBackendKind } from "./payments/backend";
+import type { RateProviderKind } from "./pricing/provider";
+import type { PowSettings } from "./pow";
+
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+export type KeyRing = {
+  activeVersion: number;
+  keys: Map<number, Buffer>;
+};
+
+export type Config = {
+  production: boolean;
+  port: number;
+  host: string;
+  databaseUrl: string;
+  // true = any origin (development only)
+  allowedOrigins: string[] | true;
+  allowNullOrigin: boolean;
+  // Always ends with "#"
+  donateBaseUrl: string;
+  keyRing: KeyRing;
+  // null = unkeyed fingerprints (development only)
+  fingerprintKey: string | null;
+  payments: {
+    backend: PaymentBackendKind;
+    mockFile: string | null;
+    daemon: { url: string; username?: string; password?: string } | null;
+    intervalMs: number;
+    watchWindowHours: number;
+    minConfirmations: number;
+  };
+  pricing: {
+    provider: RateProviderKind;
+    fixtureFile: string | null;
+    cacheSeconds: number;
+    maxAgeSeconds: number;
+  };
+  webhooks: {
+    intervalMs: number;
+    maxAttempts: number;
+    allowInsecure: boolean;
+  };
+  pow: PowSettings;
+  metrics: { host: string; port: number } | null;
+  invoiceTtlMinutes: number;
+  sweepIntervalMs: number;
+  // In-flight requests get this long to finish on SIGTERM
+  shutdownTimeoutMs: number;
+  subaddresses: {
+    // 0 = no precomputed pool
+    poolSize: number;
+    refillIntervalMs: number;
+    // 0 = derive on the event loop
+    derivationWorkers: number;
+  };
+};
+
+const DEV_DONATE_BASE_URL = "https://anonomi.org/paylinks/d#";
+
+function numberVar(message: string, check: (n: number) => boolean) {
+  return z.coerce
+    .number({ error: message })
+    .refine((n) => Number.isFinite(n) && check(n), { error: message });
+}
+
+function portVar(name: string) {
+  return numberVar(
+    `${name} must be a port number`,
+    (n) => Number.isInteger(n) && n >= 1 && n <= 65535,
+  );
+}
+
+function flagVar(name: string) {
+  return z
+    .enum(["true", "false"], { error: `${name} must be 'true' or 'false'` })
+    .optional()
+    .transform((v) => v === "true");
+}
+
+// One of `kinds`, case-insensitive; the first is the default
+function kindVar<const T extends readonly [string, ...string[]]>(name: string, kinds: T) {
+  return z
+    .string()
+    .transform((v) => v.trim().toLowerCase())
+    .pipe(
+      z.enum(kinds, {
+        error: (iss) =>
+          `${name} must be one of: ${kinds.join(", ")} (got '${String(iss.input)}')`,
+      }),
+    )
+    .default(kinds[0]);
+}
+
+function decodeMasterKey(b64: string): Buffer | null {
+  const key = Buffer.from(b64, "base64");
+  return key.length === 32 ? key : null;
+}
+
+// "1:<base64>,2:<base64>"
+const MasterKeysVar = z
+  .string()
+  .transform((ring, ctx) => {
+    const keys = new Map<number, Buffer>();
+    for (const entry of ring.split(",").map((e) => e.trim()).filter(Boolean)) {
+      const sep = entry.indexOf(":");
+      const version = Number(entry.slice(0, sep));
+      if (sep < 1 || !Number.isInteger(version) || version < 1) {
+        ctx.addIssue({
+          code: "custom",
+          message: "PAYLINKS_MASTER_KEYS entries must look like '<version>:<base64>'",
+        });
+        continue;
+      }
+      if (keys.has(version)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `PAYLINKS_MASTER_KEYS has duplicate version ${version}`,
+        });
+        continue;
+      }
+      const key = decodeMasterKey(entry.slice(sep + 1));
+      if (!key) {
+        ctx.addIssue({
+          code: "custom",
+          message: `PAYLINKS_MASTER_KEYS version ${version} must decode to 32 bytes`,
+        });
+        continue;
+      }
+      keys.set(version, key);
+    }
+    return keys;
+  })
+  .optional();
+
+// Each variable on its own, so one bad value doesn't hide the others
+const ENV_VARS = {
+  NODE_ENV: z.string().default("development"),
+  PORT: portVar("PORT").default(8787),
+  HOST: z.string().default("0.0.0.0"),
+  DATABASE_URL: z.string({ error: "DATABASE_URL is not set" }),
+  ALLOWED_ORIGINS: z.string().optional(),
+  ALLOW_NULL_ORIGIN: flagVar("ALLOW_NULL_ORIGIN"),
+  DONATE_BASE_URL: z
+    .url({ protocol: /^https?$/, error: "DONATE_BASE_URL must be an http(s) URL" })
+    .optional(),
+  PAYLINKS_MASTER_KEYS: MasterKeysVar,
+  PAYLINKS_MASTER_KEY_B64: z
+    .string()
+    .refine((v) => decodeMasterKey(v) !== null, {
+      error: "PAYLINKS_MASTER_KEY_B64 must decode to 32 bytes",
+    })
+    .optional(),
+  PAYLINKS_ACTIVE_KEY_VERSION: numberVar(
+    "PAYLINKS_ACTIVE_KEY_VERSION must be a positive integer",
+    (n) => Number.isInteger(n) && n >= 1,
+  ).optional(),
+  PAYLINKS_FINGERPRINT_KEY: z
+    .string()
+    .min(16, { error: "PAYLINKS_FINGERPRINT_KEY must be at least 16 chars" })
+    .optional(),
+  PAYMENTS_BACKEND: kindVar("PAYMENTS_BACKEND", ["none", "mock", "monero-ts"] as const),
+  PAYMENTS_MOCK_FILE: z.string().optional(),
+  MONERO_DAEMON_URL: z
+    .url({ protocol: /^https?$/, error: "MONERO_DAEMON_URL must be an http(s) URL" })
+    .optional(),
+  MONERO_DAEMON_USERNAME: z.string().optional(),
+  MONERO_DAEMON_PASSWORD: z.string().optional(),
+  PAYMENTS_POLL_INTERVAL_SECONDS: numberVar(
+    "PAYMENTS_POLL_INTERVAL_SECONDS must be a number >= 5",
+    (n) => n >= 5,
+  ).default(60),
+  PAYMENTS_WATCH_WINDOW_HOURS: numberVar(
+    "PAYMENTS_WATCH_WINDOW_HOURS must be a positive number",
+    (n) => n > 0,
+  ).default(72),
+  PAYMENTS_MIN_CONFIRMATIONS: numberVar(
+    "PAYMENTS_MIN_CONFIRMATIONS must be a non-negative integer",
+    (n) => Number.isInteger(n) && n >= 0,
+  ).default(10),
+  PRICE_PROVIDER: kindVar("PRICE_PROVIDER", ["none", "fixture", "kraken"] as const),
+  PRICE_FIXTURE_FILE: z.string().optional(),
+  PRICE_CACHE_SECONDS: numberVar(
+    "PRICE_CACHE_SECONDS must be a non-negative number",
+    (n) => n >= 0,
+  ).default(60),
+  PRICE_MAX_AGE_SECONDS: numberVar(
+    "PRICE_MAX_AGE_SECONDS must be a positive number",
+    (n) => n > 0,
+  ).default(600),
+  WEBHOOKS_POLL_INTERVAL_SECONDS: numberVar(
+    "WEBHOOKS_POLL_INTERVAL_SECONDS must be a number >= 1",
+    (n) => n >= 1,
+  ).default(5),
+  WEBHOOKS_MAX_ATTEMPTS: numberVar(
+    "WEBHOOKS_MAX_ATTEMPTS must be an integer between 1 and 50",
+    (n) => Number.isInteger(n) && n >= 1 && n <= 50,
+  ).default(10),
+  WEBHOOKS_ALLOW_INSECURE: flagVar("WEBHOOKS_ALLOW_INSECURE"),
+  POW_CHALLENGE_TTL_SECONDS: numberVar(
+    "POW_CHALLENGE_TTL_SECONDS must be an integer >= 10",
+    (n) => Number.isInteger(n) && n >= 10,
+  ).default(120),
+  POW_LOAD_WINDOW_SECONDS: numberVar(
+    "POW_LOAD_WINDOW_SECONDS must be an integer >= 1",
+    (n) => Number.isInteger(n) && n >= 1,
+  ).default(60),
+  POW_LOAD_STEP: numberVar(
+    "POW_LOAD_STEP must be an integer >= 1",
+    (n) => Number.isInteger(n) && n >= 1,
+  ).default(20),
+  METRICS_PORT: portVar("METRICS_PORT").optional(),
+  METRICS_HOST: z.string().default("127.0.0.1"),
+  INVOICE_TTL_MINUTES: numberVar(
+    "INVOICE_TTL_MINUTES must be an integer between 1 and 10080",
+    (n) => Number.isInteger(n) && n >= 1 && n <= 7 * 24 * 60,
+  ).default(60),
+  SWEEP_INTERVAL_SECONDS: numberVar(
+    "SWEEP_INTERVAL_SECONDS must be a number >= 5",
+    (n) => n >= 5,
+  ).default(60),
+  SHUTDOWN_TIMEOUT_SECONDS: numberVar(
+    "SHUTDOWN_TIMEOUT_SECONDS must be a number >= 1",
+    (n) => n >= 1,
+  ).default(30),
+  SUBADDRESS_POOL_SIZE: numberVar(
+    "SUBADDRESS_POOL_SIZE must be an integer between 0 and 1000",
+    (n) => Number.isInteger(n) && n >= 0 && n <= 1000,
+  ).default(0),
+  SUBADDRESS_POOL_REFILL_SECONDS: numberVar(
+    "SUBADDRESS_POOL_REFILL_SECONDS must be a number >= 1",
+    (n) => n >= 1,
+  ).default(10),
+  DERIVATION_WORKERS: numberVar(
+    "DERIVATION_WORKERS must be an integer between 0 and 64",
+    (n) => Number.isInteger(n) && n >= 0 && n <= 64,
+  ).default(0),
+};
+
+type EnvVars = { [K in keyof typeof ENV_VARS]: z.output<(typeof ENV_VARS)[K]> };
+
+/**
+ * Raw value of a variable, from NAME or NAME_FILE. null when it couldn't
+ * be read (the problem is recorded).
+ */
+function readVar(
+  env: NodeJS.ProcessEnv,
+  name: string,
+  problems: string[],
+): string | undefined | null {
+  const direct = env[name] || undefined;
+  const file = env[`${name}_FILE`] || undefined;
+  if (file === undefined) return direct;
+  if (direct !== undefined) {
+    problems.push(`Set only one of ${name} and ${name}_FILE`);
+    return null;
+  }
+  try {
+    return fs.readFileSync(file, "utf8").replace(/\r?\n$/, "") || undefined;
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code ?? "read error";
+    problems.push(`${name}_FILE: cannot read ${file} (${code})`);
+    return null;
+  }
+}
+
+function buildKeyRing(vars: EnvVars, problems: string[]): KeyRing {
+  const keys = new Map(vars.PAYLINKS_MASTER_KEYS ?? []);
+
+  // PAYLINKS_MASTER_KEY_B64 on its own is treated as version 1
+  if (vars.PAYLINKS_MASTER_KEY_B64 && !keys.has(1)) {
+    keys.set(1, decodeMasterKey(vars.PAYLINKS_MASTER_KEY_B64)!);
+  }
+
+  if (keys.size === 0) {
+    problems.push("PAYLINKS_MASTER_KEYS or PAYLINKS_MASTER_KEY_B64 must be set");
+    return { activeVersion: 0, keys };
+  }
+
+  const activeVersion = vars.PAYLINKS_ACTIVE_KEY_VERSION ?? Math.max(...keys.keys());
+  if (!keys.has(activeVersion)) {
+    problems.push(`PAYLINKS_ACTIVE_KEY_VERSION ${activeVersion} is not in the key ring`);
+  }
+  return { activeVersion, keys };
+}
+
+/**
+ * Read and validate the configuration. Throws a ConfigError listing every
+ * problem found.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): Config {
+  const problems: string[] = [];
+  const failed = new Set<string>();
+  const vars: Record<string, unknown> = {};
+
+  for (const [name, schema] of Object.entries(ENV_VARS)) {
+    const raw = readVar(env, name, problems);
+    if (raw === null) {
+      failed.add(name);
+      continue;
+    }
+    const result = (schema as z.ZodType).safeParse(raw);
+    if (result.success) {
+      vars[name] = result.data;
+    } else {
+      failed.add(name);
+      for (const issue of result.error.issues) problems.push(issue.message);
+    }
+  }
+
+  const v = vars as EnvVars;
+  const ok = (...names: (keyof EnvVars)[]) => names.every((n) => !failed.has(n));
+  const production = v.NODE_ENV === "production";
+
+  let allowedOrigins: string[] | true = true;
+  if (v.ALLOWED_ORIGINS && v.ALLOWED_ORIGINS !== "*") {
+    allowedOrigins = v.ALLOWED_ORIGINS.split(",").map((o) => o.trim()).filter(Boolean);
+  } else if (production) {
+    problems.push("ALLOWED_ORIGINS must be set in production (not '*')");
+  }
+
+  if (production && !v.DONATE_BASE_URL && ok("DONATE_BASE_URL")) {
+    problems.push("DONATE_BASE_URL must be set in production");
+  }
+  const donateBase = v.DONATE_BASE_URL ?? DEV_DONATE_BASE_URL;
+
+  if (production && !v.PAYLINKS_FINGERPRINT_KEY && ok("PAYLINKS_FINGERPRINT_KEY")) {
+    problems.push("PAYLINKS_FINGERPRINT_KEY must be set (>=16 chars) in production");
+  }
+
+  const keyRing = ok(
+    "PAYLINKS_MASTER_KEYS",
+    "PAYLINKS_MASTER_KEY_B64",
+    "PAYLINKS_ACTIVE_KEY_VERSION",
+  )
+    ? buildKeyRing(v, problems)
+    : { activeVersion: 0, keys: new Map<number, Buffer>() };
+
+  if (
+    v.PAYMENTS_BACKEND === "monero-ts" &&
+    !v.MONERO_DAEMON_URL &&
+    ok("MONERO_DAEMON_URL")
+  ) {
+    problems.push("MONERO_DAEMON_URL must be set when PAYMENTS_BACKEND=monero-ts");
+  }
+  if (v.PRICE_PROVIDER === "fixture" && !v.PRICE_FIXTURE_FILE) {
+    problems.push("PRICE_FIXTURE_FILE must be set when PRICE_PROVIDER=fixture");
+  }
+  if (v.METRICS_PORT !== undefined && v.METRICS_PORT === v.PORT) {
+    problems.push("METRICS_PORT must differ from PORT");
+  }
+
+  if (problems.length > 0) throw new ConfigError(problems);
+
+  return {
+    production,
+    port: v.PORT,
+    host: v.HOST,
+    databaseUrl: v.DATABASE_URL,
+    allowedOrigins,
+    allowNullOrigin: v.ALLOW_NULL_ORIGIN,
+    // The paylink id is appended as the fragment
+    donateBaseUrl: donateBase.endsWith("#") ? donateBase : `${donateBase}#`,
+    keyRing,
+    fingerprintKey: v.PAYLINKS_FINGERPRINT_KEY ?? null,
+    payments: {
+      backend: v.PAYMENTS_BACKEND,
+      mockFile: v.PAYMENTS_MOCK_FILE ?? null,
+      daemon: v.MONERO_DAEMON_URL
+        ? {
+            url: v.MONERO_DAEMON_URL,
+            username: v.MONERO_DAEMON_USERNAME,
+            password: v.MONERO_DAEMON_PASSWORD,
+          }
+        : null,
+      intervalMs: v.PAYMENTS_POLL_INTERVAL_SECONDS * 1000,
+      watchWindowHours: v.PAYMENTS_WATCH_WINDOW_HOURS,
+      minConfirmations: v.PAYMENTS_MIN_CONFIRMATIONS,
+    },
+    pricing: {
+      provider: v.PRICE_PROVIDER,
+      fixtureFile: v.PRICE_FIXTURE_FILE ?? null,
+      cacheSeconds: v.PRICE_CACHE_SECONDS,
+      maxAgeSeconds: v.PRICE_MAX_AGE_SECONDS,
+    },
+    webhooks: {
+      intervalMs: v.WEBHOOKS_POLL_INTERVAL_SECONDS * 1000,
+      maxAttempts: v.WEBHOOKS_MAX_ATTEMPTS,
+      allowInsecure: v.WEBHOOKS_ALLOW_INSECURE,
+    },
+    pow: {
+      challengeTtlSeconds: v.POW_CHALLENGE_TTL_SECONDS,
+      loadWindowSeconds: v.POW_LOAD_WINDOW_SECONDS,
+      loadStep: v.POW_LOAD_STEP,
+    },
+    metrics:
+      v.METRICS_PORT !== undefined ? { host: v.METRICS_HOST, port: v.METRICS_PORT } : null,
+    invoiceTtlMinutes: v.INVOICE_TTL_MINUTES,
+    sweepIntervalMs: v.SWEEP_INTERVAL_SECONDS * 1000,
+    shutdownTimeoutMs: v.SHUTDOWN_TIMEOUT_SECONDS * 1000,
+    subaddresses: {
+      poolSize: v.SUBADDRESS_POOL_SIZE,
+      refillIntervalMs: v.SUBADDRESS_POOL_REFILL_SECONDS * 1000,
+      derivationWorkers: v.DERIVATION_WORKERS,
+    },
+  };
+}
+
+let cached: Config | null = null;
+
+/** The configuration, loaded on first use. */
+export function getConfig(): Config {
+  cached ??= loadConfig();
+  return cached;
+}
@@ -1,20 +1,58 @@
 import crypto from "crypto";
+import { getConfig, type KeyRing } from "./config";
+import { recordDecryptFailure } from "./metrics";
 
-function getMasterKey(): Buffer {
-  const b64 = process.env.PAYLINKS_MASTER_KEY_B64;
-  if (!b64) throw new Error("PAYLINKS_MASTER_KEY_B64 is not set");
+// Key ring of versioned AES-256-GCM master keys. Rows record the version
+// they were encrypted with, so old keys stay usable while rows are
+// re-encrypted to the active one (see rotateKeys.ts).
+//
+// PAYLINKS_MASTER_KEYS="1:<base64>,2:<base64>"
+// PAYLINKS_ACTIVE_KEY_VERSION=2   (defaults to the highest version)
+//
+// PAYLINKS_MASTER_KEY_B64 on its own is treated as version 1. The ring is
+// parsed and checked by the config at boot (see config.ts).
 
-  const key = Buffer.from(b64, "base64");
-  if (key.length !== 32) throw new Error("PAYLINKS_MASTER_KEY_B64 must decode to 32 bytes");
+function getKeyRing(): KeyRing {
+  return getConfig().keyRing;
+}
+
+function getMasterKey(version: number): Buffer {
+  const key = getKeyRing().keys.get(version);
+  if (!key) throw new Error(`Master key version ${version} is not configured`);
   return key;
 }
 
-export function encryptViewKey(viewKey: string): { ciphertextB64: string; nonceB64: string } {
-  const key = getMasterKey();
+export function getActiveKeyVersion(): number {
+  return getKeyRing().activeVersion;
+}
+
+/**
+ * HMAC key for `purpose`, derived (HKDF-SHA256) from the active master key.
+ * It changes when the active version does, so only use it for short-lived
+ * values.
+ */
+export function deriveMacKey(purpose: string): Buffer {
+  const key = getMasterKey(getActiveKeyVersion());
+  return Buffer.from(
+    crypto.hkdfSync("sha256", key, Buffer.alloc(0), `paylinks:mac:${purpose}`, 32),
+  );
+}
+
+/**
+ * Encrypt any secret kept at rest (view keys, webhook signing secrets)
+ * with the active master key.
+ */
+export function encryptSecret(plaintextUtf8: string): {
+  ciphertextB64: string;
+  nonceB64: string;
+  keyVersion: number;
+} {
+  const keyVersion = getActiveKeyVersion();
+  const key = getMasterKey(keyVersion);
   const nonce = crypto.randomBytes(12); // GCM recommended nonce size
   const cipher = crypto.createCipheriv("aes-256-gcm", key, nonce);
 
-  const plaintext = Buffer.from(viewKey, "utf8");
+  const plaintext = Buffer.from(plaintextUtf8, "utf8");
   const enc = Buffer.concat([cipher.update(plaintext), cipher.final()]);
   const tag = cipher.getAuthTag();
 
@@ -24,24 +62,47 @@ export function encryptViewKey(viewKey: string): { ciphertextB64: string; nonceB
   return {
     ciphertextB64: payload.toString("base64"),
     nonceB64: nonce.toString("base64"),
+    keyVersion,
   };
 }
 
-export function decryptViewKey(ciphertextB64: string, nonceB64: string): string {
-  const key = getMasterKey();
-  const nonce = Buffer.from(nonceB64, "base64");
-  const payload = Buffer.from(ciphertextB64, "base64");
+export function decryptSecret(
+  ciphertextB64: string,
+  nonceB64: string,
+  keyVersion: number,
+): string {
+  try {
+    const key = getMasterKey(keyVersion);
+    const nonce = Buffer.from(nonceB64, "base64");
+    const payload = Buffer.from(ciphertextB64, "base64");
+
+    if (nonce.length !== 12) throw new Error("Invalid nonce length");
 
-  if (nonce.length !== 12) throw new Error("Invalid nonce length");
+    // payload = enc || tag (tag is last 16 bytes)
+    if (payload.length < 16) throw new Error("Invalid ciphertext payload");
+    const enc = payload.subarray(0, payload.length - 16);
+    const tag = payload.subarray(payload.length - 16);
 
-  // payload = enc || tag (tag is last 16 bytes)
-  if (payload.length < 16) throw new Error("Invalid ciphertext payload");
-  const enc = payload.subarray(0, payload.length - 16);
-  const tag = payload.subarray(payload.length - 16);
+    const decipher = crypto.createDecipheriv("aes-256-gcm", key, nonce);
+    decipher.setAuthTag(tag);
 
-  const decipher = crypto.createDecipheriv("aes-256-gcm", key, nonce);
-  decipher.setAuthTag(tag);
+    const dec = Buffer.concat([decipher.update(enc), decipher.final()]);
+    return dec.toString("utf8");
+  } catch (err) {
+    // Wrong key version, missing key or tampered ciphertext
+    recordDecryptFailure();
+    throw err;
+  }
+}
+
+export function encryptViewKey(viewKey: string) {
+  return encryptSecret(viewKey);
+}
 
-  const dec = Buffer.concat([decipher.update(enc), decipher.final()]);
-  return dec.toString("utf8");
+export function decryptViewKey(
+  ciphertextB64: string,
+  nonceB64: string,
+  keyVersion: number,
+): string {
+  return decryptSecret(ciphertextB64, nonceB64, keyVersion);
 }
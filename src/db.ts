@@ -1,6 +1,4 @@
 import { Pool } from "pg";
+import { getConfig } from "./config";
 
-const connectionString = process.env.DATABASE_URL;
-if (!connectionString) throw new Error("DATABASE_URL is not set");
-
-export const pool = new Pool({ connectionString });
+export const pool = new Pool({ connectionString: getConfig().databaseUrl });
@@ -0,0 +1,119 @@
+// src/embeds.ts
+//
+// Snippets owners paste into their sites to link to a paylink's donation
+// page. Every interpolated value is escaped for the target format; labels
+// are owner input and must never be able to break out of an attribute or
+// inject markup.
+
+export type EmbedTheme = "light" | "dark" | "monero";
+export type EmbedSize = "small" | "medium" | "large";
+
+export type EmbedOptions = {
+  theme: EmbedTheme;
+  size: EmbedSize;
+  buttonText: string;
+};
+
+export const DEFAULT_EMBED_OPTIONS: EmbedOptions = {
+  theme: "monero",
+  size: "medium",
+  buttonText: "Donate XMR",
+};
+
+const THEMES: Record<EmbedTheme, { background: string; color: string; border: string }> = {
+  light: { background: "#ffffff", color: "#222222", border: "#cccccc" },
+  dark: { background: "#1e1e1e", color: "#f5f5f5", border: "#444444" },
+  monero: { background: "#ff6600", color: "#ffffff", border: "#cc5200" },
+};
+
+const BUTTON_SIZES: Record<EmbedSize, { fontPx: number; padding: string }> = {
+  small: { fontPx: 12, padding: "4px 10px" },
+  medium: { fontPx: 14, padding: "8px 16px" },
+  large: { fontPx: 18, padding: "12px 24px" },
+};
+
+// Donation page frame, also used for oEmbed
+export const IFRAME_SIZES: Record<EmbedSize, { width: number; height: number }> = {
+  small: { width: 320, height: 480 },
+  medium: { width: 400, height: 600 },
+  large: { width: 480, height: 720 },
+};
+
+export function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function escapeMarkdownText(s: string): string {
+  return s.replace(/[\\`*_{}[\]()<>#+\-.!|]/g, (c) => `\\${c}`);
+}
+
+// Markdown link destinations end at whitespace or ')'; encodeURIComponent
+// leaves parentheses as they are
+function escapeMarkdownUrl(s: string): string {
+  return s.replace(/[\s()<>]/g, (c) =>
+    c === "(" ? "%28" : c === ")" ? "%29" : encodeURIComponent(c),
+  );
+}
+
+// BBCode has no escape syntax; drop the characters that open or close tags
+function escapeBbcode(s: string): string {
+  return s.replace(/[[\]]/g, "");
+}
+
+function buttonStyle(opts: EmbedOptions): string {
+  const theme = THEMES[opts.theme];
+  const size = BUTTON_SIZES[opts.size];
+  return [
+    "display:inline-block",
+    `padding:${size.padding}`,
+    `font:600 ${size.fontPx}px/1.2 sans-serif`,
+    `color:${theme.color}`,
+    `background:${theme.background}`,
+    `border:1px solid ${theme.border}`,
+    "border-radius:6px",
+    "text-decoration:none",
+  ].join(";");
+}
+
+export function buildIframe(
+  donateUrl: string,
+  title: string,
+  width: number,
+  height: number,
+): string {
+  return (
+    `<iframe src="${escapeHtml(donateUrl)}" title="${escapeHtml(title)}" ` +
+    `width="${width}" height="${height}" ` +
+    `style="border:0" loading="lazy" referrerpolicy="no-referrer" ` +
+    `sandbox="allow-scripts allow-same-origin allow-popups"></iframe>`
+  );
+}
+
+export function buildEmbeds(
+  donateUrl: string,
+  label: string | null,
+  opts: EmbedOptions = DEFAULT_EMBED_OPTIONS,
+) {
+  const title = label ? `${opts.buttonText}: ${label}` : opts.buttonText;
+  const frame = IFRAME_SIZES[opts.size];
+  const href = escapeHtml(donateUrl);
+  const text = escapeHtml(opts.buttonText);
+
+  return {
+    html:
+      `<!-- Anonomi Paylinks -->\n` +
+      `<a href="${href}" rel="nofollow noopener" target="_blank">${text}</a>\n`,
+    button:
+      `<!-- Anonomi Paylinks -->\n` +
+      `<a href="${href}" rel="nofollow noopener" target="_blank" ` +
+      `title="${escapeHtml(title)}" style="${buttonStyle(opts)}">${text}</a>\n`,
+    iframe: buildIframe(donateUrl, title, frame.width, frame.height) + "\n",
+    markdown: `[${escapeMarkdownText(opts.buttonText)}](${escapeMarkdownUrl(donateUrl)})`,
+    bbcode: `[url=${escapeBbcode(donateUrl)}]${escapeBbcode(opts.buttonText)}[/url]`,
+  };
+}
@@ -0,0 +1,109 @@
+// src/invoices.ts
+//
+// Invoice lifecycle. Every /request creates an invoice:
+//
+//   pending ──► seen ──► confirmed
+//      │                    ▲
+//      └──► expired ────────┘ (a late payment still counts)
+//
+// "seen" means a transfer was detected but is below the confirmation
+// threshold. Expiry only applies to invoices that never saw a payment.
+
+import type { Pool } from "pg";
+import { getConfig } from "./config";
+import { formatXmr } from "./monero/amount";
+import type { PaymentStatus } from "./payments/status";
+import { enqueueWebhookEvent } from "./webhooks/events";
+
+export type InvoiceStatus = "pending" | "seen" | "confirmed" | "expired";
+
+const TRANSITIONS: Record<InvoiceStatus, readonly InvoiceStatus[]> = {
+  pending: ["seen", "confirmed", "expired"],
+  seen: ["confirmed"],
+  confirmed: [],
+  expired: ["seen", "confirmed"],
+};
+
+export function canTransition(from: InvoiceStatus, to: InvoiceStatus) {
+  return TRANSITIONS[from].includes(to);
+}
+
+/** States from which `to` can be reached; used to guard UPDATEs in SQL. */
+export function statesLeadingTo(to: InvoiceStatus): InvoiceStatus[] {
+  return (Object.keys(TRANSITIONS) as InvoiceStatus[]).filter((from) =>
+    canTransition(from, to),
+  );
+}
+
+/**
+ * Status as seen by clients. A pending invoice past its expiry is reported
+ * as expired even if the sweeper has not persisted it yet.
+ */
+export function effectiveInvoiceStatus(
+  status: InvoiceStatus,
+  expiresAt: Date,
+  now = new Date(),
+): InvoiceStatus {
+  if (status === "pending" && new Date(expiresAt).getTime() <= now.getTime()) {
+    return "expired";
+  }
+  return status;
+}
+
+/**
+ * Target invoice status for a payment summary, or null if nothing changes.
+ */
+export function nextInvoiceStatus(
+  current: InvoiceStatus,
+  payments: PaymentStatus,
+): InvoiceStatus | null {
+  if (payments === "pending") return null;
+  const target: InvoiceStatus = payments;
+  return canTransition(current, target) ? target : null;
+}
+
+export function getInvoiceTtlMinutes(): number {
+  return getConfig().invoiceTtlMinutes;
+}
+
+/**
+ * Persist expiry for pending invoices whose deadline has passed and queue
+ * an invoice.expired webhook event for each.
+ */
+export async function expireStaleInvoices(pool: Pool): Promise<number> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const res = await client.query<{
+      id: string;
+      paylink_id: string;
+      address: string;
+      amount_atomic: string | null;
+    }>(
+      `
+      UPDATE invoices
+      SET status = 'expired', status_updated_at = now()
+      WHERE status = 'pending' AND expires_at <= now()
+      RETURNING id, paylink_id, address, amount_atomic
+      `,
+    );
+
+    for (const row of res.rows) {
+      await enqueueWebhookEvent(client, row.paylink_id, "invoice.expired", {
+        invoiceId: row.id,
+        address: row.address,
+        amount: row.amount_atomic !== null ? formatXmr(BigInt(row.amount_atomic)) : "",
+        status: "expired",
+      });
+    }
+
+    await client.query("COMMIT");
+    return res.rowCount ?? 0;
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+}
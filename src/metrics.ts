@@ -0,0 +1,170 @@
+// src/metrics.ts
+//
+// Prometheus metrics, served from their own listener (METRICS_PORT) so they
+// are never reachable through the public API port or its proxy.
+//
+// Labels are aggregate only: route templates ("/api/paylinks/:id/meta"),
+// methods, status codes and paylink states. Paylink ids, addresses and
+// client IPs never become label values.
+
+import Fastify, { type FastifyInstance, type FastifyRequest } from "fastify";
+import type { Pool } from "pg";
+import promClient from "prom-client";
+import { getConfig } from "./config";
+
+const PREFIX = "paylinks_";
+// Requests not matching any route share one label value
+const UNMATCHED_ROUTE = "unmatched";
+
+export const registry = new promClient.Registry();
+
+promClient.collectDefaultMetrics({ register: registry, prefix: PREFIX });
+
+const httpRequests = new promClient.Counter({
+  name: `${PREFIX}http_requests_total`,
+  help: "HTTP requests by route template, method and status code",
+  labelNames: ["method", "route", "status_code"] as const,
+  registers: [registry],
+});
+
+// Owner and lookup routes are padded to a minimum response time (200ms),
+// hence the extra buckets around it
+const httpDuration = new promClient.Histogram({
+  name: `${PREFIX}http_request_duration_seconds`,
+  help: "HTTP request latency by route template and method",
+  labelNames: ["method", "route"] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.2, 0.25, 0.5, 1, 2.5, 5],
+  registers: [registry],
+});
+
+const rateLimitHits = new promClient.Counter({
+  name: `${PREFIX}rate_limit_hits_total`,
+  help: "Requests rejected by the rate limiter, by route template",
+  labelNames: ["route"] as const,
+  registers: [registry],
+});
+
+const decryptFailures = new promClient.Counter({
+  name: `${PREFIX}decrypt_failures_total`,
+  help: "Failed decryptions of stored view keys or webhook secrets",
+  registers: [registry],
+});
+
+const subaddressPoolLookups = new promClient.Counter({
+  name: `${PREFIX}subaddress_pool_lookups_total`,
+  help: "Precomputed subaddress lookups by /request, by result (hit or miss)",
+  labelNames: ["result"] as const,
+  registers: [registry],
+});
+
+export function getMetricsSettings(): { host: string; port: number } | null {
+  return getConfig().metrics;
+}
+
+function routeLabel(req: FastifyRequest): string {
+  return req.routeOptions.url ?? UNMATCHED_ROUTE;
+}
+
+export function recordDecryptFailure() {
+  decryptFailures.inc();
+}
+
+export function recordSubaddressPoolLookup(hit: boolean) {
+  subaddressPoolLookups.inc({ result: hit ? "hit" : "miss" });
+}
+
+export function recordRateLimitHit(req: FastifyRequest) {
+  rateLimitHits.inc({ route: routeLabel(req) });
+}
+
+/** Count and time every response of `app`. Register before the routes. */
+export function registerHttpMetrics(app: FastifyInstance) {
+  app.addHook("onResponse", async (req, reply) => {
+    const route = routeLabel(req);
+    httpRequests.inc({
+      method: req.method,
+      route,
+      status_code: String(reply.statusCode),
+    });
+    httpDuration.observe({ method: req.method, route }, reply.elapsedTime / 1000);
+  });
+}
+
+const PAYLINK_STATES = [
+  "active",
+  "scheduled",
+  "paused",
+  "expired",
+  "capped",
+  "deleted",
+] as const;
+
+type PaylinkState = (typeof PAYLINK_STATES)[number];
+
+function registerDbMetrics(pool: Pool, logger: FastifyInstance["log"]) {
+  new promClient.Gauge({
+    name: `${PREFIX}db_pool_connections`,
+    help: "Database pool connections by state",
+    labelNames: ["state"] as const,
+    registers: [registry],
+    collect() {
+      this.set({ state: "total" }, pool.totalCount);
+      this.set({ state: "idle" }, pool.idleCount);
+      this.set({ state: "waiting" }, pool.waitingCount);
+    },
+  });
+
+  // Counted on scrape; a failed query leaves the previous values in place
+  new promClient.Gauge({
+    name: `${PREFIX}links`,
+    help: "Paylinks by state",
+    labelNames: ["state"] as const,
+    registers: [registry],
+    async collect() {
+      try {
+        const res = await pool.query<{ state: PaylinkState; count: string }>(
+          `
+          SELECT
+            CASE
+              WHEN deleted_at IS NOT NULL THEN 'deleted'
+              WHEN expires_at IS NOT NULL AND expires_at <= now() THEN 'expired'
+              WHEN NOT active THEN 'paused'
+              WHEN starts_at IS NOT NULL AND starts_at > now() THEN 'scheduled'
+              WHEN max_requests IS NOT NULL AND request_count >= max_requests THEN 'capped'
+              ELSE 'active'
+            END AS state,
+            count(*) AS count
+          FROM paylinks
+          GROUP BY 1
+          `,
+        );
+        for (const state of PAYLINK_STATES) this.set({ state }, 0);
+        for (const row of res.rows) this.set({ state: row.state }, Number(row.count));
+      } catch (err) {
+        logger.error({ err }, "paylink metrics query failed");
+      }
+    },
+  });
+}
+
+/**
+ * Serve GET /metrics on a separate listener. Returns the server so the
+ * caller can close it on shutdown.
+ */
+export async function startMetricsServer(opts: {
+  pool: Pool;
+  logger: FastifyInstance["log"];
+  host: string;
+  port: number;
+}) {
+  registerDbMetrics(opts.pool, opts.logger);
+
+  const server = Fastify({ logger: false });
+  server.get("/metrics", async (_req, reply) => {
+    const body = await registry.metrics();
+    return reply.header("Content-Type", registry.contentType).send(body);
+  });
+
+  await server.listen({ host: opts.host, port: opts.port });
+  return server;
+}
@@ -0,0 +1,36 @@
+// src/monero/amount.ts
+//
+// Exact conversions between XMR decimal strings and atomic units.
+// 1 XMR = 10^12 atomic units (piconero). Never goes through floats.
+
+export const ATOMIC_UNITS_PER_XMR = 1_000_000_000_000n;
+export const XMR_DECIMALS = 12;
+
+const XMR_AMOUNT_RE = /^(\d{1,15})(?:\.(\d{1,12}))?$/;
+
+/**
+ * Parse an XMR decimal string ("0.5", "12.000000000001") into atomic units.
+ */
+export function parseXmr(amount: string): bigint {
+  const m = XMR_AMOUNT_RE.exec(amount.trim());
+  if (!m) throw new Error(`Invalid XMR amount: ${amount}`);
+
+  const whole = BigInt(m[1]!);
+  const frac = BigInt((m[2] ?? "").padEnd(XMR_DECIMALS, "0"));
+  return whole * ATOMIC_UNITS_PER_XMR + frac;
+}
+
+/**
+ * Format atomic units as an XMR decimal string without trailing zeros.
+ */
+export function formatXmr(atomic: bigint): string {
+  if (atomic < 0n) throw new Error("Negative amounts are not supported");
+
+  const whole = atomic / ATOMIC_UNITS_PER_XMR;
+  const frac = (atomic % ATOMIC_UNITS_PER_XMR)
+    .toString()
+    .padStart(XMR_DECIMALS, "0")
+    .replace(/0+$/, "");
+
+  return frac ? `${whole}.${frac}` : whole.toString();
+}
@@ -1,33 +1,157 @@
 // src/monero/decodeAddress.ts
 import { cnBase58Decode } from "./base58";
+import { keccak256 } from "./keccak";
+
+export type MoneroNetwork = "mainnet" | "stagenet" | "testnet";
+export type MoneroAddressType = "standard" | "integrated" | "subaddress";
 
 export type DecodedMoneroAddress = {
   prefix: number;
+  network: MoneroNetwork;
   publicSpendKeyHex: string; // 64 hex chars
   publicViewKeyHex: string;  // 64 hex chars
   checksumHex: string;       // 8 hex chars
 };
 
+export type DecodedAnyMoneroAddress = DecodedMoneroAddress & {
+  type: MoneroAddressType;
+  paymentIdHex?: string; // 16 hex chars, integrated addresses only
+};
+
+export type AddressErrorCode =
+  | "invalid_encoding"
+  | "invalid_length"
+  | "invalid_checksum"
+  | "unknown_network"
+  | "subaddress_not_supported"
+  | "integrated_address_not_supported";
+
+export class AddressValidationError extends Error {
+  constructor(
+    readonly code: AddressErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "AddressValidationError";
+  }
+}
+
+// Base58 prefixes from cryptonote_config.h
+const PREFIXES: Record<number, { network: MoneroNetwork; type: MoneroAddressType }> = {
+  18: { network: "mainnet", type: "standard" },
+  19: { network: "mainnet", type: "integrated" },
+  42: { network: "mainnet", type: "subaddress" },
+  24: { network: "stagenet", type: "standard" },
+  25: { network: "stagenet", type: "integrated" },
+  36: { network: "stagenet", type: "subaddress" },
+  53: { network: "testnet", type: "standard" },
+  54: { network: "testnet", type: "integrated" },
+  63: { network: "testnet", type: "subaddress" },
+};
+
+const KEYS_LENGTH = 64;
+const PAYMENT_ID_LENGTH = 8;
+const CHECKSUM_LENGTH = 4;
+
 function bytesToHex(b: Uint8Array): string {
   return Buffer.from(b).toString("hex");
 }
 
-export function decodeStandardAddress(address: string): DecodedMoneroAddress {
-  const decoded = cnBase58Decode(address);
+// Prefix is a varint; every known prefix fits in one byte, but decode properly
+function readVarint(data: Uint8Array): { value: number; length: number } {
+  let value = 0;
+  for (let i = 0; i < data.length && i < 5; i++) {
+    const byte = data[i]!;
+    value |= (byte & 0x7f) << (7 * i);
+    if ((byte & 0x80) === 0) return { value, length: i + 1 };
+  }
+  throw new AddressValidationError("invalid_encoding", "Invalid address prefix");
+}
 
-  if (decoded.length !== 69) {
-    throw new Error(`Invalid decoded address length: ${decoded.length}`);
+/**
+ * Decode and fully validate any Monero address (standard, integrated or
+ * subaddress): base58, checksum, prefix/network and length for its type.
+ */
+export function decodeAddress(address: string): DecodedAnyMoneroAddress {
+  let decoded: Uint8Array;
+  try {
+    decoded = cnBase58Decode(address);
+  } catch {
+    throw new AddressValidationError("invalid_encoding", "Address is not valid base58");
   }
 
-  const prefix = decoded[0]!; // Safe: length validated above
-  const publicSpend = decoded.slice(1, 33);
-  const publicView = decoded.slice(33, 65);
-  const checksum = decoded.slice(65, 69);
+  if (decoded.length <= CHECKSUM_LENGTH) {
+    throw new AddressValidationError(
+      "invalid_length",
+      `Invalid decoded address length: ${decoded.length}`,
+    );
+  }
 
-  return {
+  const body = decoded.subarray(0, decoded.length - CHECKSUM_LENGTH);
+  const checksum = decoded.subarray(decoded.length - CHECKSUM_LENGTH);
+  const expected = keccak256(body).subarray(0, CHECKSUM_LENGTH);
+  if (Buffer.compare(Buffer.from(checksum), Buffer.from(expected)) !== 0) {
+    throw new AddressValidationError("invalid_checksum", "Address checksum mismatch");
+  }
+
+  const { value: prefix, length: prefixLength } = readVarint(body);
+  const kind = PREFIXES[prefix];
+  if (!kind) {
+    throw new AddressValidationError(
+      "unknown_network",
+      `Unknown address prefix: ${prefix}`,
+    );
+  }
+
+  const payloadLength =
+    KEYS_LENGTH + (kind.type === "integrated" ? PAYMENT_ID_LENGTH : 0);
+  if (body.length !== prefixLength + payloadLength) {
+    throw new AddressValidationError(
+      "invalid_length",
+      `Invalid decoded address length: ${decoded.length}`,
+    );
+  }
+
+  const keys = body.subarray(prefixLength);
+  const result: DecodedAnyMoneroAddress = {
     prefix,
-    publicSpendKeyHex: bytesToHex(publicSpend),
-    publicViewKeyHex: bytesToHex(publicView),
+    network: kind.network,
+    type: kind.type,
+    publicSpendKeyHex: bytesToHex(keys.subarray(0, 32)),
+    publicViewKeyHex: bytesToHex(keys.subarray(32, 64)),
     checksumHex: bytesToHex(checksum),
   };
-}
\ No newline at end of file
+  if (kind.type === "integrated") {
+    result.paymentIdHex = bytesToHex(keys.subarray(64, 64 + PAYMENT_ID_LENGTH));
+  }
+  return result;
+}
+
+/**
+ * Decode a primary (standard) address. Subaddresses and integrated
+ * addresses are rejected: paylinks derive subaddresses from the primary keys.
+ */
+export function decodeStandardAddress(address: string): DecodedMoneroAddress {
+  const decoded = decodeAddress(address);
+
+  if (decoded.type === "subaddress") {
+    throw new AddressValidationError(
+      "subaddress_not_supported",
+      "Subaddresses are not supported; use the wallet's primary address",
+    );
+  }
+  if (decoded.type === "integrated") {
+    throw new AddressValidationError(
+      "integrated_address_not_supported",
+      "Integrated addresses are not supported; use the wallet's primary address",
+    );
+  }
+
+  return {
+    prefix: decoded.prefix,
+    network: decoded.network,
+    publicSpendKeyHex: decoded.publicSpendKeyHex,
+    publicViewKeyHex: decoded.publicViewKeyHex,
+    checksumHex: decoded.checksumHex,
+  };
+}
@@ -0,0 +1,165 @@
+// src/monero/ed25519.ts
+//
+// Minimal ed25519 group arithmetic for key checks (BigInt, extended
+// coordinates). Variable-time: only use it on public data or to verify
+// keys the caller already holds, never for signing.
+
+export const P = 2n ** 255n - 19n;
+// Group order
+export const L = 2n ** 252n + 27742317777372353535851937790883648493n;
+
+const D = mod(-121665n * invert(121666n));
+const D2 = mod(2n * D);
+const SQRT_M1 = pow(2n, (P - 1n) / 4n);
+
+export type Point = { x: bigint; y: bigint; z: bigint; t: bigint };
+
+const BASE: Point = {
+  x: 15112221349535400772501151409588531511454012693041857206046113283949847762202n,
+  y: 46316835694926478169428394003475163141307993866256225615783033603165251855960n,
+  z: 1n,
+  t: mod(
+    15112221349535400772501151409588531511454012693041857206046113283949847762202n *
+      46316835694926478169428394003475163141307993866256225615783033603165251855960n,
+  ),
+};
+
+const IDENTITY: Point = { x: 0n, y: 1n, z: 1n, t: 0n };
+
+function mod(a: bigint, m = P): bigint {
+  const r = a % m;
+  return r >= 0n ? r : r + m;
+}
+
+function pow(base: bigint, exp: bigint, m = P): bigint {
+  let result = 1n;
+  let b = mod(base, m);
+  let e = exp;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % m;
+    b = (b * b) % m;
+    e >>= 1n;
+  }
+  return result;
+}
+
+function invert(a: bigint): bigint {
+  return pow(a, P - 2n);
+}
+
+export function pointAdd(p: Point, q: Point): Point {
+  const a = mod((p.y - p.x) * (q.y - q.x));
+  const b = mod((p.y + p.x) * (q.y + q.x));
+  const c = mod(p.t * D2 * q.t);
+  const d = mod(p.z * 2n * q.z);
+  const e = b - a;
+  const f = d - c;
+  const g = d + c;
+  const h = b + a;
+  return { x: mod(e * f), y: mod(g * h), z: mod(f * g), t: mod(e * h) };
+}
+
+function pointDouble(p: Point): Point {
+  const a = mod(p.x * p.x);
+  const b = mod(p.y * p.y);
+  const c = mod(2n * p.z * p.z);
+  const d = mod(-a);
+  const e = mod((p.x + p.y) * (p.x + p.y) - a - b);
+  const g = d + b;
+  const f = g - c;
+  const h = d - b;
+  return { x: mod(e * f), y: mod(g * h), z: mod(f * g), t: mod(e * h) };
+}
+
+export function scalarMult(p: Point, k: bigint): Point {
+  let result = IDENTITY;
+  let addend = p;
+  let n = k;
+  while (n > 0n) {
+    if (n & 1n) result = pointAdd(result, addend);
+    addend = pointDouble(addend);
+    n >>= 1n;
+  }
+  return result;
+}
+
+export function scalarMultBase(k: bigint): Point {
+  return scalarMult(BASE, k);
+}
+
+/** a*G + b*B in one call (as used by signature checks). */
+export function doubleScalarMultBase(a: bigint, b: bigint, point: Point): Point {
+  return pointAdd(scalarMultBase(a), scalarMult(point, b));
+}
+
+export function isIdentity(p: Point): boolean {
+  return mod(p.x) === 0n && mod(p.y - p.z) === 0n;
+}
+
+// --- Encoding (little-endian, RFC 8032 / Monero compatible) ---
+
+export function bytesToNumberLE(bytes: Uint8Array): bigint {
+  let n = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) n = (n << 8n) | BigInt(bytes[i]!);
+  return n;
+}
+
+export function numberToBytesLE(n: bigint, size = 32): Uint8Array {
+  const out = new Uint8Array(size);
+  let v = n;
+  for (let i = 0; i < size; i++) {
+    out[i] = Number(v & 0xffn);
+    v >>= 8n;
+  }
+  return out;
+}
+
+export function encodePoint(p: Point): Uint8Array {
+  const zInv = invert(p.z);
+  const x = mod(p.x * zInv);
+  const y = mod(p.y * zInv);
+  const out = numberToBytesLE(y);
+  if (x & 1n) out[31] = out[31]! | 0x80;
+  return out;
+}
+
+/**
+ * Decode a compressed point; returns null if the bytes are not on the curve.
+ */
+export function decodePoint(bytes: Uint8Array): Point | null {
+  if (bytes.length !== 32) return null;
+
+  const sign = (bytes[31]! & 0x80) !== 0;
+  const yBytes = Uint8Array.from(bytes);
+  yBytes[31] = yBytes[31]! & 0x7f;
+  const y = bytesToNumberLE(yBytes);
+  if (y >= P) return null;
+
+  const y2 = mod(y * y);
+  const u = mod(y2 - 1n);
+  const v = mod(D * y2 + 1n);
+  const x2 = mod(u * invert(v));
+
+  let x = pow(x2, (P + 3n) / 8n);
+  if (mod(x * x - x2) !== 0n) {
+    x = mod(x * SQRT_M1);
+    if (mod(x * x - x2) !== 0n) return null;
+  }
+
+  if (x === 0n && sign) return null;
+  if ((x & 1n) !== (sign ? 1n : 0n)) x = mod(-x);
+
+  return { x, y, z: 1n, t: mod(x * y) };
+}
+
+// --- Scalars ---
+
+/** True if the 32 bytes are a canonical scalar (< L), like Monero's sc_check. */
+export function isReducedScalar(bytes: Uint8Array): boolean {
+  return bytes.length === 32 && bytesToNumberLE(bytes) < L;
+}
+
+/** Reduce 32 (or 64) little-endian bytes modulo L (sc_reduce32). */
+export function reduceScalar(bytes: Uint8Array): bigint {
+  return mod(bytesToNumberLE(bytes), L);
+}
@@ -0,0 +1,107 @@
+// src/monero/keccak.ts
+//
+// Keccak-256 as used by Monero (cn_fast_hash). This is the original Keccak
+// padding (0x01), NOT NIST SHA3-256 (0x06), so node's "sha3-256" can't be used.
+// Lanes are 64-bit BigInts; inputs here are small (addresses, messages).
+
+const RATE_BYTES = 136; // 1088-bit rate for a 256-bit output
+const MASK_64 = (1n << 64n) - 1n;
+
+const ROUND_CONSTANTS = [
+  0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an,
+  0x8000000080008000n, 0x000000000000808bn, 0x0000000080000001n,
+  0x8000000080008081n, 0x8000000000008009n, 0x000000000000008an,
+  0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+  0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n,
+  0x8000000000008003n, 0x8000000000008002n, 0x8000000000000080n,
+  0x000000000000800an, 0x800000008000000an, 0x8000000080008081n,
+  0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+
+// Rotation offsets indexed by x + 5y
+const ROTATIONS = [
+  0, 1, 62, 28, 27,
+  36, 44, 6, 55, 20,
+  3, 10, 43, 25, 39,
+  41, 45, 15, 21, 8,
+  18, 2, 61, 56, 14,
+];
+
+function rotl(v: bigint, n: number): bigint {
+  if (n === 0) return v;
+  const s = BigInt(n);
+  return ((v << s) | (v >> (64n - s))) & MASK_64;
+}
+
+function keccakF1600(a: bigint[]) {
+  const c = new Array<bigint>(5);
+  const b = new Array<bigint>(25);
+
+  for (const rc of ROUND_CONSTANTS) {
+    // θ
+    for (let x = 0; x < 5; x++) {
+      c[x] = a[x]! ^ a[x + 5]! ^ a[x + 10]! ^ a[x + 15]! ^ a[x + 20]!;
+    }
+    for (let x = 0; x < 5; x++) {
+      const d = c[(x + 4) % 5]! ^ rotl(c[(x + 1) % 5]!, 1);
+      for (let y = 0; y < 25; y += 5) a[x + y] = a[x + y]! ^ d;
+    }
+
+    // ρ and π
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        b[y + 5 * ((2 * x + 3 * y) % 5)] = rotl(a[x + 5 * y]!, ROTATIONS[x + 5 * y]!);
+      }
+    }
+
+    // χ
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        a[x + y] =
+          b[x + y]! ^ (~b[((x + 1) % 5) + y]! & MASK_64 & b[((x + 2) % 5) + y]!);
+      }
+    }
+
+    // ι
+    a[0] = a[0]! ^ rc;
+  }
+}
+
+function absorbBlock(state: bigint[], block: Uint8Array) {
+  for (let i = 0; i < RATE_BYTES / 8; i++) {
+    let lane = 0n;
+    for (let j = 7; j >= 0; j--) lane = (lane << 8n) | BigInt(block[i * 8 + j]!);
+    state[i] = state[i]! ^ lane;
+  }
+  keccakF1600(state);
+}
+
+/**
+ * Keccak-256 digest (32 bytes).
+ */
+export function keccak256(data: Uint8Array): Uint8Array {
+  const state = new Array<bigint>(25).fill(0n);
+
+  const fullBlocks = Math.floor(data.length / RATE_BYTES);
+  for (let i = 0; i < fullBlocks; i++) {
+    absorbBlock(state, data.subarray(i * RATE_BYTES, (i + 1) * RATE_BYTES));
+  }
+
+  // Pad remainder: 0x01 ... 0x80 (may coincide in one byte)
+  const last = new Uint8Array(RATE_BYTES);
+  const rest = data.subarray(fullBlocks * RATE_BYTES);
+  last.set(rest);
+  last[rest.length] = last[rest.length]! ^ 0x01;
+  last[RATE_BYTES - 1] = last[RATE_BYTES - 1]! ^ 0x80;
+  absorbBlock(state, last);
+
+  const out = new Uint8Array(32);
+  for (let i = 0; i < 4; i++) {
+    let lane = state[i]!;
+    for (let j = 0; j < 8; j++) {
+      out[i * 8 + j] = Number(lane & 0xffn);
+      lane >>= 8n;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,45 @@
+// src/monero/keys.ts
+import crypto from "crypto";
+import {
+  bytesToNumberLE,
+  encodePoint,
+  isReducedScalar,
+  scalarMultBase,
+} from "./ed25519";
+
+const KEY_HEX_RE = /^[0-9a-fA-F]{64}$/;
+
+/**
+ * A Monero private key is 32 bytes of hex encoding a non-zero scalar
+ * already reduced modulo the group order.
+ */
+export function isValidPrivateKey(hex: string): boolean {
+  if (!KEY_HEX_RE.test(hex)) return false;
+  const bytes = Buffer.from(hex, "hex");
+  return isReducedScalar(bytes) && bytesToNumberLE(bytes) !== 0n;
+}
+
+/**
+ * Public key (hex) for a private key: a*G.
+ */
+export function derivePublicKey(privateKeyHex: string): string {
+  if (!isValidPrivateKey(privateKeyHex)) {
+    throw new Error("Invalid private key");
+  }
+  const scalar = bytesToNumberLE(Buffer.from(privateKeyHex, "hex"));
+  return Buffer.from(encodePoint(scalarMultBase(scalar))).toString("hex");
+}
+
+/**
+ * True if the private view key belongs to the given public view key.
+ */
+export function privateViewKeyMatches(
+  privateViewKeyHex: string,
+  publicViewKeyHex: string,
+): boolean {
+  const derived = Buffer.from(derivePublicKey(privateViewKeyHex), "hex");
+  const expected = Buffer.from(publicViewKeyHex, "hex");
+  return (
+    derived.length === expected.length && crypto.timingSafeEqual(derived, expected)
+  );
+}
@@ -1,12 +1,214 @@
-export function buildMoneroUri(opts: {
+// src/moneroUri.ts
+//
+// The monero: URI scheme, as read by monero-wallet-gui, wallet2's
+// parse_uri and most mobile wallets:
+//
+//   monero:<address>[;<address>...]?tx_amount=<xmr>[;<xmr>...]
+//     &recipient_name=<name>[;<name>...]&tx_description=<text>
+//
+// Multi-recipient URIs list one address per recipient, separated by ';',
+// with per-recipient amounts and names in the same order. Values are
+// percent-encoded (RFC 3986): spaces become %20 and ';' inside a name
+// becomes %3B, so '+' is always a literal plus and the separator is never
+// ambiguous.
+
+import { parseXmr } from "./monero/amount";
+import {
+  AddressValidationError,
+  decodeAddress,
+  type MoneroNetwork,
+} from "./monero/decodeAddress";
+
+const SCHEME = "monero:";
+const RECIPIENT_SEPARATOR = ";";
+const XMR_AMOUNT_RE = /^\d{1,15}(\.\d{1,12})?$/;
+
+export type MoneroUriRecipient = {
   address: string;
   amount?: string | undefined; // keep as string to avoid float issues
+  name?: string | undefined;
+};
+
+export type MoneroUri = {
+  recipients: MoneroUriRecipient[];
   description?: string | undefined;
-}): string {
-  const params = new URLSearchParams();
-  if (opts.amount) params.set("tx_amount", opts.amount);
-  if (opts.description) params.set("tx_description", opts.description);
+  // Parameters this implementation doesn't interpret, kept in order
+  extraParameters?: [string, string][] | undefined;
+};
+
+export type MoneroUriErrorCode =
+  | "invalid_scheme"
+  | "no_recipients"
+  | "invalid_address"
+  | "mixed_networks"
+  | "invalid_amount"
+  | "recipient_count_mismatch"
+  | "duplicate_parameter"
+  | "invalid_encoding";
+
+export class MoneroUriError extends Error {
+  constructor(
+    readonly code: MoneroUriErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "MoneroUriError";
+  }
+}
+
+function encode(value: string): string {
+  // encodeURIComponent leaves !'()* alone; wallets differ on those
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new MoneroUriError("invalid_encoding", "Malformed percent-encoding");
+  }
+}
+
+function checkAmount(amount: string): void {
+  if (!XMR_AMOUNT_RE.test(amount) || parseXmr(amount) === 0n) {
+    throw new MoneroUriError("invalid_amount", `Invalid amount: ${amount}`);
+  }
+}
+
+/**
+ * Build a monero: URI. Empty amounts or names are left out; with several
+ * recipients they are kept as empty slots so positions still line up.
+ */
+export function buildMoneroUri(uri: MoneroUri): string {
+  const { recipients } = uri;
+  if (recipients.length === 0) {
+    throw new MoneroUriError("no_recipients", "At least one recipient is required");
+  }
+  for (const r of recipients) {
+    if (r.amount) checkAmount(r.amount);
+  }
+
+  const params: string[] = [];
+  const perRecipient = (values: (string | undefined)[]) =>
+    values.some(Boolean)
+      ? values.map((v) => encode(v ?? "")).join(RECIPIENT_SEPARATOR)
+      : null;
+
+  const amounts = perRecipient(recipients.map((r) => r.amount));
+  if (amounts !== null) params.push(`tx_amount=${amounts}`);
+
+  const names = perRecipient(recipients.map((r) => r.name));
+  if (names !== null) params.push(`recipient_name=${names}`);
+
+  if (uri.description) params.push(`tx_description=${encode(uri.description)}`);
+
+  for (const [key, value] of uri.extraParameters ?? []) {
+    params.push(`${encode(key)}=${encode(value)}`);
+  }
+
+  const path = recipients.map((r) => r.address).join(RECIPIENT_SEPARATOR);
+  return params.length > 0 ? `${SCHEME}${path}?${params.join("&")}` : `${SCHEME}${path}`;
+}
+
+/**
+ * Parse and validate a monero: URI. Every address must be valid and on the
+ * same network (`network`, when given); amounts must be positive XMR
+ * decimals with at most 12 places.
+ */
+export function parseMoneroUri(
+  input: string,
+  opts: { network?: MoneroNetwork } = {},
+): MoneroUri & { network: MoneroNetwork } {
+  if (input.slice(0, SCHEME.length).toLowerCase() !== SCHEME) {
+    throw new MoneroUriError("invalid_scheme", "URI must start with monero:");
+  }
+
+  const rest = input.slice(SCHEME.length);
+  const q = rest.indexOf("?");
+  const path = q === -1 ? rest : rest.slice(0, q);
+  const query = q === -1 ? "" : rest.slice(q + 1);
+
+  const addresses = path.split(RECIPIENT_SEPARATOR);
+  if (path === "" || addresses.some((a) => a === "")) {
+    throw new MoneroUriError("no_recipients", "URI has no address");
+  }
+
+  let network = opts.network;
+  for (const address of addresses) {
+    let decodedNetwork: MoneroNetwork;
+    try {
+      decodedNetwork = decodeAddress(address).network;
+    } catch (err) {
+      if (err instanceof AddressValidationError) {
+        throw new MoneroUriError("invalid_address", `${address}: ${err.message}`);
+      }
+      throw err;
+    }
+    network ??= decodedNetwork;
+    if (decodedNetwork !== network) {
+      throw new MoneroUriError(
+        "mixed_networks",
+        `Address ${address} is on ${decodedNetwork}, expected ${network}`,
+      );
+    }
+  }
+
+  const seen = new Set<string>();
+  let amounts: string[] | null = null;
+  let names: string[] | null = null;
+  let description: string | undefined;
+  const extraParameters: [string, string][] = [];
+
+  const splitPerRecipient = (raw: string, param: string) => {
+    const values = raw.split(RECIPIENT_SEPARATOR).map(decode);
+    if (values.length !== addresses.length) {
+      throw new MoneroUriError(
+        "recipient_count_mismatch",
+        `${param} has ${values.length} values for ${addresses.length} addresses`,
+      );
+    }
+    return values;
+  };
+
+  for (const pair of query === "" ? [] : query.split("&")) {
+    const eq = pair.indexOf("=");
+    const key = decode(eq === -1 ? pair : pair.slice(0, eq));
+    const raw = eq === -1 ? "" : pair.slice(eq + 1);
+
+    if (seen.has(key)) {
+      throw new MoneroUriError("duplicate_parameter", `Duplicate parameter ${key}`);
+    }
+    seen.add(key);
+
+    switch (key) {
+      case "tx_amount":
+        amounts = splitPerRecipient(raw, key);
+        for (const amount of amounts) {
+          if (amount) checkAmount(amount);
+        }
+        break;
+      case "recipient_name":
+        names = splitPerRecipient(raw, key);
+        break;
+      case "tx_description":
+        description = decode(raw);
+        break;
+      default:
+        extraParameters.push([key, decode(raw)]);
+    }
+  }
 
-  const qs = params.toString();
-  return qs ? `monero:${opts.address}?${qs}` : `monero:${opts.address}`;
+  return {
+    network: network!,
+    recipients: addresses.map((address, i) => ({
+      address,
+      amount: amounts?.[i] || undefined,
+      name: names?.[i] || undefined,
+    })),
+    description: description || undefined,
+    extraParameters: extraParameters.length > 0 ? extraParameters : undefined,
+  };
 }
@@ -0,0 +1,62 @@
+// src/openapi.ts
+//
+// OpenAPI 3.1 document built from the zod schemas attached to the routes,
+// served at /api/openapi.json. Must be registered before the routes.
+
+import swagger from "@fastify/swagger";
+import type { FastifyInstance, FastifySchema } from "fastify";
+import { z } from "zod";
+
+const REQUEST_PARTS = ["body", "querystring", "params", "headers"] as const;
+
+function toJsonSchema(schema: unknown, io: "input" | "output"): unknown {
+  if (!(schema instanceof z.ZodType)) return schema;
+  const { $schema: _, ...json } = z.toJSONSchema(schema, {
+    target: "draft-2020-12",
+    io,
+    // Refinements and transforms can't be expressed; document the base type
+    unrepresentable: "any",
+  });
+  return json;
+}
+
+function transformRouteSchema(schema: FastifySchema): FastifySchema {
+  const out: Record<string, unknown> = { ...schema };
+
+  // Requests are documented as accepted (before defaults/transforms),
+  // responses as sent
+  for (const part of REQUEST_PARTS) {
+    if (schema[part]) out[part] = toJsonSchema(schema[part], "input");
+  }
+  if (schema.response) {
+    out.response = Object.fromEntries(
+      Object.entries(schema.response).map(([code, s]) => [
+        code,
+        toJsonSchema(s, "output"),
+      ]),
+    );
+  }
+  return out;
+}
+
+export async function registerOpenApi(app: FastifyInstance) {
+  await app.register(swagger, {
+    openapi: {
+      openapi: "3.1.0",
+      info: {
+        title: "Anonomi Paylinks API",
+        description:
+          "Privacy-focused Monero donation links with subaddress generation.",
+        version: process.env.npm_package_version ?? "1.0.0",
+      },
+    },
+    transform: ({ schema, url }) => ({
+      schema: schema ? transformRouteSchema(schema) : schema,
+      url,
+    }),
+  });
+
+  app.get("/api/openapi.json", { schema: { hide: true } }, async () =>
+    app.swagger(),
+  );
+}
@@ -0,0 +1,127 @@
+// src/ownerAuth.ts
+//
+// Owner authentication for owner-only routes. Two proofs are accepted:
+//
+// - ownerKey: the static SHA-256 of address + view key returned at create
+// - ownerSignature: a SigV2 spend-key signature over a single-use challenge
+//   issued by POST /api/paylinks/challenge. It covers every paylink of the
+//   signing address and keeps working after the ownerKey was disabled.
+//
+// A failed proof resolves to a scope that matches nothing, so routes keep
+// running the same queries and answer the same way (no enumeration).
+
+import crypto from "crypto";
+import type { PoolClient } from "pg";
+import { verifySpendKeySignature } from "./monero/messageSignature";
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+export type OwnerProof = {
+  ownerKey?: string | undefined;
+  ownerSignature?:
+    | {
+        publicAddress: string;
+        nonce: string;
+        signature: string;
+      }
+    | undefined;
+};
+
+export type OwnerScope =
+  | { kind: "ownerKey"; ownerKey: string }
+  | { kind: "address"; publicAddress: string }
+  | { kind: "none" };
+
+function buildChallengeMessage(
+  publicAddress: string,
+  nonce: string,
+  expiresAt: Date,
+): string {
+  return [
+    "Anonomi Paylinks owner authentication",
+    `address: ${publicAddress}`,
+    `nonce: ${nonce}`,
+    `expires: ${expiresAt.toISOString()}`,
+  ].join("\n");
+}
+
+/**
+ * Issue a challenge for an address. Issued for any valid address, whether
+ * or not it owns paylinks.
+ */
+export async function createOwnerChallenge(
+  client: PoolClient,
+  publicAddress: string,
+) {
+  const nonce = crypto.randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + CHALLENGE_TTL_MS);
+  const message = buildChallengeMessage(publicAddress, nonce, expiresAt);
+
+  // Opportunistic cleanup of stale challenges
+  await client.query(
+    `DELETE FROM owner_challenges WHERE expires_at < now() - interval '1 hour'`,
+  );
+
+  await client.query(
+    `
+    INSERT INTO owner_challenges (nonce, public_address, message, expires_at)
+    VALUES ($1,$2,$3,$4)
+    `,
+    [nonce, publicAddress, message, expiresAt],
+  );
+
+  return { nonce, message, expiresAt };
+}
+
+/**
+ * Turn a proof into the set of paylinks it may act on. Signature proofs
+ * consume their challenge whether or not the signature verifies.
+ */
+export async function resolveOwnerScope(
+  client: PoolClient,
+  proof: OwnerProof,
+): Promise<OwnerScope> {
+  if (proof.ownerKey) {
+    return { kind: "ownerKey", ownerKey: proof.ownerKey };
+  }
+
+  const sig = proof.ownerSignature;
+  if (!sig) return { kind: "none" };
+
+  const res = await client.query<{ message: string }>(
+    `
+    UPDATE owner_challenges
+    SET used_at = now()
+    WHERE nonce = $1
+      AND public_address = $2
+      AND used_at IS NULL
+      AND expires_at > now()
+    RETURNING message
+    `,
+    [sig.nonce, sig.publicAddress],
+  );
+
+  const message = res.rows[0]?.message;
+  if (!message) return { kind: "none" };
+
+  return verifySpendKeySignature(message, sig.publicAddress, sig.signature)
+    ? { kind: "address", publicAddress: sig.publicAddress }
+    : { kind: "none" };
+}
+
+/**
+ * SQL condition restricting paylinks to the scope. Appends its parameter
+ * to `values` and references it by position.
+ */
+export function ownerScopeCondition(scope: OwnerScope, values: unknown[]): string {
+  switch (scope.kind) {
+    case "ownerKey":
+      values.push(scope.ownerKey);
+      return `(owner_key = $${values.length} AND NOT owner_key_disabled)`;
+    case "address":
+      values.push(scope.publicAddress);
+      return `(public_address = $${values.length})`;
+    case "none":
+      return "FALSE";
+  }
+}
@@ -0,0 +1,106 @@
+// src/paylinkExport.ts
+//
+// Encrypted export files for moving an owner's paylinks to another
+// instance with the same ids (and so the same donate URLs after changing
+// DONATE_BASE_URL).
+//
+// The file is sealed with AES-256-GCM under a key derived (HKDF-SHA256)
+// from the wallet's private view key, not the server's master key: the
+// owner can import it anywhere by supplying address and view key, and
+// neither instance's operator needs to share keys with the other. The
+// address is bound in as associated data.
+
+import crypto from "crypto";
+
+export const EXPORT_FORMAT = "anonomi-paylinks-export";
+export const EXPORT_VERSION = 1;
+
+const KDF_INFO_PREFIX = "anonomi-paylinks:export:v1:";
+
+export type ExportEnvelope = {
+  format: typeof EXPORT_FORMAT;
+  version: typeof EXPORT_VERSION;
+  kdf: "hkdf-sha256";
+  cipher: "aes-256-gcm";
+  salt: string;
+  nonce: string;
+  ciphertext: string;
+};
+
+function deriveExportKey(
+  privateViewKey: string,
+  publicAddress: string,
+  salt: Buffer,
+): Buffer {
+  return Buffer.from(
+    crypto.hkdfSync(
+      "sha256",
+      Buffer.from(privateViewKey.toLowerCase(), "hex"),
+      salt,
+      `${KDF_INFO_PREFIX}${publicAddress}`,
+      32,
+    ),
+  );
+}
+
+function associatedData(publicAddress: string): Buffer {
+  return Buffer.from(`${EXPORT_FORMAT}:${EXPORT_VERSION}:${publicAddress}`, "utf8");
+}
+
+/** Encrypt a JSON payload for the wallet of `publicAddress`. */
+export function sealExport(
+  payload: unknown,
+  publicAddress: string,
+  privateViewKey: string,
+): ExportEnvelope {
+  const salt = crypto.randomBytes(16);
+  const nonce = crypto.randomBytes(12);
+  const key = deriveExportKey(privateViewKey, publicAddress, salt);
+
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, nonce);
+  cipher.setAAD(associatedData(publicAddress));
+  const plaintext = Buffer.from(JSON.stringify(payload), "utf8");
+  const enc = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    kdf: "hkdf-sha256",
+    cipher: "aes-256-gcm",
+    salt: salt.toString("base64"),
+    nonce: nonce.toString("base64"),
+    // enc || tag, like encryptSecret
+    ciphertext: Buffer.concat([enc, cipher.getAuthTag()]).toString("base64"),
+  };
+}
+
+/**
+ * Decrypt and parse an export. Returns null for a different wallet, a
+ * tampered file or anything that isn't JSON.
+ */
+export function openExport(
+  envelope: ExportEnvelope,
+  publicAddress: string,
+  privateViewKey: string,
+): unknown {
+  try {
+    const salt = Buffer.from(envelope.salt, "base64");
+    const nonce = Buffer.from(envelope.nonce, "base64");
+    const payload = Buffer.from(envelope.ciphertext, "base64");
+    if (salt.length !== 16 || nonce.length !== 12 || payload.length < 16) {
+      return null;
+    }
+
+    const key = deriveExportKey(privateViewKey, publicAddress, salt);
+    const decipher = crypto.createDecipheriv("aes-256-gcm", key, nonce);
+    decipher.setAAD(associatedData(publicAddress));
+    decipher.setAuthTag(payload.subarray(payload.length - 16));
+    const dec = Buffer.concat([
+      decipher.update(payload.subarray(0, payload.length - 16)),
+      decipher.final(),
+    ]);
+    return JSON.parse(dec.toString("utf8"));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,79 @@
+// src/payments/backend.ts
+//
+// Pluggable source of incoming transfers for watched paylinks.
+// The watcher only ever hands a backend the view-only material it needs
+// (primary address + private view key); spend keys never reach the server.
+
+import { getConfig } from "../config";
+
+export type WatchedAccount = {
+  // Stable identifier used by backends that cache per-wallet state
+  walletId: string;
+  publicAddress: string;
+  privateViewKey: string;
+  accountIndex: number;
+  // Earliest point in time a payment could have been sent
+  since: Date;
+};
+
+export type IncomingTransfer = {
+  txid: string;
+  subaddressIndex: number;
+  amountAtomic: bigint;
+  confirmations: number;
+};
+
+// Result of checking a donor's tx key against one address
+export type TxKeyCheck = {
+  // Total of the transaction's outputs the key proves went to the address
+  amountAtomic: bigint;
+  confirmations: number;
+  inPool: boolean;
+};
+
+export interface PaymentBackend {
+  readonly name: string;
+
+  getIncomingTransfers(
+    account: WatchedAccount,
+    subaddressIndices: number[],
+  ): Promise<IncomingTransfer[]>;
+
+  /**
+   * Verify a payment proof (txid + tx private key) for any address.
+   * Needs no wallet keys; returns null if the transaction is unknown.
+   */
+  checkTxKey(txid: string, txKey: string, address: string): Promise<TxKeyCheck | null>;
+
+  close(): Promise<void>;
+}
+
+export type PaymentBackendKind = "none" | "mock" | "monero-ts";
+
+export function getPaymentBackendKind(): PaymentBackendKind {
+  return getConfig().payments.backend;
+}
+
+/**
+ * Build the configured backend, or null when payment detection is disabled.
+ * Backends are loaded lazily so monero-ts (WASM) is only pulled in when used.
+ */
+export async function createPaymentBackend(): Promise<PaymentBackend | null> {
+  const kind = getPaymentBackendKind();
+
+  if (kind === "none") return null;
+
+  if (kind === "mock") {
+    const { MockPaymentBackend } = await import("./mockBackend");
+    return new MockPaymentBackend(getConfig().payments.mockFile ?? undefined);
+  }
+
+  // Presence checked by the config for monero-ts
+  const daemon = getConfig().payments.daemon!;
+  const { MoneroTsPaymentBackend } = await import("./moneroTsBackend");
+  return new MoneroTsPaymentBackend({
+    daemonUrl: daemon.url,
+    username: daemon.username,
+    password: daemon.password,
+  });
+}
@@ -0,0 +1,108 @@
+// src/payments/mockBackend.ts
+//
+// Local backend for development and tests. Transfers come from an in-memory
+// list and, optionally, a JSON fixture file that is re-read on every scan so
+// a running server picks up edits:
+//
+// [
+//   { "address": "4...", "subaddressIndex": 7, "txid": "ab..",
+//     "amount": "0.25", "confirmations": 3 }
+// ]
+//
+// `address` is the paylink's primary address; `accountIndex` defaults to 0.
+// Entries with `subaddress` (the address given to the donor) and `txKey`
+// can also be verified as payment proofs.
+
+import { readFile } from "fs/promises";
+import { parseXmr } from "../monero/amount";
+import type {
+  IncomingTransfer,
+  PaymentBackend,
+  TxKeyCheck,
+  WatchedAccount,
+} from "./backend";
+
+export type MockTransfer = {
+  address: string;
+  accountIndex?: number;
+  subaddressIndex: number;
+  txid: string;
+  amount: string; // XMR decimal string
+  confirmations: number;
+  subaddress?: string;
+  txKey?: string;
+};
+
+export class MockPaymentBackend implements PaymentBackend {
+  readonly name = "mock";
+
+  private readonly transfers: MockTransfer[] = [];
+
+  constructor(private readonly fixtureFile?: string) {}
+
+  addTransfer(transfer: MockTransfer) {
+    this.transfers.push(transfer);
+  }
+
+  async getIncomingTransfers(
+    account: WatchedAccount,
+    subaddressIndices: number[],
+  ): Promise<IncomingTransfer[]> {
+    const wanted = new Set(subaddressIndices);
+    const all = [...this.transfers, ...(await this.readFixtures())];
+
+    return all
+      .filter(
+        (t) =>
+          t.address === account.publicAddress &&
+          (t.accountIndex ?? 0) === account.accountIndex &&
+          wanted.has(t.subaddressIndex),
+      )
+      .map((t) => ({
+        txid: t.txid,
+        subaddressIndex: t.subaddressIndex,
+        amountAtomic: parseXmr(t.amount),
+        confirmations: t.confirmations,
+      }));
+  }
+
+  async checkTxKey(
+    txid: string,
+    txKey: string,
+    address: string,
+  ): Promise<TxKeyCheck | null> {
+    const all = [...this.transfers, ...(await this.readFixtures())];
+    const outputs = all.filter((t) => t.txid === txid);
+    if (outputs.length === 0) return null;
+
+    // A wrong key or address proves nothing, like wallet2's check_tx_key
+    const proven = outputs.filter((t) => t.txKey === txKey && t.subaddress === address);
+    const confirmations = outputs[0]!.confirmations;
+
+    return {
+      amountAtomic: proven.reduce((sum, t) => sum + parseXmr(t.amount), 0n),
+      confirmations,
+      inPool: confirmations === 0,
+    };
+  }
+
+  async close(): Promise<void> {}
+
+  private async readFixtures(): Promise<MockTransfer[]> {
+    if (!this.fixtureFile) return [];
+
+    let raw: string;
+    try {
+      raw = await readFile(this.fixtureFile, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw err;
+    }
+
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      throw new Error("PAYMENTS_MOCK_FILE must contain a JSON array");
+    }
+    return parsed as MockTransfer[];
+  }
+}
@@ -0,0 +1,160 @@
+// src/payments/moneroTsBackend.ts
+//
+// Scans the chain through a monerod node using in-memory view-only wallets
+// (monero-ts / WASM). One wallet is kept per paylink and re-synced on each
+// scan; wallets that have not been used for a while are closed.
+//
+// Payment proofs are checked with one keyless wallet per network: wallet2's
+// check_tx_key only needs the daemon, not the wallet's own keys.
+
+import moneroTs from "monero-ts";
+import {
+  decodeAddress,
+  decodeStandardAddress,
+  type MoneroNetwork,
+} from "../monero/decodeAddress";
+import type {
+  IncomingTransfer,
+  PaymentBackend,
+  TxKeyCheck,
+  WatchedAccount,
+} from "./backend";
+
+// Average block time is 2 minutes; scan a little further back to be safe
+const BLOCK_TIME_SECONDS = 120;
+const RESTORE_HEIGHT_MARGIN = 720;
+const WALLET_IDLE_TTL_MS = 60 * 60 * 1000;
+
+type CachedWallet = {
+  wallet: moneroTs.MoneroWalletFull;
+  lastUsed: number;
+};
+
+export class MoneroTsPaymentBackend implements PaymentBackend {
+  readonly name = "monero-ts";
+
+  private readonly wallets = new Map<string, CachedWallet>();
+  private readonly proofWallets = new Map<
+    MoneroNetwork,
+    Promise<moneroTs.MoneroWalletFull>
+  >();
+
+  constructor(
+    private readonly server: {
+      daemonUrl: string;
+      username?: string | undefined;
+      password?: string | undefined;
+    },
+  ) {}
+
+  async getIncomingTransfers(
+    account: WatchedAccount,
+    subaddressIndices: number[],
+  ): Promise<IncomingTransfer[]> {
+    await this.evictIdle();
+
+    const wallet = await this.getWallet(account);
+    await wallet.sync();
+
+    const transfers = await wallet.getIncomingTransfers({
+      accountIndex: account.accountIndex,
+      subaddressIndices,
+    });
+
+    return transfers.map((t) => ({
+      txid: t.getTx().getHash(),
+      subaddressIndex: t.getSubaddressIndex(),
+      amountAtomic: t.getAmount(),
+      confirmations: t.getTx().getNumConfirmations() ?? 0,
+    }));
+  }
+
+  async checkTxKey(
+    txid: string,
+    txKey: string,
+    address: string,
+  ): Promise<TxKeyCheck | null> {
+    const daemon = await moneroTs.connectToDaemonRpc(this.connection());
+    if (!(await daemon.getTx(txid))) return null;
+
+    const wallet = await this.getProofWallet(decodeAddress(address).network);
+    const check = await wallet.checkTxKey(txid, txKey, address);
+
+    return {
+      amountAtomic: check.getReceivedAmount() ?? 0n,
+      confirmations: check.getNumConfirmations() ?? 0,
+      inPool: check.getInTxPool() ?? false,
+    };
+  }
+
+  async close(): Promise<void> {
+    const all = [...this.wallets.values()];
+    this.wallets.clear();
+    const proofWallets = [...this.proofWallets.values()];
+    this.proofWallets.clear();
+    await Promise.all([
+      ...all.map((w) => w.wallet.close(false)),
+      ...proofWallets.map(async (w) => (await w).close(false)),
+    ]);
+  }
+
+  private connection() {
+    return {
+      uri: this.server.daemonUrl,
+      username: this.server.username,
+      password: this.server.password,
+    };
+  }
+
+  private async getWallet(account: WatchedAccount) {
+    const cached = this.wallets.get(account.walletId);
+    if (cached) {
+      cached.lastUsed = Date.now();
+      return cached.wallet;
+    }
+
+    const { network } = decodeStandardAddress(account.publicAddress);
+
+    const daemon = await moneroTs.connectToDaemonRpc(this.connection());
+    const height = await daemon.getHeight();
+    const ageBlocks = Math.ceil(
+      (Date.now() - account.since.getTime()) / 1000 / BLOCK_TIME_SECONDS,
+    );
+    const restoreHeight = Math.max(0, height - ageBlocks - RESTORE_HEIGHT_MARGIN);
+
+    const wallet = await moneroTs.createWalletFull({
+      networkType: moneroTs.MoneroNetworkType.from(network),
+      primaryAddress: account.publicAddress,
+      privateViewKey: account.privateViewKey,
+      restoreHeight,
+      server: this.connection(),
+    });
+
+    this.wallets.set(account.walletId, { wallet, lastUsed: Date.now() });
+    return wallet;
+  }
+
+  private getProofWallet(network: MoneroNetwork) {
+    let wallet = this.proofWallets.get(network);
+    if (!wallet) {
+      // Random throwaway keys; only used for check_tx_key
+      wallet = moneroTs.createWalletFull({
+        networkType: moneroTs.MoneroNetworkType.from(network),
+        server: this.connection(),
+      });
+      wallet.catch(() => this.proofWallets.delete(network));
+      this.proofWallets.set(network, wallet);
+    }
+    return wallet;
+  }
+
+  private async evictIdle() {
+    const cutoff = Date.now() - WALLET_IDLE_TTL_MS;
+    for (const [id, cached] of this.wallets) {
+      if (cached.lastUsed < cutoff) {
+        this.wallets.delete(id);
+        await cached.wallet.close(false);
+      }
+    }
+  }
+}
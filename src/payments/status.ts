@@ -0,0 +1,40 @@
+// src/payments/status.ts
+import { formatXmr } from "../monero/amount";
+
+export type PaymentStatus = "pending" | "seen" | "confirmed";
+
+export type PaymentRow = {
+  txid: string;
+  amount_atomic: string;
+  confirmations: number;
+};
+
+/**
+ * Summarize the payments recorded for one invoice.
+ * "confirmed" once any payment reached the confirmation threshold,
+ * "seen" while payments exist but are still below it.
+ */
+export function summarizePayments(rows: PaymentRow[], minConfirmations: number) {
+  let received = 0n;
+  let confirmedAmount = 0n;
+
+  for (const r of rows) {
+    const amount = BigInt(r.amount_atomic);
+    received += amount;
+    if (r.confirmations >= minConfirmations) confirmedAmount += amount;
+  }
+
+  const status: PaymentStatus =
+    rows.length === 0 ? "pending" : confirmedAmount > 0n ? "confirmed" : "seen";
+
+  return {
+    status,
+    amountReceived: formatXmr(received),
+    amountConfirmed: formatXmr(confirmedAmount),
+    payments: rows.map((r) => ({
+      txid: r.txid,
+      amount: formatXmr(BigInt(r.amount_atomic)),
+      confirmations: r.confirmations,
+    })),
+  };
+}
@@ -0,0 +1,300 @@
+// src/payments/watcher.ts
+//
+// Periodically scans recent invoices for incoming transfers, records them
+// in the payments table and advances invoice status.
+
+import type { Pool } from "pg";
+import { getConfig } from "../config";
+import { decryptViewKey } from "../crypto";
+import {
+  nextInvoiceStatus,
+  statesLeadingTo,
+  type InvoiceStatus,
+} from "../invoices";
+import { formatXmr } from "../monero/amount";
+import { enqueueWebhookEvent, invoiceEventType } from "../webhooks/events";
+import type { IncomingTransfer, PaymentBackend } from "./backend";
+import { summarizePayments, type PaymentRow } from "./status";
+
+type Logger = {
+  info(obj: object, msg?: string): void;
+  error(obj: object, msg?: string): void;
+};
+
+export type PaymentWatcherOptions = {
+  pool: Pool;
+  backend: PaymentBackend;
+  logger: Logger;
+  intervalMs: number;
+  watchWindowHours: number;
+  minConfirmations: number;
+};
+
+type InvoiceRow = {
+  id: string;
+  paylink_id: string;
+  subaddress_index: number;
+  status: InvoiceStatus;
+  created_at: Date;
+  public_address: string;
+  account_index: number;
+  encrypted_view_key: string;
+  encryption_nonce: string;
+  key_version: number;
+};
+
+export function getPaymentWatcherSettings() {
+  const { intervalMs, watchWindowHours } = getConfig().payments;
+  return { intervalMs, watchWindowHours };
+}
+
+export function getMinConfirmations(): number {
+  return getConfig().payments.minConfirmations;
+}
+
+/**
+ * Collapse transfers so there is one entry per (txid, subaddress index).
+ * A single transaction can pay the same subaddress with several outputs.
+ */
+function mergeTransfers(transfers: IncomingTransfer[]): IncomingTransfer[] {
+  const merged = new Map<string, IncomingTransfer>();
+  for (const t of transfers) {
+    const key = `${t.txid}:${t.subaddressIndex}`;
+    const prev = merged.get(key);
+    if (prev) {
+      prev.amountAtomic += t.amountAtomic;
+      prev.confirmations = Math.max(prev.confirmations, t.confirmations);
+    } else {
+      merged.set(key, { ...t });
+    }
+  }
+  return [...merged.values()];
+}
+
+async function updateInvoiceStatus(
+  opts: PaymentWatcherOptions,
+  invoice: InvoiceRow,
+) {
+  const paymentsRes = await opts.pool.query<PaymentRow>(
+    `
+    SELECT txid, amount_atomic, confirmations
+    FROM payments
+    WHERE invoice_id = $1
+    `,
+    [invoice.id],
+  );
+
+  const summary = summarizePayments(paymentsRes.rows, opts.minConfirmations);
+  const next = nextInvoiceStatus(invoice.status, summary.status);
+  if (!next) return;
+
+  const client = await opts.pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    // Guarded so concurrent scanners can't move an invoice backwards
+    const res = await client.query<{ address: string; amount_atomic: string | null }>(
+      `
+      UPDATE invoices
+      SET status = $2, status_updated_at = now()
+      WHERE id = $1 AND status = ANY($3::text[])
+      RETURNING address, amount_atomic
+      `,
+      [invoice.id, next, statesLeadingTo(next)],
+    );
+
+    const updated = res.rows[0];
+    if (updated) {
+      await enqueueWebhookEvent(client, invoice.paylink_id, invoiceEventType(next), {
+        invoiceId: invoice.id,
+        address: updated.address,
+        amount:
+          updated.amount_atomic !== null
+            ? formatXmr(BigInt(updated.amount_atomic))
+            : "",
+        status: next,
+        amountReceived: summary.amountReceived,
+        amountConfirmed: summary.amountConfirmed,
+      });
+    }
+
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+async function scanPaylink(
+  opts: PaymentWatcherOptions,
+  rows: InvoiceRow[],
+): Promise<number> {
+  const first = rows[0]!;
+  const privateViewKey = decryptViewKey(
+    first.encrypted_view_key,
+    first.encryption_nonce,
+    first.key_version,
+  );
+
+  const since = new Date(
+    Math.min(...rows.map((r) => new Date(r.created_at).getTime())),
+  );
+  const indices = [...new Set(rows.map((r) => r.subaddress_index))];
+
+  const transfers = mergeTransfers(
+    await opts.backend.getIncomingTransfers(
+      {
+        walletId: first.paylink_id,
+        publicAddress: first.public_address,
+        privateViewKey,
+        accountIndex: first.account_index,
+        since,
+      },
+      indices,
+    ),
+  );
+
+  const touched = new Set<InvoiceRow>();
+
+  for (const t of transfers) {
+    // Attribute the payment to the latest invoice for that index; if the
+    // same index went to several donors this is the best available guess.
+    const invoice = rows
+      .filter((r) => r.subaddress_index === t.subaddressIndex)
+      .sort(
+        (a, b) =>
+          new Date(b.created_at).getTime() - new Date(a.created_at).getTime(),
+      )[0];
+    if (!invoice) continue;
+
+    await opts.pool.query(
+      `
+      INSERT INTO payments (
+        paylink_id,
+        invoice_id,
+        subaddress_index,
+        txid,
+        amount_atomic,
+        confirmations
+      )
+      VALUES ($1,$2,$3,$4,$5,$6)
+      ON CONFLICT (paylink_id, subaddress_index, txid)
+      DO UPDATE SET
+        confirmations = EXCLUDED.confirmations,
+        amount_atomic = EXCLUDED.amount_atomic,
+        updated_at = now()
+      `,
+      [
+        first.paylink_id,
+        invoice.id,
+        t.subaddressIndex,
+        t.txid,
+        t.amountAtomic.toString(),
+        t.confirmations,
+      ],
+    );
+    touched.add(invoice);
+  }
+
+  for (const invoice of touched) {
+    await updateInvoiceStatus(opts, invoice);
+  }
+
+  await opts.pool.query(
+    `
+    UPDATE invoices
+    SET last_scanned_at = now()
+    WHERE id = ANY($1::uuid[])
+    `,
+    [rows.map((r) => r.id)],
+  );
+
+  return transfers.length;
+}
+
+export async function runPaymentScan(opts: PaymentWatcherOptions) {
+  const res = await opts.pool.query<InvoiceRow>(
+    `
+    SELECT
+      i.id,
+      i.paylink_id,
+      i.subaddress_index,
+      i.status,
+      i.created_at,
+      p.public_address,
+      p.account_index,
+      p.encrypted_view_key,
+      p.encryption_nonce,
+      p.key_version
+    FROM invoices i
+    JOIN paylinks p ON p.id = i.paylink_id
+    WHERE i.created_at > now() - make_interval(hours => $1)
+      AND p.deleted_at IS NULL
+    ORDER BY i.paylink_id
+    `,
+    [opts.watchWindowHours],
+  );
+
+  const byPaylink = new Map<string, InvoiceRow[]>();
+  for (const row of res.rows) {
+    const list = byPaylink.get(row.paylink_id) ?? [];
+    list.push(row);
+    byPaylink.set(row.paylink_id, list);
+  }
+
+  let transfers = 0;
+  for (const rows of byPaylink.values()) {
+    try {
+      transfers += await scanPaylink(opts, rows);
+    } catch (err) {
+      // One broken paylink must not stall the rest
+      opts.logger.error({ err }, "payment scan failed for paylink");
+    }
+  }
+
+  return { paylinks: byPaylink.size, transfers };
+}
+
+/**
+ * Start the background scan loop. Scans never overlap: the next one is
+ * scheduled only after the previous one finished.
+ */
+export function startPaymentWatcher(opts: PaymentWatcherOptions) {
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+  let running: Promise<void> | null = null;
+
+  const tick = async () => {
+    try {
+      const result = await runPaymentScan(opts);
+      if (result.paylinks > 0) {
+        opts.logger.info(result, "payment scan finished");
+      }
+    } catch (err) {
+      opts.logger.error({ err }, "payment scan failed");
+    }
+  };
+
+  const schedule = () => {
+    if (stopped) return;
+    timer = setTimeout(() => {
+      running = tick().finally(() => {
+        running = null;
+        schedule();
+      });
+    }, opts.intervalMs);
+  };
+
+  schedule();
+
+  return {
+    async stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      if (running) await running;
+      await opts.backend.close();
+    },
+  };
+}
@@ -0,0 +1,192 @@
+// src/pow.ts
+//
+// Hashcash-style proof of work for POST /api/paylinks/:id/request, so
+// harvesting a paylink's subaddresses costs CPU time per address instead
+// of one HTTP call (per-IP rate limits don't help over Tor).
+//
+// The client fetches a challenge, then searches for a solution such that
+//
+//   SHA-256("<challenge>:<solution>")
+//
+// starts with at least `difficulty` zero bits, and sends both with the
+// request. Each challenge is bound to one paylink and can be used once.
+//
+// Challenges are not stored when issued, so fetching them costs the server
+// no writes: a challenge carries its expiry and difficulty, signed with an
+// HMAC over those and the paylink id,
+//
+//   <expires unix seconds>.<difficulty>.<nonce>.<hmac>
+//
+// and only challenges that were used are recorded, until they expire.
+//
+// Owners set a base difficulty per paylink; while a paylink hands out many
+// invoices, each challenge gets harder: one extra bit per POW_LOAD_STEP
+// recent invoices, doubling from there (log2).
+
+import crypto from "crypto";
+import type { Pool, PoolClient } from "pg";
+import { getConfig } from "./config";
+import { deriveMacKey } from "./crypto";
+
+// Base difficulty owners can choose; each bit doubles the expected work
+// (20 bits is about a million hashes)
+export const MAX_BASE_POW_DIFFICULTY = 24;
+// Ceiling including the load adjustment
+export const MAX_POW_DIFFICULTY = 30;
+export const POW_SOLUTION_RE = /^[0-9A-Za-z]{1,64}$/;
+export const POW_CHALLENGE_RE = /^(\d{1,12})\.(\d{1,2})\.([0-9a-f]{32})\.([0-9a-f]{64})$/;
+
+export type PowProof = {
+  challenge: string;
+  solution: string;
+};
+
+export type PowSettings = {
+  challengeTtlSeconds: number;
+  loadWindowSeconds: number;
+  loadStep: number;
+};
+
+export function getPowSettings(): PowSettings {
+  return getConfig().pow;
+}
+
+function leadingZeroBits(buf: Buffer): number {
+  let bits = 0;
+  for (const byte of buf) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+export function powHash(challenge: string, solution: string): Buffer {
+  return crypto.createHash("sha256").update(`${challenge}:${solution}`, "utf8").digest();
+}
+
+export function checkPowSolution(
+  challenge: string,
+  solution: string,
+  difficulty: number,
+): boolean {
+  if (!POW_SOLUTION_RE.test(solution)) return false;
+  return leadingZeroBits(powHash(challenge, solution)) >= difficulty;
+}
+
+/** Base difficulty plus log2 of the recent invoice rate, in steps. */
+export function effectivePowDifficulty(
+  base: number,
+  recentInvoices: number,
+  loadStep: number,
+): number {
+  const extra = Math.floor(Math.log2(1 + recentInvoices / loadStep));
+  return Math.min(base + extra, MAX_POW_DIFFICULTY);
+}
+
+function challengeMac(
+  paylinkId: string,
+  expiresAt: number,
+  difficulty: number,
+  nonce: string,
+): string {
+  return crypto
+    .createHmac("sha256", deriveMacKey("pow-challenge"))
+    .update(`${paylinkId}:${expiresAt}:${difficulty}:${nonce}`)
+    .digest("hex");
+}
+
+/**
+ * The expiry (unix seconds) and difficulty a challenge was issued with, or
+ * null when it wasn't issued for this paylink by this server.
+ */
+function readChallenge(
+  paylinkId: string,
+  challenge: string,
+): { expiresAt: number; difficulty: number; nonce: string } | null {
+  const m = POW_CHALLENGE_RE.exec(challenge);
+  if (!m) return null;
+
+  const expiresAt = Number(m[1]);
+  const difficulty = Number(m[2]);
+  const nonce = m[3]!;
+  const expected = Buffer.from(challengeMac(paylinkId, expiresAt, difficulty, nonce), "hex");
+  if (!crypto.timingSafeEqual(expected, Buffer.from(m[4]!, "hex"))) return null;
+
+  return { expiresAt, difficulty, nonce };
+}
+
+/**
+ * Issue a challenge for a paylink whose base difficulty is `base`.
+ * The caller has already checked that the paylink is available.
+ */
+export async function createPowChallenge(
+  client: PoolClient,
+  paylinkId: string,
+  base: number,
+  settings: PowSettings,
+) {
+  const loadRes = await client.query<{ count: string }>(
+    `
+    SELECT count(*) AS count
+    FROM invoices
+    WHERE paylink_id = $1
+      AND created_at > now() - make_interval(secs => $2)
+    `,
+    [paylinkId, settings.loadWindowSeconds],
+  );
+  const difficulty = effectivePowDifficulty(
+    base,
+    Number(loadRes.rows[0]?.count ?? 0),
+    settings.loadStep,
+  );
+
+  const nonce = crypto.randomBytes(16).toString("hex");
+  const expiresAt = Math.floor(Date.now() / 1000) + settings.challengeTtlSeconds;
+  const mac = challengeMac(paylinkId, expiresAt, difficulty, nonce);
+
+  return {
+    challenge: `${expiresAt}.${difficulty}.${nonce}.${mac}`,
+    difficulty,
+    expiresAt: new Date(expiresAt * 1000),
+  };
+}
+
+/**
+ * Check a proof for a paylink and record its challenge as used. Runs in
+ * the caller's transaction, so a rollback frees the challenge again. A
+ * wrong solution doesn't use the challenge up: trying another one is the
+ * same search the client has to do anyway.
+ */
+export async function verifyPowProof(
+  client: PoolClient,
+  paylinkId: string,
+  proof: PowProof | undefined,
+): Promise<boolean> {
+  if (!proof) return false;
+
+  const issued = readChallenge(paylinkId, proof.challenge);
+  if (!issued || issued.expiresAt * 1000 <= Date.now()) return false;
+  if (!checkPowSolution(proof.challenge, proof.solution, issued.difficulty)) {
+    return false;
+  }
+
+  // A challenge that was already used hits the primary key
+  const res = await client.query(
+    `
+    INSERT INTO pow_challenges (nonce, paylink_id, difficulty, expires_at, used_at)
+    VALUES ($1, $2, $3, to_timestamp($4), now())
+    ON CONFLICT (nonce) DO NOTHING
+    `,
+    [issued.nonce, paylinkId, issued.difficulty, issued.expiresAt],
+  );
+  return res.rowCount === 1;
+}
+
+/** Forget used challenges once they have expired and can't be replayed. */
+export async function prunePowChallenges(pool: Pool): Promise<number> {
+  const res = await pool.query(`DELETE FROM pow_challenges WHERE expires_at < now()`);
+  return res.rowCount ?? 0;
+}
@@ -0,0 +1,35 @@
+// src/pricing/convert.ts
+//
+// Exact fiat -> XMR conversion on decimal strings (BigInt, no floats).
+
+import { ATOMIC_UNITS_PER_XMR } from "../monero/amount";
+
+const DECIMAL_RE = /^(\d+)(?:\.(\d+))?$/;
+
+type ScaledDecimal = { value: bigint; scale: bigint };
+
+function parseDecimal(s: string): ScaledDecimal {
+  const m = DECIMAL_RE.exec(s.trim());
+  if (!m) throw new Error(`Invalid decimal: ${s}`);
+  const frac = m[2] ?? "";
+  return {
+    value: BigInt(m[1]! + frac),
+    scale: 10n ** BigInt(frac.length),
+  };
+}
+
+/**
+ * Convert a fiat amount to XMR atomic units at `rate` (fiat per 1 XMR).
+ * Rounds up to the next atomic unit so the donor never pays less than the
+ * quoted fiat value.
+ */
+export function fiatToAtomic(fiatAmount: string, rate: string): bigint {
+  const fiat = parseDecimal(fiatAmount);
+  const r = parseDecimal(rate);
+  if (r.value === 0n) throw new Error("Rate must be positive");
+
+  // (fiat / fiatScale) / (rate / rateScale) * 1e12
+  const numerator = fiat.value * r.scale * ATOMIC_UNITS_PER_XMR;
+  const denominator = r.value * fiat.scale;
+  return (numerator + denominator - 1n) / denominator;
+}
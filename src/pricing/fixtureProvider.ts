@@ -0,0 +1,67 @@
+// src/pricing/fixtureProvider.ts
+//
+// Fixed rates for development and tests, loaded from a JSON file:
+//
+// { "rates": { "USD": "160.12", "EUR": "148.3" } }
+//
+// Quotes are stamped "now". An optional "quotedAt" (ISO 8601) pins the
+// quote time instead; PRICE_MAX_AGE_SECONDS still applies, so a pinned
+// time soon makes every quote stale (useful to test that path).
+
+import { readFile } from "fs/promises";
+import { z } from "zod";
+import { RateUnavailableError, type RateProvider, type RateQuote } from "./provider";
+
+const RATE_RE = /^\d{1,12}(\.\d{1,12})?$/;
+
+const FixtureFile = z.object({
+  quotedAt: z.iso.datetime({ offset: true }).optional(),
+  rates: z.record(z.string(), z.union([z.string(), z.number()])),
+});
+
+export class FixtureRateProvider implements RateProvider {
+  readonly name = "fixture";
+
+  constructor(
+    private readonly rates: Record<string, string>,
+    private readonly quotedAt: Date | null = null,
+  ) {
+    for (const [currency, rate] of Object.entries(rates)) {
+      if (!RATE_RE.test(rate) || /^0+(\.0+)?$/.test(rate)) {
+        throw new Error(`Invalid fixture rate for ${currency}: ${rate}`);
+      }
+    }
+  }
+
+  static async fromFile(file: string): Promise<FixtureRateProvider> {
+    const parsed = FixtureFile.safeParse(JSON.parse(await readFile(file, "utf8")));
+    if (!parsed.success) {
+      throw new Error(
+        "PRICE_FIXTURE_FILE must contain { rates: { CUR: \"rate\" }, quotedAt?: ISO 8601 }",
+      );
+    }
+    const rates: Record<string, string> = {};
+    for (const [currency, rate] of Object.entries(parsed.data.rates)) {
+      rates[currency.toUpperCase()] = String(rate);
+    }
+    return new FixtureRateProvider(
+      rates,
+      parsed.data.quotedAt ? new Date(parsed.data.quotedAt) : null,
+    );
+  }
+
+  get currencies() {
+    return Object.keys(this.rates);
+  }
+
+  async getRate(currency: string): Promise<RateQuote> {
+    const rate = this.rates[currency];
+    if (!rate) throw new RateUnavailableError(`No fixture rate for ${currency}`);
+    return {
+      currency,
+      rate,
+      quotedAt: this.quotedAt ?? new Date(),
+      source: this.name,
+    };
+  }
+}
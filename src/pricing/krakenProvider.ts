@@ -0,0 +1,74 @@
+// src/pricing/krakenProvider.ts
+//
+// Last-trade price from Kraken's public ticker. Kraken returns prices as
+// decimal strings, so no float ever enters the conversion.
+
+import { z } from "zod";
+import { RateUnavailableError, type RateProvider, type RateQuote } from "./provider";
+
+const TICKER_URL = "https://api.kraken.com/0/public/Ticker";
+const REQUEST_TIMEOUT_MS = 5000;
+
+const PAIRS: Record<string, string> = {
+  USD: "XMRUSD",
+  EUR: "XMREUR",
+};
+
+const RATE_RE = /^\d{1,12}(\.\d{1,12})?$/;
+
+// Only the fields used here; `c` is [last trade price, lot volume]
+const TickerResponse = z.object({
+  error: z.array(z.string()).default([]),
+  result: z
+    .record(z.string(), z.object({ c: z.array(z.string()).min(1) }))
+    .default({}),
+});
+
+/** "150.10" -> "150.1", "150.00" -> "150"; integers are kept as they are. */
+function trimDecimalZeros(value: string): string {
+  return value.includes(".") ? value.replace(/\.?0+$/, "") : value;
+}
+
+export class KrakenRateProvider implements RateProvider {
+  readonly name = "kraken";
+  readonly currencies = Object.keys(PAIRS);
+
+  async getRate(currency: string): Promise<RateQuote> {
+    const pair = PAIRS[currency];
+    if (!pair) throw new RateUnavailableError(`Unsupported currency ${currency}`);
+
+    let json: unknown;
+    try {
+      const res = await fetch(`${TICKER_URL}?pair=${pair}`, {
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      json = await res.json();
+    } catch (err) {
+      throw new RateUnavailableError(`Kraken ticker request failed: ${String(err)}`);
+    }
+
+    const parsed = TickerResponse.safeParse(json);
+    if (!parsed.success) {
+      throw new RateUnavailableError("Unexpected Kraken ticker response");
+    }
+    const body = parsed.data;
+
+    if (body.error.length > 0) {
+      throw new RateUnavailableError(`Kraken error: ${body.error.join(", ")}`);
+    }
+
+    // Result is keyed by Kraken's internal pair name (e.g. XXMRZUSD)
+    const last = Object.values(body.result)[0]?.c[0];
+    if (last === undefined || !RATE_RE.test(last) || /^0+(\.0+)?$/.test(last)) {
+      throw new RateUnavailableError("Unexpected Kraken ticker response");
+    }
+
+    return {
+      currency,
+      rate: trimDecimalZeros(last),
+      quotedAt: new Date(),
+      source: this.name,
+    };
+  }
+}
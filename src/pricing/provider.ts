@@ -0,0 +1,90 @@
+// src/pricing/provider.ts
+//
+// Pluggable source of XMR exchange rates for fiat-denominated donations.
+
+import { getConfig } from "../config";
+
+export type RateQuote = {
+  currency: string; // ISO 4217, upper case
+  rate: string; // fiat units per 1 XMR, decimal string
+  quotedAt: Date;
+  source: string;
+};
+
+export interface RateProvider {
+  readonly name: string;
+  readonly currencies: readonly string[];
+
+  getRate(currency: string): Promise<RateQuote>;
+}
+
+export class RateUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RateUnavailableError";
+  }
+}
+
+export type RateProviderKind = "none" | "fixture" | "kraken";
+
+export function getRateProviderKind(): RateProviderKind {
+  return getConfig().pricing.provider;
+}
+
+/**
+ * Wraps a provider with a short per-currency cache and a staleness limit.
+ */
+class CachedRateProvider implements RateProvider {
+  private readonly cache = new Map<string, { quote: RateQuote; fetchedAt: number }>();
+
+  constructor(
+    private readonly inner: RateProvider,
+    private readonly ttlMs: number,
+    private readonly maxAgeMs: number,
+  ) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get currencies() {
+    return this.inner.currencies;
+  }
+
+  async getRate(currency: string): Promise<RateQuote> {
+    const cached = this.cache.get(currency);
+    if (cached && Date.now() - cached.fetchedAt < this.ttlMs) {
+      return cached.quote;
+    }
+
+    const quote = await this.inner.getRate(currency);
+    if (Date.now() - quote.quotedAt.getTime() > this.maxAgeMs) {
+      throw new RateUnavailableError(`Rate for ${currency} is stale`);
+    }
+
+    this.cache.set(currency, { quote, fetchedAt: Date.now() });
+    return quote;
+  }
+}
+
+/**
+ * Build the configured provider, or null when fiat amounts are disabled.
+ */
+export async function createRateProvider(): Promise<RateProvider | null> {
+  const kind = getRateProviderKind();
+  if (kind === "none") return null;
+
+  const { cacheSeconds, maxAgeSeconds, fixtureFile } = getConfig().pricing;
+
+  let inner: RateProvider;
+  if (kind === "fixture") {
+    // Presence checked by the config for fixture
+    const { FixtureRateProvider } = await import("./fixtureProvider");
+    inner = await FixtureRateProvider.fromFile(fixtureFile!);
+  } else {
+    const { KrakenRateProvider } = await import("./krakenProvider");
+    inner = new KrakenRateProvider();
+  }
+
+  return new CachedRateProvider(inner, cacheSeconds * 1000, maxAgeSeconds * 1000);
+}
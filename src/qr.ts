@@ -0,0 +1,37 @@
+// src/qr.ts
+//
+// Server-side QR rendering of payment URIs, so clients (including Tor
+// Browser with JavaScript disabled) can show a code with a plain <img>.
+
+import QRCode from "qrcode";
+
+export type QrFormat = "svg" | "png";
+export type QrErrorCorrection = "L" | "M" | "Q" | "H";
+
+export type QrOptions = {
+  format: QrFormat;
+  // Output width in pixels (SVG: viewBox is scaled to it)
+  size: number;
+  // Quiet zone in modules
+  margin: number;
+  errorCorrection: QrErrorCorrection;
+};
+
+export async function renderQr(
+  text: string,
+  opts: QrOptions,
+): Promise<{ contentType: string; body: string | Buffer }> {
+  const common = {
+    width: opts.size,
+    margin: opts.margin,
+    errorCorrectionLevel: opts.errorCorrection,
+  };
+
+  if (opts.format === "svg") {
+    const svg = await QRCode.toString(text, { ...common, type: "svg" });
+    return { contentType: "image/svg+xml; charset=utf-8", body: svg };
+  }
+
+  const png = await QRCode.toBuffer(text, { ...common, type: "png" });
+  return { contentType: "image/png", body: png };
+}
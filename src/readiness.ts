@@ -0,0 +1,181 @@
+// src/readiness.ts
+//
+// Readiness for GET /ready, separate from the /health liveness check. The
+// instance is ready when:
+//
+// - the database answers
+// - every migration shipped with this build has been applied (a database
+//   ahead of the build is fine, e.g. during a rolling deploy)
+// - the master keys decrypt their canaries: a known plaintext stored per
+//   key version, written the first time a version is active. A replaced
+//   or mistyped key fails here instead of on the first view key.
+//
+// Results are coarse ("ok", "failed", ...); details only go to the log.
+
+import fs from "fs";
+import path from "path";
+import type { Pool, PoolClient } from "pg";
+import { getConfig } from "./config";
+import { decryptSecret, encryptSecret } from "./crypto";
+
+const MIGRATIONS_DIR = path.resolve(__dirname, "..", "migrations");
+const MIGRATION_FILE_RE = /^(\d+_[\w-]+)\.(ts|js)$/;
+const CANARY_PLAINTEXT = "paylinks-key-canary:v1";
+// A probe must answer even while the database hangs
+const CHECK_TIMEOUT_MS = 3000;
+const UNDEFINED_TABLE = "42P01";
+
+type Logger = {
+  warn(obj: object, msg?: string): void;
+  error(obj: object, msg?: string): void;
+};
+
+export type CheckStatus = "ok" | "failed" | "pending" | "skipped";
+
+export type ReadinessReport = {
+  ready: boolean;
+  checks: {
+    database: CheckStatus;
+    migrations: CheckStatus;
+    masterKey: CheckStatus;
+  };
+};
+
+/**
+ * Migration names this build expects, as node-pg-migrate records them.
+ * Read once at boot; a missing directory is a deployment error.
+ */
+export function loadExpectedMigrations(dir = MIGRATIONS_DIR): string[] {
+  return fs
+    .readdirSync(dir)
+    .map((f) => MIGRATION_FILE_RE.exec(f)?.[1])
+    .filter((name): name is string => name !== undefined)
+    .sort();
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function pendingMigrations(
+  client: PoolClient,
+  expected: string[],
+): Promise<string[]> {
+  const res = await client.query<{ name: string }>(`SELECT name FROM pgmigrations`);
+  const applied = new Set(res.rows.map((r) => r.name));
+  return expected.filter((name) => !applied.has(name));
+}
+
+/**
+ * Write the canary of the active key version if it has none yet, then
+ * decrypt every canary whose version is still configured. Returns the
+ * versions that failed.
+ */
+async function failedKeyCanaries(client: PoolClient): Promise<number[]> {
+  const { ciphertextB64, nonceB64, keyVersion } = encryptSecret(CANARY_PLAINTEXT);
+  await client.query(
+    `
+    INSERT INTO key_canaries (key_version, ciphertext, nonce)
+    VALUES ($1,$2,$3)
+    ON CONFLICT (key_version) DO NOTHING
+    `,
+    [keyVersion, ciphertextB64, nonceB64],
+  );
+
+  const res = await client.query<{
+    key_version: number;
+    ciphertext: string;
+    nonce: string;
+  }>(`SELECT key_version, ciphertext, nonce FROM key_canaries`);
+
+  // Versions dropped from the ring after a rotation are not checked
+  const ring = getConfig().keyRing.keys;
+  const failed: number[] = [];
+  for (const row of res.rows) {
+    if (!ring.has(row.key_version)) continue;
+    let plaintext: string | null = null;
+    try {
+      plaintext = decryptSecret(row.ciphertext, row.nonce, row.key_version);
+    } catch {
+      // Counted by decryptSecret
+    }
+    if (plaintext !== CANARY_PLAINTEXT) failed.push(row.key_version);
+  }
+  return failed;
+}
+
+export async function checkReadiness(opts: {
+  pool: Pool;
+  logger: Logger;
+  expectedMigrations: string[];
+}): Promise<ReadinessReport> {
+  const checks: ReadinessReport["checks"] = {
+    database: "skipped",
+    migrations: "skipped",
+    masterKey: "skipped",
+  };
+  const report = () => ({
+    ready: Object.values(checks).every((s) => s === "ok"),
+    checks,
+  });
+
+  const connecting = opts.pool.connect();
+  let client: PoolClient;
+  try {
+    client = await withTimeout(connecting, CHECK_TIMEOUT_MS);
+  } catch (err) {
+    // A connection that arrives after the timeout goes back to the pool
+    connecting.then((c) => c.release(), () => {});
+    opts.logger.warn({ err }, "readiness: database unavailable");
+    checks.database = "failed";
+    return report();
+  }
+
+  let destroyClient = false;
+  try {
+    await withTimeout(client.query("SELECT 1"), CHECK_TIMEOUT_MS);
+    checks.database = "ok";
+
+    const pending = await withTimeout(
+      pendingMigrations(client, opts.expectedMigrations),
+      CHECK_TIMEOUT_MS,
+    );
+    if (pending.length > 0) {
+      opts.logger.warn({ pending }, "readiness: migrations pending");
+      checks.migrations = "pending";
+      return report();
+    }
+    checks.migrations = "ok";
+
+    const failed = await withTimeout(failedKeyCanaries(client), CHECK_TIMEOUT_MS);
+    if (failed.length > 0) {
+      opts.logger.error({ keyVersions: failed }, "readiness: master key canary failed");
+      checks.masterKey = "failed";
+    } else {
+      checks.masterKey = "ok";
+    }
+  } catch (err) {
+    opts.logger.warn({ err }, "readiness check failed");
+    // After a timeout the client may still be running the query
+    destroyClient = true;
+    const stage =
+      checks.database !== "ok"
+        ? "database"
+        : checks.migrations !== "ok"
+          ? "migrations"
+          : "masterKey";
+    // pgmigrations doesn't exist before the first migration run
+    checks[stage] =
+      stage === "migrations" && (err as { code?: string }).code === UNDEFINED_TABLE
+        ? "pending"
+        : "failed";
+  } finally {
+    client.release(destroyClient);
+  }
+
+  return report();
+}
@@ -0,0 +1,117 @@
+// src/rotateKeys.ts
+//
+// Re-encrypt every stored secret (view keys, webhook signing secrets) with
+// the active master key version.
+// Runs against a live database: rows are processed in small batches, each
+// in its own transaction, so the API keeps serving while it runs.
+//
+// Usage: node dist/rotateKeys.js [--batch-size 100]
+
+import "dotenv/config";
+import { pool } from "./db";
+import { decryptSecret, encryptSecret, getActiveKeyVersion } from "./crypto";
+
+const DEFAULT_BATCH_SIZE = 100;
+
+// Tables holding encrypted secrets and their ciphertext/nonce columns
+type Target = { table: string; ciphertext: string; nonce: string };
+
+const TARGETS: Target[] = [
+  { table: "paylinks", ciphertext: "encrypted_view_key", nonce: "encryption_nonce" },
+  { table: "webhooks", ciphertext: "encrypted_secret", nonce: "secret_nonce" },
+];
+
+function parseBatchSize(argv: string[]): number {
+  const i = argv.indexOf("--batch-size");
+  if (i === -1) return DEFAULT_BATCH_SIZE;
+  const n = Number(argv[i + 1]);
+  if (!Number.isInteger(n) || n < 1 || n > 10_000) {
+    throw new Error("--batch-size must be an integer between 1 and 10000");
+  }
+  return n;
+}
+
+async function rotateBatch(
+  target: Target,
+  activeVersion: number,
+  batchSize: number,
+) {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    // SKIP LOCKED: rows being used by another transaction are picked up
+    // in a later batch instead of blocking
+    const res = await client.query<{
+      id: string;
+      ciphertext: string;
+      nonce: string;
+      key_version: number;
+    }>(
+      `
+      SELECT id, ${target.ciphertext} AS ciphertext, ${target.nonce} AS nonce, key_version
+      FROM ${target.table}
+      WHERE key_version <> $1
+      ORDER BY id
+      LIMIT $2
+      FOR UPDATE SKIP LOCKED
+      `,
+      [activeVersion, batchSize],
+    );
+
+    for (const row of res.rows) {
+      const secret = decryptSecret(row.ciphertext, row.nonce, row.key_version);
+      const { ciphertextB64, nonceB64, keyVersion } = encryptSecret(secret);
+
+      await client.query(
+        `
+        UPDATE ${target.table}
+        SET ${target.ciphertext} = $2, ${target.nonce} = $3, key_version = $4
+        WHERE id = $1
+        `,
+        [row.id, ciphertextB64, nonceB64, keyVersion],
+      );
+    }
+
+    await client.query("COMMIT");
+    return res.rows.length;
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+async function main() {
+  const batchSize = parseBatchSize(process.argv.slice(2));
+  const activeVersion = getActiveKeyVersion();
+
+  for (const target of TARGETS) {
+    let total = 0;
+    for (;;) {
+      const n = await rotateBatch(target, activeVersion, batchSize);
+      if (n === 0) break;
+      total += n;
+      console.log(`re-encrypted ${total} ${target.table} so far`);
+    }
+
+    const remaining = await pool.query<{ count: string }>(
+      `SELECT count(*) AS count FROM ${target.table} WHERE key_version <> $1`,
+      [activeVersion],
+    );
+    const left = Number(remaining.rows[0]?.count ?? 0);
+
+    console.log(
+      `done: ${total} ${target.table} re-encrypted to key version ${activeVersion}` +
+        (left > 0 ? `, ${left} locked rows left (run again)` : ""),
+    );
+  }
+  await pool.end();
+}
+
+main().catch(async (err) => {
+  console.error(err);
+  await pool.end().catch(() => {});
+  process.exit(1);
+});
@@ -0,0 +1,50 @@
+// src/schemaCompilers.ts
+//
+// Lets Fastify routes use zod schemas directly: request parts are
+// validated (and transformed) with safeParse, responses are checked and
+// stripped down to the declared shape before they are sent. The same
+// schemas feed the OpenAPI document (see openapi.ts).
+
+import type {
+  FastifySchemaCompiler,
+  FastifySerializerCompiler,
+  FastifyTypeProvider,
+} from "fastify";
+import { z } from "zod";
+
+export interface ZodTypeProvider extends FastifyTypeProvider {
+  validator: this["schema"] extends z.ZodType ? z.output<this["schema"]> : unknown;
+  serializer: this["schema"] extends z.ZodType ? z.input<this["schema"]> : unknown;
+}
+
+export class ResponseValidationError extends Error {
+  constructor(readonly issues: z.core.$ZodIssue[]) {
+    super("Response does not match its schema");
+    this.name = "ResponseValidationError";
+  }
+}
+
+/**
+ * The ZodError itself is handed to the error handler, so validation
+ * failures keep the usual `{ error: "invalid_request", details }` shape.
+ */
+export const zodValidatorCompiler: FastifySchemaCompiler<z.ZodType> =
+  ({ schema }) =>
+  (data) => {
+    const result = schema.safeParse(data);
+    return result.success ? { value: result.data } : { error: result.error };
+  };
+
+export const zodSerializerCompiler: FastifySerializerCompiler<z.ZodType> =
+  ({ schema }) =>
+  (data) => {
+    // Check the wire form (Dates already turned into ISO strings). Unknown
+    // keys are dropped, so nothing undeclared can leak into a response.
+    const result = schema.safeParse(JSON.parse(JSON.stringify(data)));
+    if (!result.success) throw new ResponseValidationError(result.error.issues);
+    return JSON.stringify(result.data);
+  };
+
+export function isRequestValidationError(err: unknown): err is z.ZodError {
+  return err instanceof z.ZodError;
+}
@@ -4,83 +4,928 @@ import helmet from "@fastify/helmet";
 import rateLimit from "@fastify/rate-limit";
 import "dotenv/config";
 import { z } from "zod";
+import { getConfig } from "./config";
 import { pool } from "./db";
-import { encryptViewKey, decryptViewKey } from "./crypto";
+import { encryptSecret, encryptViewKey, decryptViewKey } from "./crypto";
 import { buildMoneroUri } from "./moneroUri";
-import { decodeStandardAddress } from "./monero/decodeAddress";
+import {
+  AddressValidationError,
+  decodeAddress,
+  decodeStandardAddress,
+  type DecodedMoneroAddress,
+} from "./monero/decodeAddress";
+import { isValidPrivateKey, privateViewKeyMatches } from "./monero/keys";
+import {
+  createOwnerChallenge,
+  ownerScopeCondition,
+  resolveOwnerScope,
+} from "./ownerAuth";
+import {
+  allocateSequentialIndex,
+  type ExhaustionPolicy,
+  type GenMode,
+} from "./allocation";
+import { createPaymentBackend, type TxKeyCheck } from "./payments/backend";
+import {
+  getMinConfirmations,
+  getPaymentWatcherSettings,
+  startPaymentWatcher,
+} from "./payments/watcher";
+import { summarizePayments } from "./payments/status";
+import { getSweepIntervalMs, startSweeper } from "./sweeper";
+import { formatXmr, parseXmr } from "./monero/amount";
+import {
+  createRateProvider,
+  RateUnavailableError,
+  type RateQuote,
+} from "./pricing/provider";
+import { fiatToAtomic } from "./pricing/convert";
+import {
+  amountPolicyFromRow,
+  buildAmountPolicy,
+  checkRequestedAmount,
+  formatAmountPolicy,
+  MAX_PRESET_AMOUNTS,
+  type AmountPolicy,
+} from "./amounts";
+import {
+  bucketProgress,
+  campaignEnded,
+  campaignFromRow,
+  campaignRaised,
+  formatCampaign,
+  formatOwnerCampaign,
+  MAX_CAMPAIGN_DESCRIPTION_LENGTH,
+  PROGRESS_STEP_PERCENT,
+  type Campaign,
+} from "./campaigns";
+import {
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+  openExport,
+  sealExport,
+} from "./paylinkExport";
+import { renderQr } from "./qr";
+import {
+  createPowChallenge,
+  getPowSettings,
+  MAX_BASE_POW_DIFFICULTY,
+  POW_CHALLENGE_RE,
+  POW_SOLUTION_RE,
+  verifyPowProof,
+} from "./pow";
+import {
+  getMetricsSettings,
+  recordRateLimitHit,
+  registerHttpMetrics,
+  startMetricsServer,
+} from "./metrics";
+import { registerOpenApi } from "./openapi";
+import { checkReadiness, loadExpectedMigrations } from "./readiness";
+import {
+  isRequestValidationError,
+  ResponseValidationError,
+  zodSerializerCompiler,
+  zodValidatorCompiler,
+  type ZodTypeProvider,
+} from "./schemaCompilers";
+import {
+  buildEmbeds,
+  buildIframe,
+  DEFAULT_EMBED_OPTIONS,
+  IFRAME_SIZES,
+  type EmbedOptions,
+} from "./embeds";
+import {
+  enqueueWebhookEvent,
+  WEBHOOK_EVENT_TYPES,
+  type WebhookEventType,
+} from "./webhooks/events";
+import {
+  getWebhookDispatcherSettings,
+  startWebhookDispatcher,
+} from "./webhooks/dispatcher";
+import { checkWebhookUrl, webhooksAllowInsecure } from "./webhooks/url";
+import { createDeriver, getDerivationWorkers } from "./subaddresses/derive";
+import {
+  getSubaddressPoolSettings,
+  lookupPooledSubaddress,
+  startSubaddressPool,
+} from "./subaddresses/pool";
+import {
+  effectiveInvoiceStatus,
+  getInvoiceTtlMinutes,
+  type InvoiceStatus,
+} from "./invoices";
 import * as subaddress from "subaddress";
 import crypto from "crypto";
 
 const MAX_SUBADDRESS_INDEX = 1_000_000;
+const MAX_ACCOUNT_INDEX = 10_000;
+const MAX_REQUESTS = 1_000_000;
+const MAX_WEBHOOKS_PER_PAYLINK = 5;
+const MAX_WEBHOOK_DELIVERIES_LISTED = 100;
+const MAX_IMPORT_PAYLINKS = 500;
+// Import bodies carry a whole export file; every other route keeps the
+// global 16KB limit
+const IMPORT_BODY_LIMIT = 1024 * 1024;
+
+// Inside the optional activation window and under the optional request cap
+const PAYLINK_SCHEDULE_OK_SQL = `(starts_at IS NULL OR starts_at <= now())
+  AND (expires_at IS NULL OR expires_at > now())
+  AND (max_requests IS NULL OR request_count < max_requests)`;
 const DEFAULT_MIN_INDEX = 1;
 const DEFAULT_MAX_INDEX = 100;
 
-function getAllowedOrigins(): string[] | true {
-  const env = process.env.ALLOWED_ORIGINS;
-  if (!env || env === "*") {
-    if (process.env.NODE_ENV === "production") {
-      throw new Error("ALLOWED_ORIGINS must be set in production (not '*')");
-    }
-    return true; // Allow all in development
-  }
-  return env.split(",").map((o) => o.trim()).filter(Boolean);
-}
-
 function getDonateBaseUrl(): string {
-  const env = process.env.DONATE_BASE_URL;
-  if (!env) {
-    if (process.env.NODE_ENV === "production") {
-      throw new Error("DONATE_BASE_URL must be set in production");
-    }
-    return "https://anonomi.org/paylinks/d#"; // Default for development
-  }
-  // Ensure it ends with # for the fragment identifier
-  return env.endsWith("#") ? env : `${env}#`;
+  return getConfig().donateBaseUrl;
 }
 
 // --- Schemas ---
+// Max 15 whole digits, max 12 decimal places (Monero has 12 decimal places)
+const XMR_AMOUNT_RE = /^\d{1,15}(\.\d{1,12})?$/;
+
+const XmrAmountField = z
+  .string()
+  .trim()
+  .max(30)
+  .regex(XMR_AMOUNT_RE, "invalid amount format")
+  .refine((v) => parseXmr(v) > 0n, "amount must be positive");
+
+// Like XmrAmountField, but "0" is allowed
+const XmrAmountOrZeroField = z
+  .string()
+  .trim()
+  .max(30)
+  .regex(XMR_AMOUNT_RE, "invalid amount format");
+
+const PowDifficultyField = z.number().int().min(0).max(MAX_BASE_POW_DIFFICULTY);
+
+// Fundraising goal (see src/campaigns.ts); the deadline is informational
+// and doesn't close the paylink (use expiresAt for that)
+const CampaignSchema = z.object({
+  goalAmount: XmrAmountField,
+  deadline: z.iso.datetime({ offset: true }).optional(),
+  description: z.string().trim().max(MAX_CAMPAIGN_DESCRIPTION_LENGTH).optional(),
+});
+
+const PowProofSchema = z.object({
+  challenge: z
+    .string()
+    .trim()
+    .regex(POW_CHALLENGE_RE, "challenge must be a challenge as issued"),
+  solution: z
+    .string()
+    .trim()
+    .regex(POW_SOLUTION_RE, "solution must be 1-64 alphanumeric chars"),
+});
+
 const PaylinkOptionsSchema = z
   .object({
     label: z.string().max(80).optional(),
-    genMode: z.enum(["random", "sequential"]).optional(), // sequential rejected for now
+    genMode: z.enum(["random", "sequential"]).optional(),
+    // Sequential mode only: what happens once every index was handed out
+    onExhausted: z.enum(["wrap", "refuse", "extend"]).optional(),
     minIndex: z.number().int().positive().optional(),
     maxIndex: z.number().int().positive().optional(),
+    // Wallet account (major index) that receives donations
+    accountIndex: z.number().int().nonnegative().optional(),
+    // Activation window and request cap (all optional)
+    startsAt: z.iso.datetime({ offset: true }).optional(),
+    expiresAt: z.iso.datetime({ offset: true }).optional(),
+    maxRequests: z.number().int().min(1).max(MAX_REQUESTS).optional(),
+    // Amount rules enforced by /request (see src/amounts.ts)
+    fixedAmount: XmrAmountField.optional(),
+    minAmount: XmrAmountField.optional(),
+    presetAmounts: z.array(XmrAmountField).min(1).max(MAX_PRESET_AMOUNTS).optional(),
+    // Proof of work for /request (see src/pow.ts); omitted = no gate
+    powDifficulty: PowDifficultyField.optional(),
+    campaign: CampaignSchema.optional(),
   })
   .optional();
 
+// Presentation of the returned embed snippets (not stored)
+const EmbedOptionsSchema = z.object({
+  theme: z.enum(["light", "dark", "monero"]).optional(),
+  size: z.enum(["small", "medium", "large"]).optional(),
+  buttonText: z.string().trim().min(1).max(40).optional(),
+});
+
 const CreatePaylinkSchema = z.object({
   publicAddress: z.string().trim().min(20).max(200),
-  privateViewKey: z.string().trim().min(20).max(200),
+  privateViewKey: z
+    .string()
+    .trim()
+    .length(64)
+    .regex(/^[0-9a-f]{64}$/i, "privateViewKey must be 64 hex chars"),
   options: PaylinkOptionsSchema,
+  embed: EmbedOptionsSchema.optional(),
 });
 
-const RequestDonationSchema = z.object({
-  amount: z.preprocess(
-    (v) => {
-      if (typeof v !== "string") return v;
-      const s = v.trim();
-      return s === "" ? undefined : s;
-    },
-    z
+const RequestDonationSchema = z
+  .object({
+    amount: z.preprocess(
+      (v) => {
+        if (typeof v !== "string") return v;
+        const s = v.trim();
+        return s === "" ? undefined : s;
+      },
+      XmrAmountField.optional(),
+    ),
+    // Alternative to `amount`: converted to XMR at the current rate
+    fiatAmount: z
       .string()
+      .trim()
       .max(30)
-      // Max 15 whole digits, max 12 decimal places (Monero has 12 decimal places)
-      .regex(/^\d{1,15}(\.\d{1,12})?$/, "invalid amount format")
+      .regex(/^\d{1,12}(\.\d{1,8})?$/, "invalid fiatAmount format")
+      .refine((v) => !/^0+(\.0+)?$/.test(v), "fiatAmount must be positive")
       .optional(),
-  ),
-  description: z.string().trim().max(140).optional().default(""),
+    currency: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z]{3}$/, "currency must be an ISO 4217 code")
+      .transform((v) => v.toUpperCase())
+      .optional(),
+    description: z.string().trim().max(140).optional().default(""),
+    // Required when the paylink has a proof-of-work difficulty
+    pow: PowProofSchema.optional(),
+  })
+  .refine((v) => !(v.amount && v.fiatAmount), {
+    message: "amount and fiatAmount are mutually exclusive",
+    path: ["fiatAmount"],
+  })
+  .refine((v) => (v.fiatAmount === undefined) === (v.currency === undefined), {
+    message: "fiatAmount and currency must be sent together",
+    path: ["currency"],
+  });
+
+const OwnerKeyField = z
+  .string()
+  .trim()
+  .length(64)
+  .regex(/^[0-9a-f]{64}$/i, "ownerKey must be 64 hex chars");
+
+// Spend-key signature over a challenge from POST /api/paylinks/challenge
+const OwnerSignatureSchema = z.object({
+  publicAddress: z.string().trim().min(20).max(200),
+  nonce: z
+    .string()
+    .trim()
+    .regex(/^[0-9a-f]{64}$/, "nonce must be 64 lowercase hex chars"),
+  signature: z
+    .string()
+    .trim()
+    .max(200)
+    .regex(/^SigV2[1-9A-HJ-NP-Za-km-z]+$/, "signature must be a SigV2 signature"),
+});
+
+// Owner routes take exactly one of ownerKey or ownerSignature
+const OwnerProofShape = {
+  ownerKey: OwnerKeyField.optional(),
+  ownerSignature: OwnerSignatureSchema.optional(),
+};
+
+function hasOneOwnerProof(v: { ownerKey?: unknown; ownerSignature?: unknown }) {
+  return (v.ownerKey === undefined) !== (v.ownerSignature === undefined);
+}
+
+const ONE_OWNER_PROOF_ERROR = {
+  message: "Provide exactly one of ownerKey or ownerSignature",
+  path: ["ownerKey"],
+};
+
+const DeleteByOwnerKeySchema = z
+  .object(OwnerProofShape)
+  .refine(hasOneOwnerProof, ONE_OWNER_PROOF_ERROR);
+
+const ListByOwnerKeySchema = z
+  .object(OwnerProofShape)
+  .refine(hasOneOwnerProof, ONE_OWNER_PROOF_ERROR);
+
+const OwnerChallengeSchema = z.object({
+  publicAddress: z.string().trim().min(20).max(200),
+});
+
+const SetOwnerKeyEnabledSchema = z.object({
+  ownerSignature: OwnerSignatureSchema,
+  enabled: z.boolean(),
+});
+
+const UpdatePaylinkSchema = z
+  .object({
+    ...OwnerProofShape,
+    // null or "" clears the label
+    label: z.string().max(80).nullable().optional(),
+    minIndex: z.number().int().min(1).max(MAX_SUBADDRESS_INDEX).optional(),
+    maxIndex: z.number().int().min(1).max(MAX_SUBADDRESS_INDEX).optional(),
+    // false pauses the link, true resumes it
+    active: z.boolean().optional(),
+    // null switches the proof-of-work gate off
+    powDifficulty: PowDifficultyField.nullable().optional(),
+    // Replaces goal, deadline and description; null ends the campaign
+    campaign: CampaignSchema.nullable().optional(),
+    // Total received outside payment detection (replaces the previous value)
+    reportedAmount: XmrAmountOrZeroField.optional(),
+  })
+  .refine(
+    (v) => (v.minIndex === undefined) === (v.maxIndex === undefined),
+    { message: "minIndex and maxIndex must be provided together", path: ["minIndex"] },
+  )
+  .refine(
+    (v) =>
+      v.label !== undefined ||
+      v.minIndex !== undefined ||
+      v.active !== undefined ||
+      v.powDifficulty !== undefined ||
+      v.campaign !== undefined ||
+      v.reportedAmount !== undefined,
+    { message: "Nothing to update" },
+  )
+  .refine(hasOneOwnerProof, ONE_OWNER_PROOF_ERROR);
+
+const ExportPaylinksSchema = z
+  .object({
+    ...OwnerProofShape,
+    // `next` of the previous file, when that one was truncated
+    after: z.string().uuid().optional(),
+  })
+  .refine(hasOneOwnerProof, ONE_OWNER_PROOF_ERROR);
+
+const CreateWebhookSchema = z
+  .object({
+    ...OwnerProofShape,
+    url: z.string().trim().min(1).max(2048),
+    // Defaults to every event type
+    events: z
+      .array(z.enum(WEBHOOK_EVENT_TYPES))
+      .min(1)
+      .max(WEBHOOK_EVENT_TYPES.length)
+      .optional(),
+  })
+  .refine(hasOneOwnerProof, ONE_OWNER_PROOF_ERROR);
+
+const WEBHOOK_DELIVERY_STATUSES = ["pending", "delivered", "dead"] as const;
+type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+const ListWebhookDeliveriesSchema = z
+  .object({
+    ...OwnerProofShape,
+    status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional(),
+  })
+  .refine(hasOneOwnerProof, ONE_OWNER_PROOF_ERROR);
+
+const ReplayWebhookDeliveriesSchema = z
+  .object({
+    ...OwnerProofShape,
+    // Defaults to every dead delivery of the webhook
+    deliveryIds: z.array(z.string().uuid()).min(1).max(100).optional(),
+  })
+  .refine(hasOneOwnerProof, ONE_OWNER_PROOF_ERROR);
+
+const PaylinkEmbedsSchema = z
+  .object({
+    ...OwnerProofShape,
+    ...EmbedOptionsSchema.shape,
+  })
+  .refine(hasOneOwnerProof, ONE_OWNER_PROOF_ERROR);
+
+const OEmbedQuerySchema = z.object({
+  url: z.string().trim().min(1).max(2048),
+  format: z.string().optional(),
+  maxwidth: z.coerce.number().int().positive().optional(),
+  maxheight: z.coerce.number().int().positive().optional(),
+});
+
+const QrQuerySchema = z.object({
+  format: z.enum(["svg", "png"]).optional().default("svg"),
+  size: z.coerce.number().int().min(64).max(1024).optional().default(256),
+  margin: z.coerce.number().int().min(0).max(16).optional().default(4),
+  ecc: z.enum(["L", "M", "Q", "H"]).optional().default("M"),
 });
 
-const DeleteByOwnerKeySchema = z.object({
-  ownerKey: z
+const PaymentProofSchema = z.object({
+  txid: z
     .string()
     .trim()
-    .length(64)
-    .regex(/^[0-9a-f]{64}$/i, "ownerKey must be 64 hex chars"),
+    .regex(/^[0-9a-fA-F]{64}$/, "txid must be 64 hex chars")
+    .transform((v) => v.toLowerCase()),
+  // Wallets print the tx key followed by any additional per-output keys
+  txKey: z
+    .string()
+    .trim()
+    .max(64 * 17)
+    .regex(/^(?:[0-9a-fA-F]{64})+$/, "txKey must be 64 hex chars per key")
+    .transform((v) => v.toLowerCase()),
+  // The (sub)address the donor paid to
+  address: z.string().trim().min(20).max(200),
 });
 
 const PaylinkIdSchema = z.string().uuid();
 
+const WebhookIdSchema = z.string().uuid();
+
+const InvoiceIdSchema = z.string().uuid();
+
+const ExportEnvelopeSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.literal(EXPORT_VERSION),
+  kdf: z.literal("hkdf-sha256"),
+  cipher: z.literal("aes-256-gcm"),
+  salt: z.base64(),
+  nonce: z.base64(),
+  ciphertext: z.base64(),
+});
+
+// An export file holds at most MAX_IMPORT_PAYLINKS links; owners with more
+// fetch the rest with `after: next`. Import reads only the envelope fields.
+const ExportResponse = ExportEnvelopeSchema.extend({
+  truncated: z.boolean(),
+  next: z.string().nullable(),
+});
+
+const ImportPaylinksSchema = z.object({
+  publicAddress: z.string().trim().min(20).max(200),
+  privateViewKey: z
+    .string()
+    .trim()
+    .length(64)
+    .regex(/^[0-9a-f]{64}$/i, "privateViewKey must be 64 hex chars"),
+  export: ExportEnvelopeSchema,
+});
+
+// Decrypted content of an export file (written by the export route)
+const ExportedPaylinkSchema = z.object({
+  id: PaylinkIdSchema,
+  label: z.string().max(80).nullable(),
+  network: z.enum(["mainnet", "stagenet", "testnet"]),
+  genMode: z.enum(["random", "sequential"]),
+  onExhausted: z.enum(["wrap", "refuse", "extend"]),
+  minIndex: z.number().int().min(1).max(MAX_SUBADDRESS_INDEX),
+  maxIndex: z.number().int().min(1).max(MAX_SUBADDRESS_INDEX),
+  // Sequential allocation state, so indices aren't handed out twice
+  nextIndex: z.number().int().min(1).nullable(),
+  accountIndex: z.number().int().min(0).max(MAX_ACCOUNT_INDEX),
+  active: z.boolean(),
+  ownerKeyDisabled: z.boolean(),
+  startsAt: z.iso.datetime({ offset: true }).nullable(),
+  expiresAt: z.iso.datetime({ offset: true }).nullable(),
+  maxRequests: z.number().int().min(1).max(MAX_REQUESTS).nullable(),
+  requestCount: z.number().int().min(0),
+  fixedAmount: XmrAmountField.nullable(),
+  minAmount: XmrAmountField.nullable(),
+  presetAmounts: z.array(XmrAmountField).max(MAX_PRESET_AMOUNTS),
+  powDifficulty: PowDifficultyField.nullable(),
+  campaign: z
+    .object({
+      goalAmount: XmrAmountField,
+      deadline: z.iso.datetime({ offset: true }).nullable(),
+      description: z.string().max(MAX_CAMPAIGN_DESCRIPTION_LENGTH).nullable(),
+      reportedAmount: XmrAmountOrZeroField,
+    })
+    .nullable(),
+  createdAt: z.iso.datetime({ offset: true }),
+});
+
+const ExportPayloadSchema = z.object({
+  publicAddress: z.string(),
+  exportedAt: z.iso.datetime({ offset: true }),
+  paylinks: z.array(ExportedPaylinkSchema).max(MAX_IMPORT_PAYLINKS),
+});
+
+type ExportedPaylink = z.infer<typeof ExportedPaylinkSchema>;
+
+// Path parameters. Documented as UUIDs but validated in the handlers, so
+// a malformed id gets the same generic 404 as an unknown one.
+const PaylinkParams = z.object({
+  id: z.string().meta({ format: "uuid", description: "Paylink id" }),
+});
+
+const InvoiceParams = z.object({
+  invoiceId: z.string().meta({ format: "uuid", description: "Invoice id" }),
+});
+
+const PaylinkRequestParams = PaylinkParams.extend({
+  requestId: z.string().meta({ format: "uuid", description: "Invoice id" }),
+});
+
+const PaylinkWebhookParams = PaylinkParams.extend({
+  webhookId: z.string().meta({ format: "uuid", description: "Webhook id" }),
+});
+
+// --- Response schemas ---
+const Timestamp = z.iso.datetime();
+const XmrAmount = z.string().meta({ description: "XMR decimal string" });
+
+// Every error: { error: "<code>" } plus optional context (code, details,
+// reason, currencies, ...)
+const ErrorResponse = z
+  .object({
+    error: z.string(),
+  })
+  .loose();
+
+const OkResponse = z.object({
+  ok: z.literal(true),
+  message: z.string(),
+});
+
+const AmountPolicyResponse = z.object({
+  fixedAmount: XmrAmount.nullable(),
+  minAmount: XmrAmount.nullable(),
+  presetAmounts: z.array(XmrAmount),
+});
+
+const EmbedsResponse = z.object({
+  html: z.string(),
+  button: z.string(),
+  iframe: z.string(),
+  markdown: z.string(),
+  bbcode: z.string(),
+});
+
+const CampaignResponse = z.object({
+  goalAmount: XmrAmount,
+  deadline: Timestamp.nullable(),
+  description: z.string().nullable(),
+});
+
+const OwnerCampaignResponse = CampaignResponse.extend({
+  reportedAmount: XmrAmount,
+});
+
+const PaylinkMetaResponse = z.object({
+  paylinkId: z.string(),
+  label: z.string(),
+  fingerprint: z.string(),
+  network: z.string(),
+  accountIndex: z.number().int(),
+  ...AmountPolicyResponse.shape,
+  powRequired: z.boolean(),
+  campaign: CampaignResponse.nullable(),
+});
+
+const PaylinkScheduleResponse = z.object({
+  genMode: z.enum(["random", "sequential"]),
+  onExhausted: z.enum(["wrap", "refuse", "extend"]).optional(),
+  minIndex: z.number().int(),
+  maxIndex: z.number().int(),
+  accountIndex: z.number().int(),
+  startsAt: Timestamp.nullable(),
+  expiresAt: Timestamp.nullable(),
+  maxRequests: z.number().int().nullable(),
+  ...AmountPolicyResponse.shape,
+  powDifficulty: z.number().int().nullable(),
+  campaign: OwnerCampaignResponse.nullable(),
+});
+
+const CreatePaylinkResponse = z.object({
+  id: z.string(),
+  label: z.string().nullable(),
+  donateUrl: z.string(),
+  embedHtml: z.string(),
+  embeds: EmbedsResponse,
+  fingerprint: z.string(),
+  ...PaylinkScheduleResponse.shape,
+  addressPreview: z.string().nullable(),
+  network: z.string(),
+});
+
+const ListPaylinksResponse = z.object({
+  paylinks: z.array(
+    z.object({
+      id: z.string(),
+      label: z.string().nullable(),
+      donateUrl: z.string(),
+      fingerprint: z.string(),
+      network: z.string(),
+      ...PaylinkScheduleResponse.shape,
+      active: z.boolean(),
+      requestCount: z.number().int(),
+      createdAt: Timestamp,
+    }),
+  ),
+});
+
+const OwnerChallengeResponse = z.object({
+  nonce: z.string(),
+  message: z.string(),
+  expiresAt: Timestamp,
+});
+
+const PowChallengeResponse = z.object({
+  challenge: z.string(),
+  algorithm: z.literal("sha256"),
+  difficulty: z.number().int(),
+  expiresAt: Timestamp,
+});
+
+const CampaignProgressResponse = z.object({
+  paylinkId: z.string(),
+  ...CampaignResponse.shape,
+  // Rounded down to whole steps of stepPercent of the goal
+  raisedAmount: XmrAmount,
+  percent: z.number().int(),
+  stepPercent: z.number().int(),
+  ended: z.boolean(),
+  // false: only owner-reported amounts are counted
+  detectionEnabled: z.boolean(),
+});
+
+const ImportPaylinksResponse = z.object({
+  imported: z.number().int(),
+  // Ids that already exist on this instance (left untouched). Only counted,
+  // so an import can't tell which ids exist.
+  skipped: z.number().int(),
+});
+
+const PaylinkEmbedsResponse = z.object({
+  paylinkId: z.string(),
+  donateUrl: z.string(),
+  embeds: EmbedsResponse,
+});
+
+const OEmbedResponse = z.object({
+  version: z.literal("1.0"),
+  type: z.literal("rich"),
+  provider_name: z.string(),
+  title: z.string(),
+  html: z.string(),
+  width: z.number().int(),
+  height: z.number().int(),
+  cache_age: z.number().int(),
+});
+
+const WebhookEventTypes = z.array(z.enum(WEBHOOK_EVENT_TYPES));
+
+const CreateWebhookResponse = z.object({
+  webhookId: z.string(),
+  paylinkId: z.string(),
+  url: z.string(),
+  events: WebhookEventTypes,
+  secret: z.string(),
+  createdAt: Timestamp,
+});
+
+const ListWebhooksResponse = z.object({
+  webhooks: z.array(
+    z.object({
+      id: z.string(),
+      url: z.string(),
+      events: WebhookEventTypes,
+      pendingDeliveries: z.number().int(),
+      deadDeliveries: z.number().int(),
+      createdAt: Timestamp,
+    }),
+  ),
+});
+
+const ListWebhookDeliveriesResponse = z.object({
+  deliveries: z.array(
+    z.object({
+      id: z.string(),
+      eventId: z.string(),
+      eventType: z.enum(WEBHOOK_EVENT_TYPES),
+      status: z.enum(WEBHOOK_DELIVERY_STATUSES),
+      attempts: z.number().int(),
+      nextAttemptAt: Timestamp.nullable(),
+      lastStatusCode: z.number().int().nullable(),
+      lastError: z.string().nullable(),
+      createdAt: Timestamp,
+      deliveredAt: Timestamp.nullable(),
+    }),
+  ),
+});
+
+const ReplayWebhookDeliveriesResponse = z.object({
+  replayed: z.number().int(),
+});
+
+const InvoiceStatusEnum = z.enum(["pending", "seen", "confirmed", "expired"]);
+
+const QuoteResponse = z.object({
+  fiatAmount: z.string(),
+  currency: z.string(),
+  rate: z.string(),
+  source: z.string(),
+  quotedAt: Timestamp,
+});
+
+const DonationRequestResponse = z.object({
+  paylinkId: z.string(),
+  invoiceId: z.string(),
+  requestId: z.string(),
+  label: z.string(),
+  address: z.string(),
+  amount: z.union([XmrAmount, z.literal("")]),
+  description: z.string(),
+  quote: QuoteResponse.nullable(),
+  uri: z.string(),
+  fingerprint: z.string(),
+  status: InvoiceStatusEnum,
+  createdAt: Timestamp,
+  expiresAt: Timestamp,
+});
+
+const PaymentSummaryResponse = z.object({
+  detectionEnabled: z.boolean(),
+  minConfirmations: z.number().int(),
+  amountReceived: XmrAmount,
+  amountConfirmed: XmrAmount,
+  payments: z.array(
+    z.object({
+      txid: z.string(),
+      amount: XmrAmount,
+      confirmations: z.number().int(),
+    }),
+  ),
+});
+
+const PaymentStatusResponse = z.object({
+  paylinkId: z.string(),
+  requestId: z.string(),
+  address: z.string(),
+  issuedAt: Timestamp,
+  status: z.enum(["pending", "seen", "confirmed"]),
+  invoiceStatus: InvoiceStatusEnum,
+  ...PaymentSummaryResponse.shape,
+});
+
+const InvoiceResponse = z.object({
+  invoiceId: z.string(),
+  paylinkId: z.string(),
+  label: z.string(),
+  address: z.string(),
+  amount: z.union([XmrAmount, z.literal("")]),
+  description: z.string(),
+  quote: QuoteResponse.nullable(),
+  uri: z.string(),
+  fingerprint: z.string(),
+  status: InvoiceStatusEnum,
+  createdAt: Timestamp,
+  expiresAt: Timestamp,
+  ...PaymentSummaryResponse.shape,
+});
+
+// --- Route schemas ---
+const HealthRoute = {
+  response: { 200: z.object({ ok: z.literal(true) }) },
+};
+
+const ReadinessCheck = z.enum(["ok", "failed", "pending", "skipped"]);
+
+const ReadyResponse = z.object({
+  ready: z.boolean(),
+  checks: z.object({
+    database: ReadinessCheck,
+    migrations: ReadinessCheck,
+    masterKey: ReadinessCheck,
+  }),
+});
+
+const ReadyRoute = {
+  response: { 200: ReadyResponse, 503: ReadyResponse },
+};
+
+const PaylinkMetaRoute = {
+  params: PaylinkParams,
+  response: { 200: PaylinkMetaResponse, default: ErrorResponse },
+};
+
+const CampaignProgressRoute = {
+  params: PaylinkParams,
+  response: { 200: CampaignProgressResponse, default: ErrorResponse },
+};
+
+const CreatePaylinkRoute = {
+  body: CreatePaylinkSchema,
+  response: { 201: CreatePaylinkResponse, default: ErrorResponse },
+};
+
+const DeletePaylinkRoute = {
+  params: PaylinkParams,
+  body: DeleteByOwnerKeySchema,
+  response: { 200: OkResponse, default: ErrorResponse },
+};
+
+const DeletePaylinksRoute = {
+  body: DeleteByOwnerKeySchema,
+  response: { 200: OkResponse, default: ErrorResponse },
+};
+
+const OwnerChallengeRoute = {
+  body: OwnerChallengeSchema,
+  response: { 200: OwnerChallengeResponse, default: ErrorResponse },
+};
+
+const SetOwnerKeyEnabledRoute = {
+  body: SetOwnerKeyEnabledSchema,
+  response: { 200: OkResponse, default: ErrorResponse },
+};
+
+const ListPaylinksRoute = {
+  body: ListByOwnerKeySchema,
+  response: { 200: ListPaylinksResponse, default: ErrorResponse },
+};
+
+const ExportPaylinksRoute = {
+  body: ExportPaylinksSchema,
+  response: { 200: ExportResponse, default: ErrorResponse },
+};
+
+const ImportPaylinksRoute = {
+  body: ImportPaylinksSchema,
+  response: { 200: ImportPaylinksResponse, default: ErrorResponse },
+};
+
+const UpdatePaylinkRoute = {
+  params: PaylinkParams,
+  body: UpdatePaylinkSchema,
+  response: { 200: OkResponse, default: ErrorResponse },
+};
+
+const PowChallengeRoute = {
+  params: PaylinkParams,
+  response: { 200: PowChallengeResponse, default: ErrorResponse },
+};
+
+const PaylinkEmbedsRoute = {
+  params: PaylinkParams,
+  body: PaylinkEmbedsSchema,
+  response: { 200: PaylinkEmbedsResponse, default: ErrorResponse },
+};
+
+const OEmbedRoute = {
+  querystring: OEmbedQuerySchema,
+  response: { 200: OEmbedResponse, default: ErrorResponse },
+};
+
+const CreateWebhookRoute = {
+  params: PaylinkParams,
+  body: CreateWebhookSchema,
+  response: { 201: CreateWebhookResponse, default: ErrorResponse },
+};
+
+const ListWebhooksRoute = {
+  params: PaylinkParams,
+  body: ListByOwnerKeySchema,
+  response: { 200: ListWebhooksResponse, default: ErrorResponse },
+};
+
+const DeleteWebhookRoute = {
+  params: PaylinkWebhookParams,
+  body: DeleteByOwnerKeySchema,
+  response: { 200: OkResponse, default: ErrorResponse },
+};
+
+const ListWebhookDeliveriesRoute = {
+  params: PaylinkWebhookParams,
+  body: ListWebhookDeliveriesSchema,
+  response: { 200: ListWebhookDeliveriesResponse, default: ErrorResponse },
+};
+
+const ReplayWebhookDeliveriesRoute = {
+  params: PaylinkWebhookParams,
+  body: ReplayWebhookDeliveriesSchema,
+  response: { 200: ReplayWebhookDeliveriesResponse, default: ErrorResponse },
+};
+
+const RequestDonationRoute = {
+  params: PaylinkParams,
+  body: RequestDonationSchema,
+  response: { 200: DonationRequestResponse, default: ErrorResponse },
+};
+
+const PaymentStatusRoute = {
+  params: PaylinkRequestParams,
+  response: { 200: PaymentStatusResponse, default: ErrorResponse },
+};
+
+const PaymentProofResponse = z.object({
+  txid: z.string(),
+  address: z.string(),
+  verified: z.boolean(),
+  inPool: z.boolean(),
+  confirmations: z.number().int(),
+  minConfirmations: z.number().int(),
+  amountReceived: XmrAmount,
+  amountConfirmed: XmrAmount,
+});
+
+const PaymentProofRoute = {
+  body: PaymentProofSchema,
+  response: { 200: PaymentProofResponse, default: ErrorResponse },
+};
+
+const InvoiceRoute = {
+  params: InvoiceParams,
+  response: { 200: InvoiceResponse, default: ErrorResponse },
+};
+
+const InvoiceQrRoute = {
+  params: InvoiceParams,
+  querystring: QrQuerySchema,
+};
+
 function clampIndex(n: number) {
   return Math.max(1, Math.min(n, MAX_SUBADDRESS_INDEX));
 }
@@ -99,13 +944,9 @@ function normalizeRange(
 }
 
 function computePaylinkFingerprint(paylinkId: string) {
-  const key = process.env.PAYLINKS_FINGERPRINT_KEY;
-  if (!key || key.length < 16) {
-    if (process.env.NODE_ENV === "production") {
-      throw new Error(
-        "PAYLINKS_FINGERPRINT_KEY must be set (>=16 chars) in production",
-      );
-    }
+  // Required in production (checked by the config)
+  const key = getConfig().fingerprintKey;
+  if (!key) {
     return crypto
       .createHash("sha256")
       .update(paylinkId)
@@ -133,13 +974,151 @@ function genericDeleteMessageBulk() {
   return "If any existed, all paylinks associated with the provided owner key were deleted.";
 }
 
+function embedOptions(v: z.infer<typeof EmbedOptionsSchema> | undefined): EmbedOptions {
+  return {
+    theme: v?.theme ?? DEFAULT_EMBED_OPTIONS.theme,
+    size: v?.size ?? DEFAULT_EMBED_OPTIONS.size,
+    buttonText: v?.buttonText ?? DEFAULT_EMBED_OPTIONS.buttonText,
+  };
+}
+
+// Validated campaign options for create/update; the reported total starts at 0
+function parseCampaignOptions(
+  v: z.infer<typeof CampaignSchema> | undefined,
+): { ok: true; campaign: Campaign | null } | { ok: false; message: string } {
+  if (!v) return { ok: true, campaign: null };
+  const deadline = v.deadline ? new Date(v.deadline) : null;
+  if (deadline && deadline.getTime() <= Date.now()) {
+    return { ok: false, message: "deadline must be in the future" };
+  }
+  return {
+    ok: true,
+    campaign: {
+      goal: parseXmr(v.goalAmount),
+      deadline,
+      description: v.description || null,
+      reported: 0n,
+    },
+  };
+}
+
+function genericWebhookDeleteMessage(webhookId: string) {
+  return `If the owner proof matched, webhook ${webhookId} was removed.`;
+}
+
+function genericUpdateMessageSingle(id: string) {
+  return `If it existed, paylink ${id} was updated.`;
+}
+
 // Generic error that doesn't reveal if paylink exists, is inactive, or deleted
 const PAYLINK_UNAVAILABLE_ERROR = { error: "paylink_unavailable" } as const;
+const NO_CAMPAIGN_ERROR = { error: "no_campaign" } as const;
+
+const INVOICE_UNAVAILABLE_ERROR = { error: "invoice_unavailable" } as const;
+
+// Sequential paylink whose owner chose to refuse once every index was used
+const PAYLINK_EXHAUSTED_ERROR = { error: "paylink_exhausted" } as const;
+
+const FIAT_NOT_SUPPORTED_ERROR = { error: "fiat_not_supported" } as const;
+
+const RATE_UNAVAILABLE_ERROR = { error: "rate_unavailable" } as const;
+
+// Missing, expired, reused or wrong proof of work; fetch a new challenge
+const POW_REQUIRED_ERROR = { error: "pow_required" } as const;
+
+const POW_NOT_REQUIRED_ERROR = { error: "pow_not_required" } as const;
+
+function amountNotAllowedError(reason: string) {
+  return { error: "amount_not_allowed", reason };
+}
+
+const PAYMENT_PROOFS_NOT_SUPPORTED_ERROR = {
+  error: "payment_proofs_not_supported",
+} as const;
+
+const TX_NOT_FOUND_ERROR = { error: "tx_not_found" } as const;
+
+const DAEMON_UNAVAILABLE_ERROR = { error: "daemon_unavailable" } as const;
+
+const WEBHOOK_LIMIT_ERROR = { error: "webhook_limit_reached" } as const;
+
+const NOTHING_TO_EXPORT_ERROR = { error: "nothing_to_export" } as const;
+
+// Wrong wallet for the file, or the file was modified
+const EXPORT_UNREADABLE_ERROR = { error: "export_unreadable" } as const;
+
+const VIEW_KEY_MISMATCH_ERROR = {
+  error: "view_key_mismatch",
+  message: "privateViewKey does not belong to publicAddress",
+} as const;
+
+type InvoiceQuoteRow = {
+  fiat_amount: string | null;
+  fiat_currency: string | null;
+  fiat_rate: string | null;
+  rate_source: string | null;
+  quoted_at: Date | null;
+};
+
+function invoiceQuote(row: InvoiceQuoteRow) {
+  if (row.fiat_amount === null) return null;
+  return {
+    fiatAmount: row.fiat_amount,
+    currency: row.fiat_currency!,
+    rate: row.fiat_rate!,
+    source: row.rate_source!,
+    quotedAt: row.quoted_at!,
+  };
+}
+
+type InvoiceQuote = NonNullable<ReturnType<typeof invoiceQuote>>;
+
+/**
+ * Payment URI of an invoice. The paylink label becomes recipient_name;
+ * a fiat quote is recorded in tx_description so the wallet shows it.
+ */
+function invoiceUri(invoice: {
+  address: string;
+  amount: string;
+  description: string;
+  label: string | null;
+  quote: InvoiceQuote | null;
+}): string {
+  const parts: string[] = [];
+  if (invoice.description) parts.push(invoice.description);
+  if (invoice.quote) {
+    const q = invoice.quote;
+    parts.push(
+      `(${q.fiatAmount} ${q.currency} @ ${q.rate} ${q.currency}/XMR, quoted ${q.quotedAt.toISOString()})`,
+    );
+  }
+
+  return buildMoneroUri({
+    recipients: [
+      {
+        address: invoice.address,
+        amount: invoice.amount || undefined,
+        name: invoice.label || undefined,
+      },
+    ],
+    description: parts.join(" ") || undefined,
+  });
+}
+
+function formatQuote(quote: RateQuote & { fiatAmount: string }) {
+  return {
+    fiatAmount: quote.fiatAmount,
+    currency: quote.currency,
+    rate: quote.rate,
+    source: quote.source,
+    quotedAt: quote.quotedAt.toISOString(),
+  };
+}
 
-// Minimum response time to prevent timing attacks
-// Ensures total response time is at least minMs, with jitter
 const MIN_RESPONSE_TIME_MS = 200;
 
+// Minimum response time to prevent timing attacks
+// Ensures total response time is at least MIN_RESPONSE_TIME_MS, with jitter
 async function ensureMinimumTime<T>(
   startTime: number,
   result: T,
@@ -160,32 +1139,60 @@ function computeOwnerKey(publicAddress: string, privateViewKey: string) {
     .digest("hex");
 }
 
-async function main() {
+/**
+ * Build the app: routes plus the background jobs, which stop when the app
+ * is closed. Tests use it without a listener and, usually, without logs.
+ */
+export async function buildApp(opts: { logger?: boolean } = {}) {
+  // Every setting is validated here, before anything starts
+  const config = getConfig();
+
   const app = Fastify({
-    logger: {
-      level: "info",
-      redact: {
-        paths: [
-          "req.body.ownerKey",
-          "req.body.privateViewKey",
-          "req.body.publicAddress",
-        ],
-        remove: true,
-      },
-    },
+    logger: opts.logger === false
+      ? false
+      : {
+          level: "info",
+          redact: {
+            paths: [
+              "req.body.ownerKey",
+              "req.body.ownerSignature",
+              "req.body.privateViewKey",
+              "req.body.publicAddress",
+            ],
+            remove: true,
+          },
+        },
     disableRequestLogging: false,
     bodyLimit: 16384, // 16KB max body size
+  }).withTypeProvider<ZodTypeProvider>();
+
+  // Route schemas are zod schemas: the same definitions validate requests,
+  // shape responses and produce the OpenAPI document
+  app.setValidatorCompiler(zodValidatorCompiler);
+  app.setSerializerCompiler(zodSerializerCompiler);
+
+  app.setErrorHandler((err, req, reply) => {
+    if (isRequestValidationError(err)) {
+      return reply
+        .code(400)
+        .send({ error: "invalid_request", details: err.flatten() });
+    }
+    if (err instanceof ResponseValidationError) {
+      req.log.error({ issues: err.issues }, "response does not match schema");
+      return reply.code(500).send({ error: "internal_error" });
+    }
+    throw err;
   });
 
+  await registerOpenApi(app);
+
   // CORS configuration
-  const allowedOrigins = getAllowedOrigins();
-  const allowNullOrigin = process.env.ALLOW_NULL_ORIGIN === "true";
+  const { allowedOrigins, allowNullOrigin } = config;
 
   // Security headers - configured for JSON API (not HTML)
   // Disabled headers that can interfere with CORS/Tor
   // HSTS disabled for Tor deployments (.onion uses HTTP, Tor provides encryption)
-  const enableHsts =
-    process.env.NODE_ENV === "production" && !allowNullOrigin;
+  const enableHsts = config.production && !allowNullOrigin;
 
   await app.register(helmet, {
     contentSecurityPolicy: false, // API doesn't serve HTML
@@ -223,16 +1230,110 @@ async function main() {
   });
 
   // Global rate limit
-  await app.register(rateLimit, { max: 120, timeWindow: "1 minute" });
+  await app.register(rateLimit, {
+    max: 120,
+    timeWindow: "1 minute",
+    onExceeded: (req) => recordRateLimitHit(req),
+  });
+
+  // Prometheus metrics on a separate listener (disabled unless METRICS_PORT is set)
+  const metricsSettings = getMetricsSettings();
+  if (metricsSettings) {
+    registerHttpMetrics(app);
+    const metricsServer = await startMetricsServer({
+      pool,
+      logger: app.log,
+      ...metricsSettings,
+    });
+    app.addHook("onClose", async () => metricsServer.close());
+    app.log.info(metricsSettings, "metrics listening");
+  }
 
-  app.get("/health", async () => ({ ok: true }));
+  // Deactivate expired paylinks, persist invoice expiry
+  const sweeper = startSweeper({
+    pool,
+    logger: app.log,
+    intervalMs: getSweepIntervalMs(),
+  });
+  app.addHook("onClose", async () => sweeper.stop());
+
+  // Payment detection (optional, disabled unless PAYMENTS_BACKEND is set)
+  const minConfirmations = getMinConfirmations();
+  const invoiceTtlMinutes = getInvoiceTtlMinutes();
+  const powSettings = getPowSettings();
+  const paymentBackend = await createPaymentBackend();
+  if (paymentBackend) {
+    const watcher = startPaymentWatcher({
+      pool,
+      backend: paymentBackend,
+      logger: app.log,
+      minConfirmations,
+      ...getPaymentWatcherSettings(),
+    });
+    app.addHook("onClose", async () => watcher.stop());
+    app.log.info({ backend: paymentBackend.name }, "payment watcher started");
+  }
+
+  // Webhook delivery (always on; idle while no webhooks are registered)
+  const webhookDispatcher = startWebhookDispatcher({
+    pool,
+    logger: app.log,
+    ...getWebhookDispatcherSettings(),
+  });
+  app.addHook("onClose", async () => webhookDispatcher.stop());
+
+  // Subaddress derivation for /request: worker threads (DERIVATION_WORKERS)
+  // and precomputed addresses (SUBADDRESS_POOL_SIZE), both optional
+  const deriver = createDeriver();
+  const subaddressPoolSettings = getSubaddressPoolSettings();
+  const subaddressPool = subaddressPoolSettings
+    ? startSubaddressPool({
+        pool,
+        deriver,
+        logger: app.log,
+        ...subaddressPoolSettings,
+      })
+    : null;
+  app.addHook("onClose", async () => {
+    await subaddressPool?.stop();
+    await deriver.close();
+  });
+  if (deriver.name === "workers") {
+    app.log.info({ workers: getDerivationWorkers() }, "derivation workers started");
+  }
+  if (subaddressPoolSettings) {
+    app.log.info(subaddressPoolSettings, "subaddress pool started");
+  }
+
+  // Exchange rates for fiat-denominated requests (disabled unless PRICE_PROVIDER is set)
+  const rateProvider = await createRateProvider();
+  if (rateProvider) {
+    app.log.info(
+      { provider: rateProvider.name, currencies: rateProvider.currencies },
+      "fiat amounts enabled",
+    );
+  }
+
+  // Liveness: the process is up
+  app.get("/health", { schema: HealthRoute }, async () => ({ ok: true as const }));
+
+  // Readiness: database, migrations and master keys (see src/readiness.ts)
+  const expectedMigrations = loadExpectedMigrations();
+  app.get("/ready", { schema: ReadyRoute }, async (req, reply) => {
+    const report = await checkReadiness({
+      pool,
+      logger: req.log,
+      expectedMigrations,
+    });
+    return reply.code(report.ready ? 200 : 503).send(report);
+  });
 
   // PUBLIC METADATA (used by donation page on load)
   // Returns label + fingerprint
-  app.get("/api/paylinks/:id/meta", async (req, reply) => {
+  app.get("/api/paylinks/:id/meta", { schema: PaylinkMetaRoute }, async (req, reply) => {
     const startTime = Date.now();
 
-    const idResult = PaylinkIdSchema.safeParse((req.params as any)?.id);
+    const idResult = PaylinkIdSchema.safeParse(req.params.id);
     if (!idResult.success) {
       await ensureMinimumTime(startTime, null);
       return reply.code(404).send(PAYLINK_UNAVAILABLE_ERROR);
@@ -243,11 +1344,36 @@ async function main() {
     try {
       const r = await client.query<{
         label: string | null;
+        network: string;
+        account_index: number;
+        fixed_amount_atomic: string | null;
+        min_amount_atomic: string | null;
+        preset_amounts_atomic: string[];
+        pow_difficulty: number | null;
+        campaign_goal_atomic: string | null;
+        campaign_deadline: Date | null;
+        campaign_description: string | null;
+        campaign_reported_atomic: string;
         active: boolean;
         deleted_at: string | null;
+        available: boolean;
       }>(
         `
-      SELECT label, active, deleted_at
+      SELECT
+        label,
+        network,
+        account_index,
+        fixed_amount_atomic,
+        min_amount_atomic,
+        preset_amounts_atomic::text[] AS preset_amounts_atomic,
+        pow_difficulty,
+        campaign_goal_atomic,
+        campaign_deadline,
+        campaign_description,
+        campaign_reported_atomic,
+        active,
+        deleted_at,
+        (${PAYLINK_SCHEDULE_OK_SQL}) AS available
       FROM paylinks
       WHERE id = $1
       LIMIT 1
@@ -255,8 +1381,14 @@ async function main() {
         [id],
       );
 
-      // Same response for not found, inactive, or deleted - no info leakage
-      if (r.rowCount !== 1 || !r.rows[0]!.active || r.rows[0]!.deleted_at) {
+      // Same response for not found, inactive, deleted, not started,
+      // expired or capped - no info leakage
+      if (
+        r.rowCount !== 1 ||
+        !r.rows[0]!.active ||
+        r.rows[0]!.deleted_at ||
+        !r.rows[0]!.available
+      ) {
         await ensureMinimumTime(startTime, null);
         return reply.code(404).send(PAYLINK_UNAVAILABLE_ERROR);
       }
@@ -268,6 +1400,11 @@ async function main() {
         paylinkId: id,
         label: row.label ?? "",
         fingerprint,
+        network: row.network,
+        accountIndex: row.account_index,
+        ...formatAmountPolicy(amountPolicyFromRow(row)),
+        powRequired: row.pow_difficulty !== null,
+        campaign: formatCampaign(campaignFromRow(row)),
       });
     } catch (err) {
       req.log.error({ err }, "paylink meta failed");
@@ -277,17 +1414,89 @@ async function main() {
     }
   });
 
-  // CREATE (always creates a new paylink)
-  app.post("/api/paylinks", async (req, reply) => {
-    const parsed = CreatePaylinkSchema.safeParse(req.body);
-    if (!parsed.success) {
-      return reply
-        .code(400)
-        .send({ error: "invalid_request", details: parsed.error.flatten() });
-    }
+  // PUBLIC CAMPAIGN PROGRESS (coarse buckets only, see src/campaigns.ts)
+  app.get(
+    "/api/paylinks/:id/progress",
+    { schema: CampaignProgressRoute },
+    async (req, reply) => {
+      const startTime = Date.now();
+
+      const idResult = PaylinkIdSchema.safeParse(req.params.id);
+      if (!idResult.success) {
+        await ensureMinimumTime(startTime, null);
+        return reply.code(404).send(PAYLINK_UNAVAILABLE_ERROR);
+      }
+      const id = idResult.data;
+
+      const client = await pool.connect();
+      try {
+        const r = await client.query<{
+          campaign_goal_atomic: string | null;
+          campaign_deadline: Date | null;
+          campaign_description: string | null;
+          campaign_reported_atomic: string;
+          active: boolean;
+          deleted_at: string | null;
+          available: boolean;
+        }>(
+          `
+        SELECT
+          campaign_goal_atomic,
+          campaign_deadline,
+          campaign_description,
+          campaign_reported_atomic,
+          active,
+          deleted_at,
+          (${PAYLINK_SCHEDULE_OK_SQL}) AS available
+        FROM paylinks
+        WHERE id = $1
+        LIMIT 1
+        `,
+          [id],
+        );
+
+        // Same response as /meta for not found, inactive, deleted, not
+        // started, expired or capped
+        if (
+          r.rowCount !== 1 ||
+          !r.rows[0]!.active ||
+          r.rows[0]!.deleted_at ||
+          !r.rows[0]!.available
+        ) {
+          await ensureMinimumTime(startTime, null);
+          return reply.code(404).send(PAYLINK_UNAVAILABLE_ERROR);
+        }
+
+        const campaign = campaignFromRow(r.rows[0]!);
+        if (!campaign) {
+          return reply.code(404).send(NO_CAMPAIGN_ERROR);
+        }
+
+        const raised = await campaignRaised(client, id, campaign, minConfirmations);
+        const progress = bucketProgress(raised, campaign.goal);
+
+        return reply.code(200).send({
+          paylinkId: id,
+          ...formatCampaign(campaign)!,
+          raisedAmount: formatXmr(progress.raised),
+          percent: progress.percent,
+          stepPercent: PROGRESS_STEP_PERCENT,
+          ended: campaignEnded(campaign),
+          detectionEnabled: paymentBackend !== null,
+        });
+      } catch (err) {
+        req.log.error({ err }, "campaign progress failed");
+        return reply.code(500).send({ error: "internal_error" });
+      } finally {
+        client.release();
+      }
+    },
+  );
 
-    const { publicAddress, privateViewKey } = parsed.data;
-    const options = parsed.data.options ?? {};
+  // CREATE (always creates a new paylink)
+  app.post("/api/paylinks", { schema: CreatePaylinkRoute }, async (req, reply) => {
+    const { publicAddress, privateViewKey } = req.body;
+    const options = req.body.options ?? {};
 
     const rawLabel =
       typeof options.label === "string"
@@ -296,19 +1505,19 @@ async function main() {
 
     const label = rawLabel.length > 0 ? rawLabel : null;
 
-    // Random-only
-    const genModeRaw = String(options.genMode ?? "random").toLowerCase();
-    if (genModeRaw === "sequential") {
+    const genMode: GenMode = options.genMode ?? "random";
+
+    if (genMode !== "sequential" && options.onExhausted !== undefined) {
       return reply.code(400).send({
         error: "invalid_request",
         details: {
           options: {
-            genMode: ["'sequential' is not supported. Use 'random'."],
+            onExhausted: ["onExhausted only applies to genMode 'sequential'"],
           },
         },
       });
     }
-    const genMode: "random" = "random";
+    const exhaustionPolicy: ExhaustionPolicy = options.onExhausted ?? "refuse";
 
     const minIndexRaw = Number.isFinite(options.minIndex as any)
       ? Math.trunc(Number(options.minIndex))
@@ -349,6 +1558,65 @@ async function main() {
       });
     }
 
+    const accountIndex = options.accountIndex ?? 0;
+    if (accountIndex > MAX_ACCOUNT_INDEX) {
+      return reply.code(400).send({
+        error: "invalid_request",
+        details: {
+          options: {
+            accountIndex: [
+              `accountIndex must be between 0 and ${MAX_ACCOUNT_INDEX}`,
+            ],
+          },
+        },
+      });
+    }
+
+    const startsAt = options.startsAt ? new Date(options.startsAt) : null;
+    const expiresAt = options.expiresAt ? new Date(options.expiresAt) : null;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      return reply.code(400).send({
+        error: "invalid_request",
+        details: {
+          options: { expiresAt: ["expiresAt must be in the future"] },
+        },
+      });
+    }
+    if (startsAt && expiresAt && startsAt.getTime() >= expiresAt.getTime()) {
+      return reply.code(400).send({
+        error: "invalid_request",
+        details: {
+          options: { startsAt: ["startsAt must be before expiresAt"] },
+        },
+      });
+    }
+    const maxRequests = options.maxRequests ?? null;
+    const powDifficulty = options.powDifficulty ?? null;
+
+    const campaignResult = parseCampaignOptions(options.campaign);
+    if (!campaignResult.ok) {
+      return reply.code(400).send({
+        error: "invalid_request",
+        details: { options: { campaign: [campaignResult.message] } },
+      });
+    }
+    const campaign = campaignResult.campaign;
+
+    const amountPolicyResult = buildAmountPolicy({
+      fixed: options.fixedAmount ? parseXmr(options.fixedAmount) : null,
+      min: options.minAmount ? parseXmr(options.minAmount) : null,
+      presets: (options.presetAmounts ?? []).map(parseXmr),
+    });
+    if (!amountPolicyResult.ok) {
+      return reply.code(400).send({
+        error: "invalid_request",
+        details: {
+          options: { [amountPolicyResult.field]: [amountPolicyResult.message] },
+        },
+      });
+    }
+    const amountPolicy = amountPolicyResult.policy;
+
     // Canonicalized + clamped
     const { lo, hi } = normalizeRange(
       minIndexRaw,
@@ -359,16 +1627,43 @@ async function main() {
     const minIndex = clampIndex(lo);
     const maxIndex = clampIndex(hi);
 
+    let decoded: DecodedMoneroAddress;
+    try {
+      decoded = decodeStandardAddress(publicAddress);
+    } catch (err) {
+      if (err instanceof AddressValidationError) {
+        return reply.code(400).send({
+          error: "invalid_request",
+          code: err.code,
+          details: { publicAddress: [err.message] },
+        });
+      }
+      throw err;
+    }
+
+    if (!isValidPrivateKey(privateViewKey)) {
+      return reply.code(400).send({
+        error: "invalid_request",
+        details: {
+          privateViewKey: ["privateViewKey is not a valid (reduced) scalar"],
+        },
+      });
+    }
+
+    // A key that doesn't belong to the address would give a working-looking
+    // link whose payments the owner's wallet never sees
+    if (!privateViewKeyMatches(privateViewKey, decoded.publicViewKeyHex)) {
+      return reply.code(400).send(VIEW_KEY_MISMATCH_ERROR);
+    }
+
     // Compute preview so the user can sanity-check in their wallet UI
     let addressPreview: string | null = null;
 
     try {
-      const decoded = decodeStandardAddress(publicAddress);
-
       const addrAtMin = subaddress.getSubaddress(
         privateViewKey,
         decoded.publicSpendKeyHex,
-        0,
+        accountIndex,
         minIndex,
       );
 
@@ -376,11 +1671,12 @@ async function main() {
     } catch {
       return reply.code(400).send({
         error: "invalid_request",
-        details: { publicAddress: ["Invalid Monero primary address."] },
+        details: { privateViewKey: ["Could not derive a subaddress."] },
       });
     }
 
-    const { ciphertextB64, nonceB64 } = encryptViewKey(privateViewKey);
+    const { ciphertextB64, nonceB64, keyVersion } =
+      encryptViewKey(privateViewKey);
 
     const ownerKey = computeOwnerKey(publicAddress, privateViewKey);
 
@@ -395,12 +1691,26 @@ async function main() {
           public_address,
           encrypted_view_key,
           encryption_nonce,
+          key_version,
           gen_mode,
           min_index,
           max_index,
-          owner_key
+          owner_key,
+          network,
+          exhaustion_policy,
+          account_index,
+          starts_at,
+          expires_at,
+          max_requests,
+          fixed_amount_atomic,
+          min_amount_atomic,
+          preset_amounts_atomic,
+          pow_difficulty,
+          campaign_goal_atomic,
+          campaign_deadline,
+          campaign_description
         )
-        VALUES ($1,$2,$3,$4,$5,$6,$7,$8)
+        VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$19,$20,$21,$22)
         RETURNING id
         `,
         [
@@ -408,10 +1718,24 @@ async function main() {
           publicAddress,
           ciphertextB64,
           nonceB64,
+          keyVersion,
           genMode,
           minIndex,
           maxIndex,
           ownerKey,
+          decoded.network,
+          exhaustionPolicy,
+          accountIndex,
+          startsAt,
+          expiresAt,
+          maxRequests,
+          amountPolicy.fixed?.toString() ?? null,
+          amountPolicy.min?.toString() ?? null,
+          amountPolicy.presets.map((a) => a.toString()),
+          powDifficulty,
+          campaign?.goal.toString() ?? null,
+          campaign?.deadline ?? null,
+          campaign?.description ?? null,
         ],
       );
 
@@ -419,11 +1743,10 @@ async function main() {
       if (!id) throw new Error("Failed to create paylink");
 
       await client.query("COMMIT");
+      subaddressPool?.requestRefill(id);
 
       const donateUrl = `${getDonateBaseUrl()}${id}`;
-      const embedHtml =
-        `<!-- Anonomi Paylinks -->\n` +
-        `<a href="${donateUrl}" rel="nofollow noopener" target="_blank">Donate XMR</a>\n`;
+      const embeds = buildEmbeds(donateUrl, label, embedOptions(req.body.embed));
 
       const fingerprint = computePaylinkFingerprint(id);
 
@@ -431,12 +1754,22 @@ async function main() {
         id,
         label,
         donateUrl,
-        embedHtml,
+        embedHtml: embeds.html,
+        embeds,
         fingerprint,
         genMode,
+        ...(genMode === "sequential" ? { onExhausted: exhaustionPolicy } : {}),
         minIndex,
         maxIndex,
+        accountIndex,
+        startsAt: startsAt?.toISOString() ?? null,
+        expiresAt: expiresAt?.toISOString() ?? null,
+        maxRequests,
+        ...formatAmountPolicy(amountPolicy),
+        powDifficulty,
+        campaign: formatOwnerCampaign(campaign),
         addressPreview,
+        network: decoded.network,
       });
     } catch (err) {
       await client.query("ROLLBACK");
@@ -447,41 +1780,36 @@ async function main() {
     }
   });
 
-  // DELETE ONE (hard delete by id + ownerKey)
-  app.post("/api/paylinks/:id/delete", async (req, reply) => {
+  // DELETE ONE (hard delete by id + ownerKey or owner signature)
+  app.post("/api/paylinks/:id/delete", { schema: DeletePaylinkRoute }, async (req, reply) => {
     const startTime = Date.now();
 
-    const idResult = PaylinkIdSchema.safeParse((req.params as any)?.id);
+    const idResult = PaylinkIdSchema.safeParse(req.params.id);
     if (!idResult.success) {
       await ensureMinimumTime(startTime, null);
       // Same response as success - no info leakage about ID validity
       return reply.code(200).send({
         ok: true,
-        message: genericDeleteMessageSingle((req.params as any)?.id ?? ""),
+        message: genericDeleteMessageSingle(req.params.id),
       });
     }
     const id = idResult.data;
 
-    const parsed = DeleteByOwnerKeySchema.safeParse(req.body);
-    if (!parsed.success) {
-      return reply
-        .code(400)
-        .send({ error: "invalid_request", details: parsed.error.flatten() });
-    }
-
-    const { ownerKey } = parsed.data;
-
     const client = await pool.connect();
     try {
+      const scope = await resolveOwnerScope(client, req.body);
+      const values: unknown[] = [id];
+      const ownerCondition = ownerScopeCondition(scope, values);
+
       await client.query("BEGIN");
 
       // Only deletes if BOTH match.
       await client.query(
         `
       DELETE FROM paylinks
-      WHERE id = $1 AND owner_key = $2
+      WHERE id = $1 AND ${ownerCondition}
       `,
-        [id, ownerKey],
+        values,
       );
 
       await client.query("COMMIT");
@@ -504,28 +1832,23 @@ async function main() {
     }
   });
 
-  app.post("/api/paylinks/delete", async (req, reply) => {
+  app.post("/api/paylinks/delete", { schema: DeletePaylinksRoute }, async (req, reply) => {
     const startTime = Date.now();
 
-    const parsed = DeleteByOwnerKeySchema.safeParse(req.body);
-    if (!parsed.success) {
-      return reply
-        .code(400)
-        .send({ error: "invalid_request", details: parsed.error.flatten() });
-    }
-
-    const { ownerKey } = parsed.data;
-
     const client = await pool.connect();
     try {
+      const scope = await resolveOwnerScope(client, req.body);
+      const values: unknown[] = [];
+      const ownerCondition = ownerScopeCondition(scope, values);
+
       await client.query("BEGIN");
 
       await client.query(
         `
       DELETE FROM paylinks
-      WHERE owner_key = $1
+      WHERE ${ownerCondition}
       `,
-        [ownerKey],
+        values,
       );
 
       await client.query("COMMIT");
@@ -545,117 +1868,1790 @@ async function main() {
     }
   });
 
-  // Donor requests a payment payload (random index each time)
-  app.post("/api/paylinks/:id/request", async (req, reply) => {
+  // OWNER CHALLENGE (nonce to sign with the wallet's spend key)
+  app.post("/api/paylinks/challenge", { schema: OwnerChallengeRoute }, async (req, reply) => {
+    const { publicAddress } = req.body;
+
+    try {
+      decodeStandardAddress(publicAddress);
+    } catch (err) {
+      if (err instanceof AddressValidationError) {
+        return reply.code(400).send({
+          error: "invalid_request",
+          code: err.code,
+          details: { publicAddress: [err.message] },
+        });
+      }
+      throw err;
+    }
+
+    const client = await pool.connect();
+    try {
+      const challenge = await createOwnerChallenge(client, publicAddress);
+
+      return reply.code(200).send({
+        nonce: challenge.nonce,
+        message: challenge.message,
+        expiresAt: challenge.expiresAt.toISOString(),
+      });
+    } catch (err) {
+      req.log.error({ err }, "owner challenge failed");
+      return reply.code(500).send({ error: "internal_error" });
+    } finally {
+      client.release();
+    }
+  });
+
+  // ENABLE/DISABLE ownerKey auth for all of an address's paylinks
+  // (signature only, so a leaked ownerKey can be revoked)
+  app.post("/api/paylinks/owner-key", { schema: SetOwnerKeyEnabledRoute }, async (req, reply) => {
     const startTime = Date.now();
 
-    const idResult = PaylinkIdSchema.safeParse((req.params as any)?.id);
-    if (!idResult.success) {
+    const { enabled } = req.body;
+
+    const client = await pool.connect();
+    try {
+      const scope = await resolveOwnerScope(client, {
+        ownerSignature: req.body.ownerSignature,
+      });
+      const values: unknown[] = [!enabled];
+      const ownerCondition = ownerScopeCondition(scope, values);
+
+      await client.query("BEGIN");
+
+      await client.query(
+        `
+      UPDATE paylinks
+      SET owner_key_disabled = $1
+      WHERE ${ownerCondition}
+      `,
+        values,
+      );
+
+      await client.query("COMMIT");
+
       await ensureMinimumTime(startTime, null);
-      return reply.code(404).send(PAYLINK_UNAVAILABLE_ERROR);
+
+      return reply.code(200).send({
+        ok: true,
+        message: enabled
+          ? "If the signature was valid, ownerKey access was enabled for all paylinks of this address."
+          : "If the signature was valid, ownerKey access was disabled for all paylinks of this address.",
+      });
+    } catch (err) {
+      await client.query("ROLLBACK");
+      req.log.error({ err }, "set owner key access failed");
+      return reply.code(500).send({ error: "internal_error" });
+    } finally {
+      client.release();
     }
-    const id = idResult.data;
+  });
 
-    const parsed = RequestDonationSchema.safeParse(req.body);
-    if (!parsed.success) {
-      return reply
-        .code(400)
-        .send({ error: "invalid_request", details: parsed.error.flatten() });
+  // LIST (all paylinks for an owner proof; empty list if none match)
+  app.post("/api/paylinks/list", { schema: ListPaylinksRoute }, async (req, reply) => {
+    const startTime = Date.now();
+
+    const client = await pool.connect();
+    try {
+      const scope = await resolveOwnerScope(client, req.body);
+      const values: unknown[] = [];
+      const ownerCondition = ownerScopeCondition(scope, values);
+
+      const r = await client.query<{
+        id: string;
+        label: string | null;
+        network: string;
+        gen_mode: GenMode;
+        exhaustion_policy: ExhaustionPolicy;
+        min_index: number;
+        max_index: number;
+        account_index: number;
+        active: boolean;
+        starts_at: Date | null;
+        expires_at: Date | null;
+        max_requests: number | null;
+        request_count: number;
+        fixed_amount_atomic: string | null;
+        min_amount_atomic: string | null;
+        preset_amounts_atomic: string[];
+        pow_difficulty: number | null;
+        campaign_goal_atomic: string | null;
+        campaign_deadline: Date | null;
+        campaign_description: string | null;
+        campaign_reported_atomic: string;
+        created_at: Date;
+      }>(
+        `
+      SELECT
+        id,
+        label,
+        network,
+        gen_mode,
+        exhaustion_policy,
+        min_index,
+        max_index,
+        account_index,
+        active,
+        starts_at,
+        expires_at,
+        max_requests,
+        request_count,
+        fixed_amount_atomic,
+        min_amount_atomic,
+        preset_amounts_atomic::text[] AS preset_amounts_atomic,
+        pow_difficulty,
+        campaign_goal_atomic,
+        campaign_deadline,
+        campaign_description,
+        campaign_reported_atomic,
+        created_at
+      FROM paylinks
+      WHERE ${ownerCondition} AND deleted_at IS NULL
+      ORDER BY created_at
+      `,
+        values,
+      );
+
+      const donateBaseUrl = getDonateBaseUrl();
+      const paylinks = r.rows.map((row) => ({
+        id: row.id,
+        label: row.label,
+        donateUrl: `${donateBaseUrl}${row.id}`,
+        fingerprint: computePaylinkFingerprint(row.id),
+        network: row.network,
+        genMode: row.gen_mode,
+        ...(row.gen_mode === "sequential"
+          ? { onExhausted: row.exhaustion_policy }
+          : {}),
+        minIndex: row.min_index,
+        maxIndex: row.max_index,
+        accountIndex: row.account_index,
+        active: row.active,
+        startsAt: row.starts_at?.toISOString() ?? null,
+        expiresAt: row.expires_at?.toISOString() ?? null,
+        maxRequests: row.max_requests,
+        requestCount: row.request_count,
+        ...formatAmountPolicy(amountPolicyFromRow(row)),
+        powDifficulty: row.pow_difficulty,
+        campaign: formatOwnerCampaign(campaignFromRow(row)),
+        createdAt: row.created_at.toISOString(),
+      }));
+
+      // Same timing whether the ownerKey matched anything or not
+      await ensureMinimumTime(startTime, null);
+
+      return reply.code(200).send({ paylinks });
+    } catch (err) {
+      req.log.error({ err }, "list paylinks failed");
+      return reply.code(500).send({ error: "internal_error" });
+    } finally {
+      client.release();
     }
+  });
 
-    const { amount, description } = parsed.data;
+  // EXPORT (all of an owner's paylinks, encrypted to the wallet's view key)
+  app.post("/api/paylinks/export", { schema: ExportPaylinksRoute }, async (req, reply) => {
+    const startTime = Date.now();
 
     const client = await pool.connect();
     try {
-      const paylinkRes = await client.query<{
-        label: string;
+      const scope = await resolveOwnerScope(client, req.body);
+      const values: unknown[] = [];
+      const ownerCondition = ownerScopeCondition(scope, values);
+
+      let afterCondition = "";
+      if (req.body.after !== undefined) {
+        values.push(req.body.after);
+        afterCondition = `AND (created_at, id) > (
+          SELECT created_at, id FROM paylinks WHERE id = $${values.length}
+        )`;
+      }
+
+      const r = await client.query<{
+        id: string;
+        label: string | null;
         public_address: string;
         encrypted_view_key: string;
         encryption_nonce: string;
-        active: boolean;
-        deleted_at: string | null;
-        gen_mode: string;
+        key_version: number;
+        network: "mainnet" | "stagenet" | "testnet";
+        gen_mode: GenMode;
+        exhaustion_policy: ExhaustionPolicy;
         min_index: number;
         max_index: number;
+        next_index: number | null;
+        account_index: number;
+        active: boolean;
+        owner_key_disabled: boolean;
+        starts_at: Date | null;
+        expires_at: Date | null;
+        max_requests: number | null;
+        request_count: number;
+        fixed_amount_atomic: string | null;
+        min_amount_atomic: string | null;
+        preset_amounts_atomic: string[];
+        pow_difficulty: number | null;
+        campaign_goal_atomic: string | null;
+        campaign_deadline: Date | null;
+        campaign_description: string | null;
+        campaign_reported_atomic: string;
+        created_at: Date;
       }>(
         `
-        SELECT
-          label,
-          public_address,
-          encrypted_view_key,
-          encryption_nonce,
-          active,
-          deleted_at,
-          gen_mode,
-          min_index,
-          max_index
-        FROM paylinks
-        WHERE id = $1
-        LIMIT 1
-        `,
-        [id],
+      SELECT
+        id,
+        label,
+        public_address,
+        encrypted_view_key,
+        encryption_nonce,
+        key_version,
+        network,
+        gen_mode,
+        exhaustion_policy,
+        min_index,
+        max_index,
+        next_index,
+        account_index,
+        active,
+        owner_key_disabled,
+        starts_at,
+        expires_at,
+        max_requests,
+        request_count,
+        fixed_amount_atomic,
+        min_amount_atomic,
+        preset_amounts_atomic::text[] AS preset_amounts_atomic,
+        pow_difficulty,
+        campaign_goal_atomic,
+        campaign_deadline,
+        campaign_description,
+        campaign_reported_atomic,
+        created_at
+      FROM paylinks
+      WHERE ${ownerCondition} AND deleted_at IS NULL ${afterCondition}
+      ORDER BY created_at, id
+      LIMIT ${MAX_IMPORT_PAYLINKS + 1}
+      `,
+        values,
+      );
+
+      // Same timing whether the proof matched anything or not
+      await ensureMinimumTime(startTime, null);
+
+      const first = r.rows[0];
+      if (!first) {
+        return reply.code(404).send(NOTHING_TO_EXPORT_ERROR);
+      }
+
+      // Both proofs cover a single address, and every paylink of an
+      // address was created with its one view key
+      const publicAddress = first.public_address;
+      const privateViewKey = decryptViewKey(
+        first.encrypted_view_key,
+        first.encryption_nonce,
+        first.key_version,
+      );
+
+      // One row past the limit tells whether another file follows
+      const truncated = r.rows.length > MAX_IMPORT_PAYLINKS;
+      const rows = r.rows.slice(0, MAX_IMPORT_PAYLINKS);
+
+      const paylinks: ExportedPaylink[] = rows
+        .filter((row) => row.public_address === publicAddress)
+        .map((row) => ({
+          id: row.id,
+          label: row.label,
+          network: row.network,
+          genMode: row.gen_mode,
+          onExhausted: row.exhaustion_policy,
+          minIndex: row.min_index,
+          maxIndex: row.max_index,
+          nextIndex: row.next_index,
+          accountIndex: row.account_index,
+          active: row.active,
+          ownerKeyDisabled: row.owner_key_disabled,
+          startsAt: row.starts_at?.toISOString() ?? null,
+          expiresAt: row.expires_at?.toISOString() ?? null,
+          maxRequests: row.max_requests,
+          requestCount: row.request_count,
+          ...formatAmountPolicy(amountPolicyFromRow(row)),
+          powDifficulty: row.pow_difficulty,
+          campaign: formatOwnerCampaign(campaignFromRow(row)),
+          createdAt: row.created_at.toISOString(),
+        }));
+
+      const envelope = sealExport(
+        { publicAddress, exportedAt: new Date().toISOString(), paylinks },
+        publicAddress,
+        privateViewKey,
       );
 
-      // Same response for not found, inactive, or deleted - no info leakage
-      if (paylinkRes.rowCount !== 1 || !paylinkRes.rows[0]!.active || paylinkRes.rows[0]!.deleted_at) {
+      return reply
+        .code(200)
+        .header("Content-Disposition", 'attachment; filename="paylinks-export.json"')
+        .send({
+          ...envelope,
+          truncated,
+          next: truncated ? rows[rows.length - 1]!.id : null,
+        });
+    } catch (err) {
+      req.log.error({ err }, "export paylinks failed");
+      return reply.code(500).send({ error: "internal_error" });
+    } finally {
+      client.release();
+    }
+  });
+
+  // IMPORT (recreate exported paylinks with their original ids)
+  app.post(
+    "/api/paylinks/import",
+    { schema: ImportPaylinksRoute, bodyLimit: IMPORT_BODY_LIMIT },
+    async (req, reply) => {
+      const startTime = Date.now();
+
+      const { publicAddress, privateViewKey } = req.body;
+
+      let decoded: DecodedMoneroAddress;
+      try {
+        decoded = decodeStandardAddress(publicAddress);
+      } catch (err) {
+        if (err instanceof AddressValidationError) {
+          return reply.code(400).send({
+            error: "invalid_request",
+            code: err.code,
+            details: { publicAddress: [err.message] },
+          });
+        }
+        throw err;
+      }
+
+      if (!isValidPrivateKey(privateViewKey)) {
+        return reply.code(400).send({
+          error: "invalid_request",
+          details: {
+            privateViewKey: ["privateViewKey is not a valid (reduced) scalar"],
+          },
+        });
+      }
+      if (!privateViewKeyMatches(privateViewKey, decoded.publicViewKeyHex)) {
+        return reply.code(400).send(VIEW_KEY_MISMATCH_ERROR);
+      }
+
+      const opened = openExport(req.body.export, publicAddress, privateViewKey);
+      if (opened === null) {
+        return reply.code(400).send(EXPORT_UNREADABLE_ERROR);
+      }
+      const parsed = ExportPayloadSchema.safeParse(opened);
+      if (!parsed.success || parsed.data.publicAddress !== publicAddress) {
+        return reply.code(400).send(EXPORT_UNREADABLE_ERROR);
+      }
+
+      // Every link must fit the wallet and pass the same rules as create
+      const links: {
+        link: ExportedPaylink;
+        policy: AmountPolicy;
+      }[] = [];
+      for (const link of parsed.data.paylinks) {
+        const policy = buildAmountPolicy({
+          fixed: link.fixedAmount ? parseXmr(link.fixedAmount) : null,
+          min: link.minAmount ? parseXmr(link.minAmount) : null,
+          presets: link.presetAmounts.map(parseXmr),
+        });
+        if (
+          link.network !== decoded.network ||
+          link.minIndex > link.maxIndex ||
+          !policy.ok
+        ) {
+          return reply.code(400).send({
+            error: "invalid_request",
+            details: { export: [`paylink ${link.id} is not valid for this address`] },
+          });
+        }
+        links.push({ link, policy: policy.policy });
+      }
+
+      const { ciphertextB64, nonceB64, keyVersion } =
+        encryptViewKey(privateViewKey);
+      const ownerKey = computeOwnerKey(publicAddress, privateViewKey);
+
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+
+        const imported: string[] = [];
+
+        for (const { link, policy } of links) {
+          // An existing id (re-import, or taken on this instance) is left alone
+          const insertRes = await client.query<{ id: string }>(
+            `
+          INSERT INTO paylinks (
+            id,
+            label,
+            public_address,
+            encrypted_view_key,
+            encryption_nonce,
+            key_version,
+            gen_mode,
+            min_index,
+            max_index,
+            next_index,
+            owner_key,
+            owner_key_disabled,
+            network,
+            exhaustion_policy,
+            account_index,
+            active,
+            starts_at,
+            expires_at,
+            max_requests,
+            request_count,
+            fixed_amount_atomic,
+            min_amount_atomic,
+            preset_amounts_atomic,
+            pow_difficulty,
+            campaign_goal_atomic,
+            campaign_deadline,
+            campaign_description,
+            campaign_reported_atomic,
+            created_at
+          )
+          VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$19,$20,$21,$22,$23,$24,$25,$26,$27,$28,$29)
+          ON CONFLICT (id) DO NOTHING
+          RETURNING id
+          `,
+            [
+              link.id,
+              link.label,
+              publicAddress,
+              ciphertextB64,
+              nonceB64,
+              keyVersion,
+              link.genMode,
+              link.minIndex,
+              link.maxIndex,
+              link.nextIndex,
+              ownerKey,
+              link.ownerKeyDisabled,
+              decoded.network,
+              link.onExhausted,
+              link.accountIndex,
+              link.active,
+              link.startsAt ? new Date(link.startsAt) : null,
+              link.expiresAt ? new Date(link.expiresAt) : null,
+              link.maxRequests,
+              link.requestCount,
+              policy.fixed?.toString() ?? null,
+              policy.min?.toString() ?? null,
+              policy.presets.map((a) => a.toString()),
+              link.powDifficulty,
+              link.campaign ? parseXmr(link.campaign.goalAmount).toString() : null,
+              link.campaign?.deadline ? new Date(link.campaign.deadline) : null,
+              link.campaign?.description ?? null,
+              link.campaign ? parseXmr(link.campaign.reportedAmount).toString() : "0",
+              new Date(link.createdAt),
+            ],
+          );
+
+          if (insertRes.rowCount === 1) imported.push(link.id);
+        }
+
+        await client.query("COMMIT");
+        for (const id of imported) subaddressPool?.requestRefill(id);
+
         await ensureMinimumTime(startTime, null);
-        return reply.code(404).send(PAYLINK_UNAVAILABLE_ERROR);
+
+        return reply.code(200).send({
+          imported: imported.length,
+          skipped: links.length - imported.length,
+        });
+      } catch (err) {
+        await client.query("ROLLBACK");
+        req.log.error({ err }, "import paylinks failed");
+        return reply.code(500).send({ error: "internal_error" });
+      } finally {
+        client.release();
       }
+    },
+  );
 
-      const paylink = paylinkRes.rows[0]!;
+  // UPDATE ONE (label, index range, pause/resume by id + owner proof)
+  app.post("/api/paylinks/:id/update", { schema: UpdatePaylinkRoute }, async (req, reply) => {
+    const startTime = Date.now();
 
-      // DB enforces these, but clamp anyway
-      const safeLo = clampIndex(paylink.min_index);
-      const safeHi = clampIndex(paylink.max_index);
-      const lo = Math.min(safeLo, safeHi);
-      const hi = Math.max(safeLo, safeHi);
+    const idResult = PaylinkIdSchema.safeParse(req.params.id);
+    if (!idResult.success) {
+      await ensureMinimumTime(startTime, null);
+      // Same response as success - no info leakage about ID validity
+      return reply.code(200).send({
+        ok: true,
+        message: genericUpdateMessageSingle(req.params.id),
+      });
+    }
+    const id = idResult.data;
+
+    const { label, minIndex, maxIndex, active, powDifficulty, reportedAmount } =
+      req.body;
+
+    const campaignResult = parseCampaignOptions(req.body.campaign ?? undefined);
+    if (!campaignResult.ok) {
+      return reply.code(400).send({
+        error: "invalid_request",
+        details: { campaign: [campaignResult.message] },
+      });
+    }
 
-      const index = crypto.randomInt(lo, hi + 1);
+    const sets: string[] = [];
+    const values: unknown[] = [id];
+    const set = (column: string, value: unknown) => {
+      values.push(value);
+      sets.push(`${column} = $${values.length}`);
+    };
 
-      const viewKey = decryptViewKey(
-        paylink.encrypted_view_key,
-        paylink.encryption_nonce,
+    if (label !== undefined) {
+      const trimmed = (label ?? "").trim().slice(0, 80);
+      set("label", trimmed.length > 0 ? trimmed : null);
+    }
+    if (minIndex !== undefined && maxIndex !== undefined) {
+      // Validated by the schema; canonicalize like create
+      const { lo, hi } = normalizeRange(minIndex, maxIndex, minIndex, maxIndex);
+      set("min_index", clampIndex(lo));
+      const minParam = values.length;
+      set("max_index", clampIndex(hi));
+      const maxParam = values.length;
+      // Sequential links continue within the new range: a range above the
+      // next index starts at its minimum, one that ends below it counts as
+      // used up (its indices may have been handed out already)
+      sets.push(
+        `next_index = CASE WHEN next_index IS NOT NULL THEN ` +
+          `GREATEST(LEAST(next_index, $${maxParam}::int + 1), $${minParam}::int) END`,
       );
-      const decoded = decodeStandardAddress(paylink.public_address);
+    }
+    if (active !== undefined) {
+      set("active", active);
+    }
+    if (powDifficulty !== undefined) {
+      set("pow_difficulty", powDifficulty);
+    }
+    if (req.body.campaign === null) {
+      set("campaign_goal_atomic", null);
+      set("campaign_deadline", null);
+      set("campaign_description", null);
+      set("campaign_reported_atomic", "0");
+    } else if (campaignResult.campaign) {
+      const { goal, deadline, description } = campaignResult.campaign;
+      set("campaign_goal_atomic", goal.toString());
+      set("campaign_deadline", deadline);
+      set("campaign_description", description);
+    }
+    if (reportedAmount !== undefined && req.body.campaign !== null) {
+      set("campaign_reported_atomic", parseXmr(reportedAmount).toString());
+    }
 
-      const address = subaddress.getSubaddress(
-        viewKey,
-        decoded.publicSpendKeyHex,
-        0,
-        index,
+    const client = await pool.connect();
+    try {
+      const scope = await resolveOwnerScope(client, req.body);
+      const ownerCondition = ownerScopeCondition(scope, values);
+
+      await client.query("BEGIN");
+
+      // Only updates if BOTH match.
+      await client.query(
+        `
+      UPDATE paylinks
+      SET ${sets.join(", ")}
+      WHERE id = $1 AND ${ownerCondition} AND deleted_at IS NULL
+      `,
+        values,
       );
 
-      const uri = buildMoneroUri({
-        address,
-        amount: amount || undefined,
-        description: description || undefined,
-      });
+      await client.query("COMMIT");
+      // The range may have changed or the paylink resumed
+      subaddressPool?.requestRefill(id);
 
-      const fingerprint = computePaylinkFingerprint(id);
+      await ensureMinimumTime(startTime, null);
 
+      // Always 200, never indicates if it existed or matched
       return reply.code(200).send({
-        paylinkId: id,
-        label: paylink.label ?? "",
-        address,
-        amount: amount ?? "",
-        description,
-        uri,
-        fingerprint,
+        ok: true,
+        message: genericUpdateMessageSingle(id),
       });
     } catch (err) {
-      req.log.error({ err }, "request donation failed");
+      await client.query("ROLLBACK");
+      req.log.error({ err }, "update paylink failed");
       return reply.code(500).send({ error: "internal_error" });
     } finally {
       client.release();
     }
   });
 
-  const port = Number(process.env.PORT ?? 8787);
-  const host = process.env.HOST ?? "0.0.0.0";
-  await app.listen({ port, host });
-}
+  // EMBEDS: snippets for an existing paylink in any theme (owner proof)
+  app.post("/api/paylinks/:id/embeds", { schema: PaylinkEmbedsRoute }, async (req, reply) => {
+    const startTime = Date.now();
 
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
+    const idResult = PaylinkIdSchema.safeParse(req.params.id);
+    if (!idResult.success) {
+      await ensureMinimumTime(startTime, null);
+      return reply.code(404).send(PAYLINK_UNAVAILABLE_ERROR);
+    }
+    const id = idResult.data;
+
+    const client = await pool.connect();
+    try {
+      const scope = await resolveOwnerScope(client, req.body);
+      const values: unknown[] = [id];
+      const ownerCondition = ownerScopeCondition(scope, values);
+
+      const r = await client.query<{ label: string | null }>(
+        `
+      SELECT label
+      FROM paylinks
+      WHERE id = $1 AND ${ownerCondition} AND deleted_at IS NULL
+      `,
+        values,
+      );
+
+      // Same response for not found and not owned
+      if (r.rowCount !== 1) {
+        await ensureMinimumTime(startTime, null);
+        return reply.code(404).send(PAYLINK_UNAVAILABLE_ERROR);
+      }
+
+      const donateUrl = `${getDonateBaseUrl()}${id}`;
+
+      await ensureMinimumTime(startTime, null);
+
+      return reply.code(200).send({
+        paylinkId: id,
+        donateUrl,
+        embeds: buildEmbeds(donateUrl, r.rows[0]!.label, embedOptions(req.body)),
+      });
+    } catch (err) {
+      req.log.error({ err }, "paylink embeds failed");
+      return reply.code(500).send({ error: "internal_error" });
+    } finally {
+      client.release();
+    }
+  });
+
+  // oEmbed (https://oembed.com) for donation page URLs
+  app.get("/oembed", { schema: OEmbedRoute }, async (req, reply) => {
+    const startTime = Date.now();
+
+    const { url, maxwidth, maxheight } = req.query;
+
+    // Only JSON is supported; the spec asks for 501 otherwise
+    if (req.query.format !== undefined && req.query.format !== "json") {
+      return reply.code(501).send({ error: "format_not_supported" });
+    }
+
+    const donateBaseUrl = getDonateBaseUrl();
+    const idResult = PaylinkIdSchema.safeParse(
+      url.startsWith(donateBaseUrl) ? url.slice(donateBaseUrl.length) : "",
+    );
+    if (!idResult.success) {
+      await ensureMinimumTime(startTime, null);
+      return reply.code(404).send(PAYLINK_UNAVAILABLE_ERROR);
+    }
+    const id = idResult.data;
+
+    const client = await pool.connect();
+    try {
+      const r = await client.query<{ label: string | null }>(
+        `
+      SELECT label
+      FROM paylinks
+      WHERE id = $1
+        AND active
+        AND deleted_at IS NULL
+        AND ${PAYLINK_SCHEDULE_OK_SQL}
+      `,
+        [id],
+      );
+
+      // Same response as /meta for anything that isn't available
+      if (r.rowCount !== 1) {
+        await ensureMinimumTime(startTime, null);
+        return reply.code(404).send(PAYLINK_UNAVAILABLE_ERROR);
+      }
+
+      const label = r.rows[0]!.label;
+      const title = label
+        ? `${DEFAULT_EMBED_OPTIONS.buttonText}: ${label}`
+        : DEFAULT_EMBED_OPTIONS.buttonText;
+
+      // Scale the default frame down to fit maxwidth/maxheight
+      const frame = IFRAME_SIZES[DEFAULT_EMBED_OPTIONS.size];
+      const scale = Math.min(
+        1,
+        (maxwidth ?? frame.width) / frame.width,
+        (maxheight ?? frame.height) / frame.height,
+      );
+      const width = Math.floor(frame.width * scale);
+      const height = Math.floor(frame.height * scale);
+
+      const donateUrl = `${donateBaseUrl}${id}`;
+
+      return reply.code(200).send({
+        version: "1.0",
+        type: "rich",
+        provider_name: "Anonomi Paylinks",
+        title,
+        html: buildIframe(donateUrl, title, width, height),
+        width,
+        height,
+        cache_age: 3600,
+      });
+    } catch (err) {
+      req.log.error({ err }, "oembed failed");
+      return reply.code(500).send({ error: "internal_error" });
+    } finally {
+      client.release();
+    }
+  });
+
+  // WEBHOOKS: register an endpoint for paylink events (owner proof)
+  // The signing secret is only ever returned here.
+  app.post("/api/paylinks/:id/webhooks", { schema: CreateWebhookRoute }, async (req, reply) => {
+    const startTime = Date.now();
+
+    const idResult = PaylinkIdSchema.safeParse(req.params.id);
+    if (!idResult.success) {
+      await ensureMinimumTime(startTime, null);
+      return reply.code(404).send(PAYLINK_UNAVAILABLE_ERROR);
+    }
+    const id = idResult.data;
+
+    const { url } = req.body;
+    const events = [...new Set(req.body.events ?? WEBHOOK_EVENT_TYPES)];
+
+    const urlError = checkWebhookUrl(url, webhooksAllowInsecure());
+    if (urlError) {
+      return reply
+        .code(400)
+        .send({ error: "invalid_request", details: { url: [urlError] } });
+    }
+
+    const client = await pool.connect();
+    try {
+      const scope = await resolveOwnerScope(client, req.body);
+      const values: unknown[] = [id];
+      const ownerCondition = ownerScopeCondition(scope, values);
+
+      await client.query("BEGIN");
+
+      // Lock the paylink so concurrent registrations can't exceed the limit
+      const paylinkRes = await client.query(
+        `
+      SELECT id
+      FROM paylinks
+      WHERE id = $1 AND ${ownerCondition} AND deleted_at IS NULL
+      FOR UPDATE
+      `,
+        values,
+      );
+
+      // Same response for not found and not owned
+      if (paylinkRes.rowCount !== 1) {
+        await client.query("ROLLBACK");
+        await ensureMinimumTime(startTime, null);
+        return reply.code(404).send(PAYLINK_UNAVAILABLE_ERROR);
+      }
+
+      const countRes = await client.query<{ count: string }>(
+        `SELECT count(*) AS count FROM webhooks WHERE paylink_id = $1`,
+        [id],
+      );
+      if (Number(countRes.rows[0]?.count ?? 0) >= MAX_WEBHOOKS_PER_PAYLINK) {
+        await client.query("ROLLBACK");
+        await ensureMinimumTime(startTime, null);
+        return reply.code(409).send(WEBHOOK_LIMIT_ERROR);
+      }
+
+      const secret = crypto.randomBytes(32).toString("hex");
+      const { ciphertextB64, nonceB64, keyVersion } = encryptSecret(secret);
+
+      const webhookRes = await client.query<{ id: string; created_at: Date }>(
+        `
+      INSERT INTO webhooks (
+        paylink_id,
+        url,
+        events,
+        encrypted_secret,
+        secret_nonce,
+        key_version
+      )
+      VALUES ($1,$2,$3,$4,$5,$6)
+      RETURNING id, created_at
+      `,
+        [id, url, events, ciphertextB64, nonceB64, keyVersion],
+      );
+
+      await client.query("COMMIT");
+
+      const webhook = webhookRes.rows[0]!;
+
+      await ensureMinimumTime(startTime, null);
+
+      return reply.code(201).send({
+        webhookId: webhook.id,
+        paylinkId: id,
+        url,
+        events,
+        secret,
+        createdAt: webhook.created_at.toISOString(),
+      });
+    } catch (err) {
+      await client.query("ROLLBACK");
+      req.log.error({ err }, "create webhook failed");
+      return reply.code(500).send({ error: "internal_error" });
+    } finally {
+      client.release();
+    }
+  });
+
+  // WEBHOOKS: list a paylink's endpoints (never the secrets)
+  app.post("/api/paylinks/:id/webhooks/list", { schema: ListWebhooksRoute }, async (req, reply) => {
+    const startTime = Date.now();
+
+    const idResult = PaylinkIdSchema.safeParse(req.params.id);
+    if (!idResult.success) {
+      await ensureMinimumTime(startTime, null);
+      return reply.code(200).send({ webhooks: [] });
+    }
+    const id = idResult.data;
+
+    const client = await pool.connect();
+    try {
+      const scope = await resolveOwnerScope(client, req.body);
+      const values: unknown[] = [id];
+      const ownerCondition = ownerScopeCondition(scope, values);
+
+      const r = await client.query<{
+        id: string;
+        url: string;
+        events: WebhookEventType[];
+        created_at: Date;
+        pending: string;
+        dead: string;
+      }>(
+        `
+      SELECT
+        w.id,
+        w.url,
+        w.events,
+        w.created_at,
+        count(d.id) FILTER (WHERE d.status = 'pending') AS pending,
+        count(d.id) FILTER (WHERE d.status = 'dead') AS dead
+      FROM webhooks w
+      JOIN paylinks p ON p.id = w.paylink_id
+      LEFT JOIN webhook_deliveries d ON d.webhook_id = w.id
+      WHERE p.id = $1 AND ${ownerCondition} AND p.deleted_at IS NULL
+      GROUP BY w.id
+      ORDER BY w.created_at
+      `,
+        values,
+      );
+
+      const webhooks = r.rows.map((row) => ({
+        id: row.id,
+        url: row.url,
+        events: row.events,
+        pendingDeliveries: Number(row.pending),
+        deadDeliveries: Number(row.dead),
+        createdAt: row.created_at.toISOString(),
+      }));
+
+      await ensureMinimumTime(startTime, null);
+
+      return reply.code(200).send({ webhooks });
+    } catch (err) {
+      req.log.error({ err }, "list webhooks failed");
+      return reply.code(500).send({ error: "internal_error" });
+    } finally {
+      client.release();
+    }
+  });
+
+  // WEBHOOKS: remove an endpoint and its queued deliveries
+  app.post("/api/paylinks/:id/webhooks/:webhookId/delete", { schema: DeleteWebhookRoute }, async (req, reply) => {
+    const startTime = Date.now();
+
+    const { params } = req;
+    const idResult = PaylinkIdSchema.safeParse(params.id);
+    const webhookIdResult = WebhookIdSchema.safeParse(params.webhookId);
+    if (!idResult.success || !webhookIdResult.success) {
+      await ensureMinimumTime(startTime, null);
+      return reply.code(200).send({
+        ok: true,
+        message: genericWebhookDeleteMessage(params.webhookId),
+      });
+    }
+    const id = idResult.data;
+    const webhookId = webhookIdResult.data;
+
+    const client = await pool.connect();
+    try {
+      const scope = await resolveOwnerScope(client, req.body);
+      const values: unknown[] = [webhookId, id];
+      const ownerCondition = ownerScopeCondition(scope, values);
+
+      await client.query("BEGIN");
+
+      await client.query(
+        `
+      DELETE FROM webhooks w
+      USING paylinks p
+      WHERE w.id = $1
+        AND w.paylink_id = $2
+        AND p.id = w.paylink_id
+        AND ${ownerCondition}
+      `,
+        values,
+      );
+
+      await client.query("COMMIT");
+
+      await ensureMinimumTime(startTime, null);
+
+      // Always 200, never indicates if it existed or matched
+      return reply.code(200).send({
+        ok: true,
+        message: genericWebhookDeleteMessage(webhookId),
+      });
+    } catch (err) {
+      await client.query("ROLLBACK");
+      req.log.error({ err }, "delete webhook failed");
+      return reply.code(500).send({ error: "internal_error" });
+    } finally {
+      client.release();
+    }
+  });
+
+  // WEBHOOKS: recent deliveries of an endpoint (for debugging and replay)
+  app.post("/api/paylinks/:id/webhooks/:webhookId/deliveries", { schema: ListWebhookDeliveriesRoute }, async (req, reply) => {
+    const startTime = Date.now();
+
+    const { params } = req;
+    const idResult = PaylinkIdSchema.safeParse(params.id);
+    const webhookIdResult = WebhookIdSchema.safeParse(params.webhookId);
+    if (!idResult.success || !webhookIdResult.success) {
+      await ensureMinimumTime(startTime, null);
+      return reply.code(200).send({ deliveries: [] });
+    }
+
+    const client = await pool.connect();
+    try {
+      const scope = await resolveOwnerScope(client, req.body);
+      const values: unknown[] = [
+        webhookIdResult.data,
+        idResult.data,
+        req.body.status ?? null,
+        MAX_WEBHOOK_DELIVERIES_LISTED,
+      ];
+      const ownerCondition = ownerScopeCondition(scope, values);
+
+      const r = await client.query<{
+        id: string;
+        event_id: string;
+        event_type: WebhookEventType;
+        status: WebhookDeliveryStatus;
+        attempts: number;
+        next_attempt_at: Date;
+        last_status_code: number | null;
+        last_error: string | null;
+        created_at: Date;
+        delivered_at: Date | null;
+      }>(
+        `
+      SELECT
+        d.id,
+        d.event_id,
+        d.event_type,
+        d.status,
+        d.attempts,
+        d.next_attempt_at,
+        d.last_status_code,
+        d.last_error,
+        d.created_at,
+        d.delivered_at
+      FROM webhook_deliveries d
+      JOIN webhooks w ON w.id = d.webhook_id
+      JOIN paylinks p ON p.id = w.paylink_id
+      WHERE w.id = $1
+        AND p.id = $2
+        AND ($3::text IS NULL OR d.status = $3)
+        AND ${ownerCondition}
+        AND p.deleted_at IS NULL
+      ORDER BY d.created_at DESC
+      LIMIT $4
+      `,
+        values,
+      );
+
+      const deliveries = r.rows.map((row) => ({
+        id: row.id,
+        eventId: row.event_id,
+        eventType: row.event_type,
+        status: row.status,
+        attempts: row.attempts,
+        nextAttemptAt: row.status === "pending" ? row.next_attempt_at.toISOString() : null,
+        lastStatusCode: row.last_status_code,
+        lastError: row.last_error,
+        createdAt: row.created_at.toISOString(),
+        deliveredAt: row.delivered_at?.toISOString() ?? null,
+      }));
+
+      await ensureMinimumTime(startTime, null);
+
+      return reply.code(200).send({ deliveries });
+    } catch (err) {
+      req.log.error({ err }, "list webhook deliveries failed");
+      return reply.code(500).send({ error: "internal_error" });
+    } finally {
+      client.release();
+    }
+  });
+
+  // WEBHOOKS: queue deliveries again (dead ones by default)
+  app.post("/api/paylinks/:id/webhooks/:webhookId/replay", { schema: ReplayWebhookDeliveriesRoute }, async (req, reply) => {
+    const startTime = Date.now();
+
+    const { params } = req;
+    const idResult = PaylinkIdSchema.safeParse(params.id);
+    const webhookIdResult = WebhookIdSchema.safeParse(params.webhookId);
+    if (!idResult.success || !webhookIdResult.success) {
+      await ensureMinimumTime(startTime, null);
+      return reply.code(200).send({ replayed: 0 });
+    }
+
+    const client = await pool.connect();
+    try {
+      const scope = await resolveOwnerScope(client, req.body);
+      const values: unknown[] = [
+        webhookIdResult.data,
+        idResult.data,
+        req.body.deliveryIds ?? null,
+      ];
+      const ownerCondition = ownerScopeCondition(scope, values);
+
+      await client.query("BEGIN");
+
+      // Replayed deliveries get a fresh set of attempts; the payload (and
+      // event id) stay the same so receivers can dedupe
+      const r = await client.query(
+        `
+      UPDATE webhook_deliveries d
+      SET status = 'pending',
+          attempts = 0,
+          next_attempt_at = now(),
+          delivered_at = NULL
+      FROM webhooks w
+      JOIN paylinks p ON p.id = w.paylink_id
+      WHERE d.webhook_id = w.id
+        AND w.id = $1
+        AND p.id = $2
+        AND (
+          ($3::uuid[] IS NULL AND d.status = 'dead')
+          OR d.id = ANY($3::uuid[])
+        )
+        AND ${ownerCondition}
+        AND p.deleted_at IS NULL
+      `,
+        values,
+      );
+
+      await client.query("COMMIT");
+
+      await ensureMinimumTime(startTime, null);
+
+      return reply.code(200).send({ replayed: r.rowCount ?? 0 });
+    } catch (err) {
+      await client.query("ROLLBACK");
+      req.log.error({ err }, "replay webhook deliveries failed");
+      return reply.code(500).send({ error: "internal_error" });
+    } finally {
+      client.release();
+    }
+  });
+
+  // PROOF OF WORK: challenge to solve before /request on gated paylinks
+  app.post("/api/paylinks/:id/pow-challenge", { schema: PowChallengeRoute }, async (req, reply) => {
+    const startTime = Date.now();
+
+    const idResult = PaylinkIdSchema.safeParse(req.params.id);
+    if (!idResult.success) {
+      await ensureMinimumTime(startTime, null);
+      return reply.code(404).send(PAYLINK_UNAVAILABLE_ERROR);
+    }
+    const id = idResult.data;
+
+    const client = await pool.connect();
+    try {
+      const r = await client.query<{ pow_difficulty: number | null }>(
+        `
+      SELECT pow_difficulty
+      FROM paylinks
+      WHERE id = $1
+        AND active
+        AND deleted_at IS NULL
+        AND ${PAYLINK_SCHEDULE_OK_SQL}
+      `,
+        [id],
+      );
+
+      // Same response as /meta for anything that isn't available
+      if (r.rowCount !== 1) {
+        await ensureMinimumTime(startTime, null);
+        return reply.code(404).send(PAYLINK_UNAVAILABLE_ERROR);
+      }
+
+      const base = r.rows[0]!.pow_difficulty;
+      if (base === null) {
+        return reply.code(400).send(POW_NOT_REQUIRED_ERROR);
+      }
+
+      const challenge = await createPowChallenge(client, id, base, powSettings);
+
+      return reply.code(200).send({
+        challenge: challenge.challenge,
+        algorithm: "sha256",
+        difficulty: challenge.difficulty,
+        expiresAt: challenge.expiresAt.toISOString(),
+      });
+    } catch (err) {
+      req.log.error({ err }, "pow challenge failed");
+      return reply.code(500).send({ error: "internal_error" });
+    } finally {
+      client.release();
+    }
+  });
+
+  // Donor requests a payment payload (random or next sequential index)
+  app.post("/api/paylinks/:id/request", { schema: RequestDonationRoute }, async (req, reply) => {
+    const startTime = Date.now();
+
+    const idResult = PaylinkIdSchema.safeParse(req.params.id);
+    if (!idResult.success) {
+      await ensureMinimumTime(startTime, null);
+      return reply.code(404).send(PAYLINK_UNAVAILABLE_ERROR);
+    }
+    const id = idResult.data;
+
+    const { fiatAmount, currency, description } = req.body;
+    let amount = req.body.amount;
+
+    // Quote before touching the paylink so a failed lookup doesn't count
+    // against maxRequests
+    let quote: (RateQuote & { fiatAmount: string }) | null = null;
+    if (fiatAmount && currency) {
+      if (!rateProvider) {
+        return reply.code(400).send(FIAT_NOT_SUPPORTED_ERROR);
+      }
+      if (!rateProvider.currencies.includes(currency)) {
+        return reply.code(400).send({
+          error: "unsupported_currency",
+          currencies: rateProvider.currencies,
+        });
+      }
+      try {
+        quote = { ...(await rateProvider.getRate(currency)), fiatAmount };
+      } catch (err) {
+        if (!(err instanceof RateUnavailableError)) throw err;
+        req.log.warn({ err }, "exchange rate unavailable");
+        return reply.code(503).send(RATE_UNAVAILABLE_ERROR);
+      }
+      const atomic = fiatToAtomic(fiatAmount, quote.rate);
+      // An invoice for 0 XMR can't be stored or paid
+      if (atomic === 0n) {
+        return reply.code(400).send({
+          error: "invalid_request",
+          details: { fiatAmount: ["fiatAmount converts to 0 XMR"] },
+        });
+      }
+      amount = formatXmr(atomic);
+    }
+
+    const client = await pool.connect();
+    try {
+      // Counting, index allocation, the invoice and the proof of work share
+      // one transaction: a request that fails neither counts against
+      // maxRequests, uses up a sequential index nor burns the donor's
+      // solved challenge
+      await client.query("BEGIN");
+
+      // Enforce the owner's amount rules before the request is counted.
+      // Unavailable links skip this and get the generic 404 below.
+      const policyRes = await client.query<{
+        fixed_amount_atomic: string | null;
+        min_amount_atomic: string | null;
+        preset_amounts_atomic: string[];
+      }>(
+        `
+        SELECT
+          fixed_amount_atomic,
+          min_amount_atomic,
+          preset_amounts_atomic::text[] AS preset_amounts_atomic
+        FROM paylinks
+        WHERE id = $1
+          AND active
+          AND deleted_at IS NULL
+          AND ${PAYLINK_SCHEDULE_OK_SQL}
+        `,
+        [id],
+      );
+      if (policyRes.rows[0]) {
+        const check = checkRequestedAmount(
+          amountPolicyFromRow(policyRes.rows[0]),
+          amount ? parseXmr(amount) : null,
+        );
+        if (!check.ok) {
+          await client.query("ROLLBACK");
+          return reply.code(400).send(amountNotAllowedError(check.reason));
+        }
+        amount = check.amount !== null ? formatXmr(check.amount) : undefined;
+      }
+
+      const paylinkRes = await client.query<{
+        label: string;
+        public_address: string;
+        encrypted_view_key: string;
+        encryption_nonce: string;
+        key_version: number;
+        gen_mode: GenMode;
+        min_index: number;
+        max_index: number;
+        account_index: number;
+        pow_difficulty: number | null;
+      }>(
+        `
+        UPDATE paylinks
+        SET request_count = request_count + 1
+        WHERE id = $1
+          AND active
+          AND deleted_at IS NULL
+          AND ${PAYLINK_SCHEDULE_OK_SQL}
+        RETURNING
+          label,
+          public_address,
+          encrypted_view_key,
+          encryption_nonce,
+          key_version,
+          gen_mode,
+          min_index,
+          max_index,
+          account_index,
+          pow_difficulty
+        `,
+        [id],
+      );
+
+      // Same response for not found, inactive, deleted, not started,
+      // expired or capped - no info leakage. Counting happens atomically
+      // in the same statement, so maxRequests can't be overrun.
+      if (paylinkRes.rowCount !== 1) {
+        await client.query("ROLLBACK");
+        await ensureMinimumTime(startTime, null);
+        return reply.code(404).send(PAYLINK_UNAVAILABLE_ERROR);
+      }
+
+      const paylink = paylinkRes.rows[0]!;
+
+      // The challenge is recorded as used in this transaction, so a request
+      // that fails from here on leaves it to the donor
+      if (
+        paylink.pow_difficulty !== null &&
+        !(await verifyPowProof(client, id, req.body.pow))
+      ) {
+        await client.query("ROLLBACK");
+        return reply.code(403).send(POW_REQUIRED_ERROR);
+      }
+
+      // DB enforces these, but clamp anyway
+      const safeLo = clampIndex(paylink.min_index);
+      const safeHi = clampIndex(paylink.max_index);
+      const lo = Math.min(safeLo, safeHi);
+      const hi = Math.max(safeLo, safeHi);
+
+      let index: number;
+      if (paylink.gen_mode === "sequential") {
+        const allocation = await allocateSequentialIndex(
+          client,
+          id,
+          MAX_SUBADDRESS_INDEX,
+        );
+        if (!allocation.ok) {
+          await client.query("ROLLBACK");
+          await ensureMinimumTime(startTime, null);
+          return allocation.reason === "exhausted"
+            ? reply.code(409).send(PAYLINK_EXHAUSTED_ERROR)
+            : reply.code(404).send(PAYLINK_UNAVAILABLE_ERROR);
+        }
+        index = allocation.index;
+      } else {
+        index = crypto.randomInt(lo, hi + 1);
+      }
+
+      // Precomputed when the pool has it, derived otherwise (in a worker
+      // thread when DERIVATION_WORKERS is set)
+      let address = subaddressPool
+        ? await lookupPooledSubaddress(client, id, index)
+        : null;
+      if (address === null) {
+        const viewKey = decryptViewKey(
+          paylink.encrypted_view_key,
+          paylink.encryption_nonce,
+          paylink.key_version,
+        );
+        const [derived] = await deriver.derive({
+          publicAddress: paylink.public_address,
+          privateViewKey: viewKey,
+          accountIndex: paylink.account_index,
+          indices: [index],
+        });
+        address = derived!;
+      }
+
+      // Persist as an invoice so the page can reload it and the payment
+      // watcher can scan the subaddress
+      const invoiceRes = await client.query<{
+        id: string;
+        status: InvoiceStatus;
+        created_at: Date;
+        expires_at: Date;
+      }>(
+        `
+        INSERT INTO invoices (
+          paylink_id,
+          subaddress_index,
+          address,
+          amount_atomic,
+          description,
+          expires_at,
+          fiat_amount,
+          fiat_currency,
+          fiat_rate,
+          rate_source,
+          quoted_at
+        )
+        VALUES ($1,$2,$3,$4,$5, now() + make_interval(mins => $6), $7,$8,$9,$10,$11)
+        RETURNING id, status, created_at, expires_at
+        `,
+        [
+          id,
+          index,
+          address,
+          amount ? parseXmr(amount).toString() : null,
+          description,
+          invoiceTtlMinutes,
+          quote?.fiatAmount ?? null,
+          quote?.currency ?? null,
+          quote?.rate ?? null,
+          quote?.source ?? null,
+          quote?.quotedAt ?? null,
+        ],
+      );
+      const invoice = invoiceRes.rows[0];
+      if (!invoice) throw new Error("Failed to create invoice");
+
+      await enqueueWebhookEvent(client, id, "invoice.created", {
+        invoiceId: invoice.id,
+        address,
+        amount: amount ?? "",
+        status: invoice.status,
+      });
+
+      await client.query("COMMIT");
+      subaddressPool?.requestRefill(id);
+
+      const uri = invoiceUri({
+        address,
+        amount: amount ?? "",
+        description,
+        label: paylink.label,
+        quote,
+      });
+
+      const fingerprint = computePaylinkFingerprint(id);
+
+      return reply.code(200).send({
+        paylinkId: id,
+        invoiceId: invoice.id,
+        requestId: invoice.id,
+        label: paylink.label ?? "",
+        address,
+        amount: amount ?? "",
+        description,
+        quote: quote ? formatQuote(quote) : null,
+        uri,
+        fingerprint,
+        status: invoice.status,
+        createdAt: invoice.created_at.toISOString(),
+        expiresAt: invoice.expires_at.toISOString(),
+      });
+    } catch (err) {
+      await client.query("ROLLBACK");
+      req.log.error({ err }, "request donation failed");
+      return reply.code(500).send({ error: "internal_error" });
+    } finally {
+      client.release();
+    }
+  });
+
+  // Payment status for an invoice (polled by donation page)
+  app.get("/api/paylinks/:id/requests/:requestId/status", { schema: PaymentStatusRoute }, async (req, reply) => {
+    const startTime = Date.now();
+
+    const { params } = req;
+    const idResult = PaylinkIdSchema.safeParse(params.id);
+    const invoiceIdResult = InvoiceIdSchema.safeParse(params.requestId);
+    if (!idResult.success || !invoiceIdResult.success) {
+      await ensureMinimumTime(startTime, null);
+      return reply.code(404).send(PAYLINK_UNAVAILABLE_ERROR);
+    }
+    const id = idResult.data;
+    const invoiceId = invoiceIdResult.data;
+
+    const client = await pool.connect();
+    try {
+      const invoiceRes = await client.query<{
+        address: string;
+        status: InvoiceStatus;
+        created_at: Date;
+        expires_at: Date;
+      }>(
+        `
+        SELECT i.address, i.status, i.created_at, i.expires_at
+        FROM invoices i
+        JOIN paylinks p ON p.id = i.paylink_id
+        WHERE i.id = $1 AND i.paylink_id = $2 AND p.deleted_at IS NULL
+        LIMIT 1
+        `,
+        [invoiceId, id],
+      );
+
+      if (invoiceRes.rowCount !== 1) {
+        await ensureMinimumTime(startTime, null);
+        return reply.code(404).send(PAYLINK_UNAVAILABLE_ERROR);
+      }
+
+      const invoice = invoiceRes.rows[0]!;
+
+      const paymentsRes = await client.query<{
+        txid: string;
+        amount_atomic: string;
+        confirmations: number;
+      }>(
+        `
+        SELECT txid, amount_atomic, confirmations
+        FROM payments
+        WHERE invoice_id = $1
+        ORDER BY first_seen_at
+        `,
+        [invoiceId],
+      );
+
+      return reply.code(200).send({
+        paylinkId: id,
+        requestId: invoiceId,
+        address: invoice.address,
+        issuedAt: invoice.created_at.toISOString(),
+        detectionEnabled: paymentBackend !== null,
+        minConfirmations,
+        ...summarizePayments(paymentsRes.rows, minConfirmations),
+        invoiceStatus: effectiveInvoiceStatus(invoice.status, invoice.expires_at),
+      });
+    } catch (err) {
+      req.log.error({ err }, "payment status failed");
+      return reply.code(500).send({ error: "internal_error" });
+    } finally {
+      client.release();
+    }
+  });
+
+  // PAYMENT PROOF: a donor checks their own payment with txid + tx key.
+  // Purely a chain lookup: no paylink or invoice data is read or returned,
+  // so answers are the same whoever owns the address.
+  app.post("/api/payment-proofs", { schema: PaymentProofRoute }, async (req, reply) => {
+    if (!paymentBackend) {
+      return reply.code(400).send(PAYMENT_PROOFS_NOT_SUPPORTED_ERROR);
+    }
+
+    const { txid, txKey, address } = req.body;
+
+    try {
+      decodeAddress(address);
+    } catch (err) {
+      if (err instanceof AddressValidationError) {
+        return reply.code(400).send({
+          error: "invalid_request",
+          code: err.code,
+          details: { address: [err.message] },
+        });
+      }
+      throw err;
+    }
+
+    let check: TxKeyCheck | null;
+    try {
+      check = await paymentBackend.checkTxKey(txid, txKey, address);
+    } catch (err) {
+      req.log.warn({ err }, "payment proof check failed");
+      return reply.code(503).send(DAEMON_UNAVAILABLE_ERROR);
+    }
+
+    if (!check) {
+      return reply.code(404).send(TX_NOT_FOUND_ERROR);
+    }
+
+    const confirmed = !check.inPool && check.confirmations >= minConfirmations;
+
+    return reply.code(200).send({
+      txid,
+      address,
+      verified: check.amountAtomic > 0n,
+      inPool: check.inPool,
+      confirmations: check.confirmations,
+      minConfirmations,
+      amountReceived: formatXmr(check.amountAtomic),
+      amountConfirmed: formatXmr(confirmed ? check.amountAtomic : 0n),
+    });
+  });
+
+  // INVOICE (lets the donation page survive a reload without a new address)
+  app.get("/api/invoices/:invoiceId", { schema: InvoiceRoute }, async (req, reply) => {
+    const startTime = Date.now();
+
+    const idResult = InvoiceIdSchema.safeParse(req.params.invoiceId);
+    if (!idResult.success) {
+      await ensureMinimumTime(startTime, null);
+      return reply.code(404).send(INVOICE_UNAVAILABLE_ERROR);
+    }
+    const invoiceId = idResult.data;
+
+    const client = await pool.connect();
+    try {
+      const invoiceRes = await client.query<
+        InvoiceQuoteRow & {
+          paylink_id: string;
+          label: string | null;
+          address: string;
+          amount_atomic: string | null;
+          description: string;
+          status: InvoiceStatus;
+          created_at: Date;
+          expires_at: Date;
+        }
+      >(
+        `
+        SELECT
+          i.paylink_id,
+          p.label,
+          i.address,
+          i.amount_atomic,
+          i.description,
+          i.fiat_amount,
+          i.fiat_currency,
+          i.fiat_rate,
+          i.rate_source,
+          i.quoted_at,
+          i.status,
+          i.created_at,
+          i.expires_at
+        FROM invoices i
+        JOIN paylinks p ON p.id = i.paylink_id
+        WHERE i.id = $1 AND p.deleted_at IS NULL
+        LIMIT 1
+        `,
+        [invoiceId],
+      );
+
+      if (invoiceRes.rowCount !== 1) {
+        await ensureMinimumTime(startTime, null);
+        return reply.code(404).send(INVOICE_UNAVAILABLE_ERROR);
+      }
+
+      const invoice = invoiceRes.rows[0]!;
+
+      const paymentsRes = await client.query<{
+        txid: string;
+        amount_atomic: string;
+        confirmations: number;
+      }>(
+        `
+        SELECT txid, amount_atomic, confirmations
+        FROM payments
+        WHERE invoice_id = $1
+        ORDER BY first_seen_at
+        `,
+        [invoiceId],
+      );
+      const payments = summarizePayments(paymentsRes.rows, minConfirmations);
+
+      const amount =
+        invoice.amount_atomic !== null
+          ? formatXmr(BigInt(invoice.amount_atomic))
+          : "";
+
+      const quote = invoiceQuote(invoice);
+
+      const uri = invoiceUri({
+        address: invoice.address,
+        amount,
+        description: invoice.description,
+        label: invoice.label,
+        quote,
+      });
+
+      return reply.code(200).send({
+        invoiceId,
+        paylinkId: invoice.paylink_id,
+        label: invoice.label ?? "",
+        address: invoice.address,
+        amount,
+        description: invoice.description,
+        quote: quote ? formatQuote(quote) : null,
+        uri,
+        fingerprint: computePaylinkFingerprint(invoice.paylink_id),
+        status: effectiveInvoiceStatus(invoice.status, invoice.expires_at),
+        createdAt: invoice.created_at.toISOString(),
+        expiresAt: invoice.expires_at.toISOString(),
+        detectionEnabled: paymentBackend !== null,
+        minConfirmations,
+        amountReceived: payments.amountReceived,
+        amountConfirmed: payments.amountConfirmed,
+        payments: payments.payments,
+      });
+    } catch (err) {
+      req.log.error({ err }, "get invoice failed");
+      return reply.code(500).send({ error: "internal_error" });
+    } finally {
+      client.release();
+    }
+  });
+
+  // QR code of an invoice's payment URI (works as a plain <img src>)
+  app.get("/api/invoices/:invoiceId/qr", { schema: InvoiceQrRoute }, async (req, reply) => {
+    const startTime = Date.now();
+
+    const idResult = InvoiceIdSchema.safeParse(req.params.invoiceId);
+    if (!idResult.success) {
+      await ensureMinimumTime(startTime, null);
+      return reply.code(404).send(INVOICE_UNAVAILABLE_ERROR);
+    }
+    const invoiceId = idResult.data;
+
+    const client = await pool.connect();
+    try {
+      const invoiceRes = await client.query<
+        InvoiceQuoteRow & {
+          label: string | null;
+          address: string;
+          amount_atomic: string | null;
+          description: string;
+        }
+      >(
+        `
+        SELECT
+          p.label,
+          i.address,
+          i.amount_atomic,
+          i.description,
+          i.fiat_amount,
+          i.fiat_currency,
+          i.fiat_rate,
+          i.rate_source,
+          i.quoted_at
+        FROM invoices i
+        JOIN paylinks p ON p.id = i.paylink_id
+        WHERE i.id = $1 AND p.deleted_at IS NULL
+        LIMIT 1
+        `,
+        [invoiceId],
+      );
+
+      if (invoiceRes.rowCount !== 1) {
+        await ensureMinimumTime(startTime, null);
+        return reply.code(404).send(INVOICE_UNAVAILABLE_ERROR);
+      }
+
+      const invoice = invoiceRes.rows[0]!;
+      const amount =
+        invoice.amount_atomic !== null
+          ? formatXmr(BigInt(invoice.amount_atomic))
+          : "";
+
+      const uri = invoiceUri({
+        address: invoice.address,
+        amount,
+        description: invoice.description,
+        label: invoice.label,
+        quote: invoiceQuote(invoice),
+      });
+
+      const { format, size, margin, ecc } = req.query;
+      const qr = await renderQr(uri, {
+        format,
+        size,
+        margin,
+        errorCorrection: ecc,
+      });
+
+      // The URI carries the paylink label, which the owner can change,
+      // so the code is only cached briefly
+      return reply
+        .code(200)
+        .header("Content-Type", qr.contentType)
+        .header("Cache-Control", "private, max-age=300")
+        .header("Content-Security-Policy", "default-src 'none'")
+        .send(qr.body);
+    } catch (err) {
+      req.log.error({ err }, "render invoice qr failed");
+      return reply.code(500).send({ error: "internal_error" });
+    } finally {
+      client.release();
+    }
+  });
+
+  return app;
+}
+
+async function main() {
+  const config = getConfig();
+  const app = await buildApp();
+
+  await app.listen({ port: config.port, host: config.host });
+
+  // Graceful shutdown: stop accepting connections (new requests on open
+  // ones get 503), let in-flight requests finish, stop the background jobs
+  // (onClose hooks), then close the pool
+  let shuttingDown = false;
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    app.log.info({ signal }, "shutting down");
+
+    const forceExit = setTimeout(() => {
+      app.log.error({ timeoutMs: config.shutdownTimeoutMs }, "shutdown timed out");
+      process.exit(1);
+    }, config.shutdownTimeoutMs);
+    forceExit.unref();
+
+    try {
+      await app.close();
+      await pool.end();
+      process.exit(0);
+    } catch (err) {
+      app.log.error({ err }, "shutdown failed");
+      process.exit(1);
+    }
+  };
+  process.on("SIGTERM", (signal) => void shutdown(signal));
+  process.on("SIGINT", (signal) => void shutdown(signal));
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,137 @@
+// src/subaddresses/derive.ts
+//
+// Subaddress derivation, on the event loop or in worker threads.
+//
+// A derivation is a handful of ed25519 operations in pure JS: cheap on its
+// own, but it blocks the event loop, so under load every other request
+// queues behind it. With DERIVATION_WORKERS > 0 it runs in a pool of
+// worker threads instead.
+
+import path from "path";
+import { Worker } from "worker_threads";
+import * as subaddress from "subaddress";
+import { getConfig } from "../config";
+import { decodeStandardAddress } from "../monero/decodeAddress";
+
+export type DerivationJob = {
+  publicAddress: string;
+  privateViewKey: string;
+  accountIndex: number;
+  indices: number[];
+};
+
+export interface SubaddressDeriver {
+  readonly name: string;
+  /** Subaddresses for `job.indices`, in the same order. */
+  derive(job: DerivationJob): Promise<string[]>;
+  close(): Promise<void>;
+}
+
+type WorkerReply = { id: number; addresses: string[] } | { id: number; error: string };
+
+type Pending = {
+  resolve(addresses: string[]): void;
+  reject(err: Error): void;
+};
+
+type PoolWorker = {
+  worker: Worker;
+  pending: Map<number, Pending>;
+};
+
+const WORKER_FILE = path.join(__dirname, `worker${path.extname(__filename)}`);
+
+// Under tsx (npm run dev, the benchmark) workers don't inherit its loader,
+// so the .ts entry is loaded through tsx's require hook
+function startWorker(): Worker {
+  if (!WORKER_FILE.endsWith(".ts")) return new Worker(WORKER_FILE);
+  const hook = JSON.stringify(require.resolve("tsx/cjs"));
+  return new Worker(`require(${hook}); require(${JSON.stringify(WORKER_FILE)});`, {
+    eval: true,
+  });
+}
+
+export function getDerivationWorkers(): number {
+  return getConfig().subaddresses.derivationWorkers;
+}
+
+export function deriveSubaddresses(job: DerivationJob): string[] {
+  const { publicSpendKeyHex } = decodeStandardAddress(job.publicAddress);
+  return job.indices.map((index) =>
+    subaddress.getSubaddress(
+      job.privateViewKey,
+      publicSpendKeyHex,
+      job.accountIndex,
+      index,
+    ),
+  );
+}
+
+class InlineDeriver implements SubaddressDeriver {
+  readonly name = "inline";
+
+  async derive(job: DerivationJob): Promise<string[]> {
+    return deriveSubaddresses(job);
+  }
+
+  async close() {}
+}
+
+/**
+ * Fixed pool of worker threads. Jobs go to the worker with the fewest
+ * outstanding jobs; a worker that dies fails its jobs and is replaced.
+ */
+class WorkerDeriver implements SubaddressDeriver {
+  readonly name = "workers";
+  private readonly workers: PoolWorker[] = [];
+  private nextId = 1;
+  private closed = false;
+
+  constructor(size: number) {
+    for (let i = 0; i < size; i++) this.workers.push(this.spawn());
+  }
+
+  private spawn(): PoolWorker {
+    const entry: PoolWorker = { worker: startWorker(), pending: new Map() };
+
+    entry.worker.on("message", (reply: WorkerReply) => {
+      const job = entry.pending.get(reply.id);
+      if (!job) return;
+      entry.pending.delete(reply.id);
+      if ("error" in reply) job.reject(new Error(reply.error));
+      else job.resolve(reply.addresses);
+    });
+
+    const fail = (err: Error) => {
+      for (const job of entry.pending.values()) job.reject(err);
+      entry.pending.clear();
+      const i = this.workers.indexOf(entry);
+      if (i !== -1 && !this.closed) this.workers[i] = this.spawn();
+    };
+    entry.worker.on("error", fail);
+    entry.worker.on("exit", (code) => fail(new Error(`derivation worker exited (${code})`)));
+
+    return entry;
+  }
+
+  derive(job: DerivationJob): Promise<string[]> {
+    if (this.closed) return Promise.reject(new Error("derivation workers closed"));
+
+    const entry = this.workers.reduce((a, b) => (b.pending.size < a.pending.size ? b : a));
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      entry.pending.set(id, { resolve, reject });
+      entry.worker.postMessage({ id, job });
+    });
+  }
+
+  async close() {
+    this.closed = true;
+    await Promise.all(this.workers.map((w) => w.worker.terminate()));
+  }
+}
+
+/** Worker threads when `workers` > 0, otherwise the event loop. */
+export function createDeriver(workers = getDerivationWorkers()): SubaddressDeriver {
+  return workers > 0 ? new WorkerDeriver(workers) : new InlineDeriver();
+}
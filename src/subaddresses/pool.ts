@@ -0,0 +1,277 @@
+// src/subaddresses/pool.ts
+//
+// Optional pool of precomputed subaddresses (SUBADDRESS_POOL_SIZE > 0). A
+// background refiller derives addresses of active paylinks ahead of time
+// and stores them encrypted with the master key, so /request decrypts one
+// row instead of decrypting the view key and deriving.
+//
+// Indices kept ready per paylink:
+// - sequential: SIZE indices from next_index on. Used ones fall out of the
+//   window and are deleted by the next refill.
+// - random: the first SIZE indices of the range (all of it for ranges up to
+//   SIZE). Other indices are derived on request.
+//
+// The table is only a cache: a miss falls back to derivation, and rows of
+// inactive paylinks or of a retired key version are dropped on refill.
+
+import type { Pool, PoolClient } from "pg";
+import type { ExhaustionPolicy, GenMode } from "../allocation";
+import { getConfig } from "../config";
+import { decryptSecret, decryptViewKey, encryptSecret, getActiveKeyVersion } from "../crypto";
+import { recordSubaddressPoolLookup } from "../metrics";
+import type { SubaddressDeriver } from "./derive";
+
+type Logger = {
+  info(obj: object, msg?: string): void;
+  error(obj: object, msg?: string): void;
+};
+
+export type SubaddressPoolOptions = {
+  pool: Pool;
+  deriver: SubaddressDeriver;
+  logger: Logger;
+  size: number;
+  intervalMs: number;
+};
+
+type PaylinkRow = {
+  id: string;
+  public_address: string;
+  encrypted_view_key: string;
+  encryption_nonce: string;
+  key_version: number;
+  account_index: number;
+  gen_mode: GenMode;
+  min_index: number;
+  max_index: number;
+  next_index: number | null;
+  exhaustion_policy: ExhaustionPolicy;
+};
+
+// Paylinks visited per tick, besides the ones /request asked to refill
+const REFILL_BATCH_SIZE = 50;
+// Indices per derive call; inline derivation yields to the event loop
+// between chunks
+const DERIVE_CHUNK_SIZE = 25;
+
+const PAYLINK_COLUMNS = `
+  id,
+  public_address,
+  encrypted_view_key,
+  encryption_nonce,
+  key_version,
+  account_index,
+  gen_mode,
+  min_index,
+  max_index,
+  next_index,
+  exhaustion_policy
+`;
+
+export function getSubaddressPoolSettings(): { size: number; intervalMs: number } | null {
+  const { poolSize, refillIntervalMs } = getConfig().subaddresses;
+  return poolSize > 0 ? { size: poolSize, intervalMs: refillIntervalMs } : null;
+}
+
+/** Indices to keep ready for a paylink, or null when there are none. */
+export function poolWindow(
+  row: Pick<PaylinkRow, "gen_mode" | "min_index" | "max_index" | "next_index" | "exhaustion_policy">,
+  size: number,
+): { from: number; to: number } | null {
+  let from = row.min_index;
+  if (row.gen_mode === "sequential") {
+    from = Math.max(row.next_index ?? row.min_index, row.min_index);
+    // The next request starts over at min_index
+    if (from > row.max_index && row.exhaustion_policy === "wrap") from = row.min_index;
+  }
+  const to = Math.min(row.max_index, from + size - 1);
+  return from <= to ? { from, to } : null;
+}
+
+/**
+ * The precomputed subaddress at `index`, or null when the pool doesn't
+ * have it (or it no longer decrypts).
+ */
+export async function lookupPooledSubaddress(
+  client: PoolClient,
+  paylinkId: string,
+  index: number,
+): Promise<string | null> {
+  const res = await client.query<{
+    encrypted_address: string;
+    nonce: string;
+    key_version: number;
+  }>(
+    `
+    SELECT encrypted_address, nonce, key_version
+    FROM subaddress_pool
+    WHERE paylink_id = $1 AND subaddress_index = $2
+    `,
+    [paylinkId, index],
+  );
+
+  let address: string | null = null;
+  const row = res.rows[0];
+  if (row) {
+    try {
+      address = decryptSecret(row.encrypted_address, row.nonce, row.key_version);
+    } catch {
+      // Counted by decryptSecret; derived again on the next refill
+    }
+  }
+  recordSubaddressPoolLookup(address !== null);
+  return address;
+}
+
+/** Bring one paylink's pool in line with its window. Returns how many were derived. */
+async function refillPaylink(opts: SubaddressPoolOptions, row: PaylinkRow): Promise<number> {
+  const window = poolWindow(row, opts.size);
+
+  await opts.pool.query(
+    `
+    DELETE FROM subaddress_pool
+    WHERE paylink_id = $1 AND NOT (subaddress_index BETWEEN $2 AND $3)
+    `,
+    [row.id, window?.from ?? 0, window?.to ?? -1],
+  );
+  if (!window) return 0;
+
+  const missing = await opts.pool.query<{ index: number }>(
+    `
+    SELECT g.i AS index
+    FROM generate_series($2::int, $3::int) AS g(i)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM subaddress_pool
+      WHERE paylink_id = $1 AND subaddress_index = g.i
+    )
+    `,
+    [row.id, window.from, window.to],
+  );
+  if (missing.rowCount === 0) return 0;
+
+  const privateViewKey = decryptViewKey(
+    row.encrypted_view_key,
+    row.encryption_nonce,
+    row.key_version,
+  );
+  const indices = missing.rows.map((r) => r.index);
+
+  for (let i = 0; i < indices.length; i += DERIVE_CHUNK_SIZE) {
+    const chunk = indices.slice(i, i + DERIVE_CHUNK_SIZE);
+    const addresses = await opts.deriver.derive({
+      publicAddress: row.public_address,
+      privateViewKey,
+      accountIndex: row.account_index,
+      indices: chunk,
+    });
+    const sealed = addresses.map((a) => encryptSecret(a));
+
+    // A concurrent refill (another instance) may have stored some already
+    await opts.pool.query(
+      `
+      INSERT INTO subaddress_pool
+        (paylink_id, subaddress_index, encrypted_address, nonce, key_version)
+      SELECT $1, * FROM unnest($2::int[], $3::text[], $4::text[], $5::int[])
+      ON CONFLICT (paylink_id, subaddress_index) DO NOTHING
+      `,
+      [
+        row.id,
+        chunk,
+        sealed.map((s) => s.ciphertextB64),
+        sealed.map((s) => s.nonceB64),
+        sealed.map((s) => s.keyVersion),
+      ],
+    );
+  }
+  return indices.length;
+}
+
+/**
+ * Start the refill loop. Each tick refills the paylinks passed to
+ * requestRefill() since the last one, then the next page of all active
+ * paylinks, so every paylink is topped up eventually.
+ */
+export function startSubaddressPool(opts: SubaddressPoolOptions) {
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+  let running: Promise<void> | null = null;
+  let cursor: string | null = null;
+  const requested = new Set<string>();
+
+  const activePaylinks = async (where: string, params: unknown[]) => {
+    const res = await opts.pool.query<PaylinkRow>(
+      `
+      SELECT ${PAYLINK_COLUMNS}
+      FROM paylinks
+      WHERE active AND deleted_at IS NULL AND ${where}
+      ORDER BY id
+      LIMIT ${REFILL_BATCH_SIZE}
+      `,
+      params,
+    );
+    return res.rows;
+  };
+
+  const tick = async () => {
+    await opts.pool.query(`DELETE FROM subaddress_pool WHERE key_version <> $1`, [
+      getActiveKeyVersion(),
+    ]);
+    await opts.pool.query(
+      `
+      DELETE FROM subaddress_pool sp
+      USING paylinks p
+      WHERE p.id = sp.paylink_id AND (NOT p.active OR p.deleted_at IS NOT NULL)
+      `,
+    );
+
+    const ids = [...requested].slice(0, REFILL_BATCH_SIZE);
+    for (const id of ids) requested.delete(id);
+    const rows = ids.length > 0 ? await activePaylinks(`id = ANY($1::uuid[])`, [ids]) : [];
+
+    const page = await activePaylinks(`($1::uuid IS NULL OR id > $1)`, [cursor]);
+    cursor = page.length === REFILL_BATCH_SIZE ? page[page.length - 1]!.id : null;
+    const seen = new Set(rows.map((r) => r.id));
+    rows.push(...page.filter((r) => !seen.has(r.id)));
+
+    let derived = 0;
+    for (const row of rows) {
+      if (stopped) break;
+      try {
+        derived += await refillPaylink(opts, row);
+      } catch (err) {
+        opts.logger.error({ err }, "subaddress pool refill failed for a paylink");
+      }
+    }
+    if (derived > 0) {
+      opts.logger.info({ paylinks: rows.length, derived }, "subaddress pool refilled");
+    }
+  };
+
+  const schedule = () => {
+    if (stopped) return;
+    timer = setTimeout(() => {
+      running = tick()
+        .catch((err) => opts.logger.error({ err }, "subaddress pool refill failed"))
+        .finally(() => {
+          running = null;
+          schedule();
+        });
+    }, opts.intervalMs);
+  };
+
+  schedule();
+
+  return {
+    /** Refill this paylink on the next tick (it was used, created or changed). */
+    requestRefill(paylinkId: string) {
+      if (!stopped) requested.add(paylinkId);
+    },
+    async stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      if (running) await running;
+    },
+  };
+}
+
+export type SubaddressPool = ReturnType<typeof startSubaddressPool>;
@@ -0,0 +1,18 @@
+// src/subaddresses/worker.ts
+//
+// Worker thread entry for WorkerDeriver (see derive.ts). Jobs are handled
+// one at a time, in the order they arrive.
+
+import { parentPort } from "worker_threads";
+import { deriveSubaddresses, type DerivationJob } from "./derive";
+
+const port = parentPort;
+if (!port) throw new Error("subaddresses/worker must run in a worker thread");
+
+port.on("message", ({ id, job }: { id: number; job: DerivationJob }) => {
+  try {
+    port.postMessage({ id, addresses: deriveSubaddresses(job) });
+  } catch (err) {
+    port.postMessage({ id, error: err instanceof Error ? err.message : String(err) });
+  }
+});
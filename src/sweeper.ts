@@ -0,0 +1,87 @@
+// src/sweeper.ts
+//
+// Background housekeeping that doesn't depend on payment detection:
+// deactivates paylinks past their expiry, persists invoice expiry and prunes
+// old webhook deliveries and used proof-of-work challenges.
+
+import type { Pool } from "pg";
+import { getConfig } from "./config";
+import { expireStaleInvoices } from "./invoices";
+import { prunePowChallenges } from "./pow";
+import { pruneWebhookDeliveries } from "./webhooks/dispatcher";
+
+type Logger = {
+  info(obj: object, msg?: string): void;
+  error(obj: object, msg?: string): void;
+};
+
+export type SweeperOptions = {
+  pool: Pool;
+  logger: Logger;
+  intervalMs: number;
+};
+
+export function getSweepIntervalMs(): number {
+  return getConfig().sweepIntervalMs;
+}
+
+/** Mark active paylinks whose expires_at has passed as inactive. */
+export async function deactivateExpiredPaylinks(pool: Pool): Promise<number> {
+  const res = await pool.query(
+    `
+    UPDATE paylinks
+    SET active = false
+    WHERE active AND expires_at IS NOT NULL AND expires_at <= now()
+    `,
+  );
+  return res.rowCount ?? 0;
+}
+
+export async function runSweep(pool: Pool) {
+  const paylinks = await deactivateExpiredPaylinks(pool);
+  const invoices = await expireStaleInvoices(pool);
+  const webhookDeliveries = await pruneWebhookDeliveries(pool);
+  const powChallenges = await prunePowChallenges(pool);
+  return { paylinks, invoices, webhookDeliveries, powChallenges };
+}
+
+/**
+ * Start the sweep loop. Like the payment watcher, a sweep is only scheduled
+ * after the previous one finished.
+ */
+export function startSweeper(opts: SweeperOptions) {
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+  let running: Promise<void> | null = null;
+
+  const tick = async () => {
+    try {
+      const result = await runSweep(opts.pool);
+      if (Object.values(result).some((n) => n > 0)) {
+        opts.logger.info(result, "sweep finished");
+      }
+    } catch (err) {
+      opts.logger.error({ err }, "sweep failed");
+    }
+  };
+
+  const schedule = () => {
+    if (stopped) return;
+    timer = setTimeout(() => {
+      running = tick().finally(() => {
+        running = null;
+        schedule();
+      });
+    }, opts.intervalMs);
+  };
+
+  schedule();
+
+  return {
+    async stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      if (running) await running;
+    },
+  };
+}
@@ -16,7 +16,8 @@ declare module "pg" {
       text: string,
       values?: unknown[]
     ): Promise<QueryResult<T>>;
-    release(): void;
+    // true (or an error) destroys the connection instead of reusing it
+    release(destroy?: boolean | Error): void;
   }
 
   export class Pool {
@@ -27,5 +28,8 @@ declare module "pg" {
       values?: unknown[]
     ): Promise<QueryResult<T>>;
     end(): Promise<void>;
+    readonly totalCount: number;
+    readonly idleCount: number;
+    readonly waitingCount: number;
   }
 }
@@ -0,0 +1,314 @@
+// src/webhooks/dispatcher.ts
+//
+// Delivers queued webhook events. Each delivery is a signed POST:
+//
+//   X-Paylinks-Event: invoice.confirmed
+//   X-Paylinks-Delivery: <delivery id>
+//   X-Paylinks-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256(secret, "<t>.<body>")>
+//
+// Failed deliveries are retried with exponential backoff; after
+// WEBHOOKS_MAX_ATTEMPTS they are marked dead and kept for replay.
+//
+// The URL is checked again on every attempt and the connection goes to a
+// resolved address that was checked too, so a receiver can't reach
+// internal hosts by changing its DNS records after registration.
+
+import crypto from "crypto";
+import http from "http";
+import https from "https";
+import type { Pool } from "pg";
+import { getConfig } from "../config";
+import { decryptSecret } from "../crypto";
+import { checkWebhookUrl, lookupPublicAddress } from "./url";
+
+type Logger = {
+  info(obj: object, msg?: string): void;
+  error(obj: object, msg?: string): void;
+};
+
+export type WebhookDispatcherOptions = {
+  pool: Pool;
+  logger: Logger;
+  intervalMs: number;
+  maxAttempts: number;
+  allowInsecure: boolean;
+};
+
+type DeliveryRow = {
+  id: string;
+  event_type: string;
+  payload: string;
+  attempts: number;
+  url: string;
+  encrypted_secret: string;
+  secret_nonce: string;
+  key_version: number;
+};
+
+const BATCH_SIZE = 20;
+const REQUEST_TIMEOUT_MS = 10_000;
+// A claimed delivery is retried after this if the process dies mid-send
+const CLAIM_LEASE_SECONDS = 300;
+const BACKOFF_BASE_SECONDS = 30;
+const BACKOFF_MAX_SECONDS = 6 * 60 * 60;
+const MAX_ERROR_LENGTH = 500;
+// Delivered events are kept this long for inspection
+const DELIVERED_RETENTION_DAYS = 30;
+
+export function getWebhookDispatcherSettings() {
+  const { intervalMs, maxAttempts, allowInsecure } = getConfig().webhooks;
+  return { intervalMs, maxAttempts, allowInsecure };
+}
+
+export function signWebhookPayload(
+  secret: string,
+  payload: string,
+  timestamp: number,
+): string {
+  const mac = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${payload}`, "utf8")
+    .digest("hex");
+  return `t=${timestamp},v1=${mac}`;
+}
+
+/** 30s, 60s, 120s, ... capped at 6h, with up to 10% jitter. */
+function backoffSeconds(attempts: number): number {
+  const base = Math.min(
+    BACKOFF_BASE_SECONDS * 2 ** Math.max(0, attempts - 1),
+    BACKOFF_MAX_SECONDS,
+  );
+  return Math.round(base * (1 + Math.random() * 0.1));
+}
+
+async function claimDueDeliveries(pool: Pool): Promise<DeliveryRow[]> {
+  // SKIP LOCKED + lease: several API instances can dispatch side by side
+  const res = await pool.query<DeliveryRow>(
+    `
+    UPDATE webhook_deliveries d
+    SET next_attempt_at = now() + make_interval(secs => $2)
+    FROM webhooks w
+    JOIN paylinks p ON p.id = w.paylink_id
+    WHERE d.webhook_id = w.id
+      AND p.deleted_at IS NULL
+      AND d.id IN (
+        SELECT id
+        FROM webhook_deliveries
+        WHERE status = 'pending' AND next_attempt_at <= now()
+        ORDER BY next_attempt_at
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+    RETURNING
+      d.id,
+      d.event_type,
+      d.payload,
+      d.attempts,
+      w.url,
+      w.encrypted_secret,
+      w.secret_nonce,
+      w.key_version
+    `,
+    [BATCH_SIZE, CLAIM_LEASE_SECONDS],
+  );
+  return res.rows;
+}
+
+type SendResult = { statusCode: number | null; error: string | null };
+
+/**
+ * POST the body and resolve with the status code. Redirects are not
+ * followed: they could point anywhere, receivers must answer directly.
+ */
+function post(
+  url: URL,
+  headers: Record<string, string>,
+  body: string,
+  allowInsecure: boolean,
+): Promise<number> {
+  const request = url.protocol === "https:" ? https.request : http.request;
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        lookup: allowInsecure ? undefined : lookupPublicAddress,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      },
+      (res) => {
+        // Drain the body so the socket is released
+        res.resume();
+        res.on("end", () => resolve(res.statusCode ?? 0));
+        res.on("error", reject);
+      },
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+async function send(
+  delivery: DeliveryRow,
+  allowInsecure: boolean,
+): Promise<SendResult> {
+  const urlError = checkWebhookUrl(delivery.url, allowInsecure);
+  if (urlError) return { statusCode: null, error: urlError };
+
+  const secret = decryptSecret(
+    delivery.encrypted_secret,
+    delivery.secret_nonce,
+    delivery.key_version,
+  );
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const status = await post(
+      new URL(delivery.url),
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "paylinks-webhooks",
+        "X-Paylinks-Event": delivery.event_type,
+        "X-Paylinks-Delivery": delivery.id,
+        "X-Paylinks-Signature": signWebhookPayload(secret, delivery.payload, timestamp),
+      },
+      delivery.payload,
+      allowInsecure,
+    );
+
+    return status >= 200 && status < 300
+      ? { statusCode: status, error: null }
+      : { statusCode: status, error: `HTTP ${status}` };
+  } catch (err) {
+    return { statusCode: null, error: String(err).slice(0, MAX_ERROR_LENGTH) };
+  }
+}
+
+async function recordResult(
+  opts: WebhookDispatcherOptions,
+  delivery: DeliveryRow,
+  result: SendResult,
+) {
+  if (result.error === null) {
+    await opts.pool.query(
+      `
+      UPDATE webhook_deliveries
+      SET status = 'delivered',
+          attempts = attempts + 1,
+          last_status_code = $2,
+          last_error = NULL,
+          delivered_at = now()
+      WHERE id = $1
+      `,
+      [delivery.id, result.statusCode],
+    );
+    return;
+  }
+
+  const attempts = delivery.attempts + 1;
+  await opts.pool.query(
+    `
+    UPDATE webhook_deliveries
+    SET status = CASE WHEN $2::int >= $3::int THEN 'dead' ELSE 'pending' END,
+        attempts = $2,
+        last_status_code = $4,
+        last_error = $5,
+        next_attempt_at = now() + make_interval(secs => $6)
+    WHERE id = $1
+    `,
+    [
+      delivery.id,
+      attempts,
+      opts.maxAttempts,
+      result.statusCode,
+      result.error,
+      backoffSeconds(attempts),
+    ],
+  );
+}
+
+export async function runWebhookDispatch(opts: WebhookDispatcherOptions) {
+  let delivered = 0;
+  let failed = 0;
+
+  for (;;) {
+    const batch = await claimDueDeliveries(opts.pool);
+    if (batch.length === 0) break;
+
+    for (const delivery of batch) {
+      const result = await send(delivery, opts.allowInsecure);
+      await recordResult(opts, delivery, result);
+      if (result.error === null) delivered++;
+      else failed++;
+    }
+
+    if (batch.length < BATCH_SIZE) break;
+  }
+
+  return { delivered, failed };
+}
+
+/**
+ * Drop delivered events past retention and anything queued for paylinks
+ * that were deleted since. Dead deliveries stay until replayed or the
+ * webhook is removed.
+ */
+export async function pruneWebhookDeliveries(pool: Pool): Promise<number> {
+  const res = await pool.query(
+    `
+    DELETE FROM webhook_deliveries d
+    USING webhooks w, paylinks p
+    WHERE d.webhook_id = w.id
+      AND p.id = w.paylink_id
+      AND (
+        p.deleted_at IS NOT NULL
+        OR (d.status = 'delivered'
+            AND d.delivered_at < now() - make_interval(days => $1))
+      )
+    `,
+    [DELIVERED_RETENTION_DAYS],
+  );
+  return res.rowCount ?? 0;
+}
+
+/**
+ * Start the dispatch loop. Like the payment watcher, a run is only
+ * scheduled after the previous one finished.
+ */
+export function startWebhookDispatcher(opts: WebhookDispatcherOptions) {
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+  let running: Promise<void> | null = null;
+
+  const tick = async () => {
+    try {
+      const result = await runWebhookDispatch(opts);
+      if (result.delivered > 0 || result.failed > 0) {
+        opts.logger.info(result, "webhook dispatch finished");
+      }
+    } catch (err) {
+      opts.logger.error({ err }, "webhook dispatch failed");
+    }
+  };
+
+  const schedule = () => {
+    if (stopped) return;
+    timer = setTimeout(() => {
+      running = tick().finally(() => {
+        running = null;
+        schedule();
+      });
+    }, opts.intervalMs);
+  };
+
+  schedule();
+
+  return {
+    async stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      if (running) await running;
+    },
+  };
+}
@@ -0,0 +1,79 @@
+// src/webhooks/events.ts
+//
+// Webhook events are written to webhook_deliveries in the same transaction
+// as the change they describe, so a committed change always has its
+// notification queued (and a rolled back one never does).
+//
+// Payloads are built field by field from an allowlist: view keys, owner
+// keys and signing secrets can never end up in them.
+
+import crypto from "crypto";
+import type { PoolClient } from "pg";
+import type { InvoiceStatus } from "../invoices";
+
+export const WEBHOOK_EVENT_TYPES = [
+  "invoice.created",
+  "invoice.seen",
+  "invoice.confirmed",
+  "invoice.expired",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export type InvoiceEventData = {
+  invoiceId: string;
+  address: string;
+  amount: string;
+  status: InvoiceStatus;
+  amountReceived?: string;
+  amountConfirmed?: string;
+};
+
+export function invoiceEventType(status: InvoiceStatus): WebhookEventType {
+  return status === "pending" ? "invoice.created" : `invoice.${status}`;
+}
+
+/**
+ * Queue an event for every webhook of the paylink subscribed to `type`.
+ * Returns the number of deliveries queued.
+ */
+export async function enqueueWebhookEvent(
+  client: PoolClient,
+  paylinkId: string,
+  type: WebhookEventType,
+  data: InvoiceEventData,
+): Promise<number> {
+  const eventId = crypto.randomUUID();
+  const payload = JSON.stringify({
+    id: eventId,
+    type,
+    createdAt: new Date().toISOString(),
+    paylinkId,
+    data: {
+      invoiceId: data.invoiceId,
+      address: data.address,
+      amount: data.amount,
+      status: data.status,
+      ...(data.amountReceived !== undefined
+        ? { amountReceived: data.amountReceived }
+        : {}),
+      ...(data.amountConfirmed !== undefined
+        ? { amountConfirmed: data.amountConfirmed }
+        : {}),
+    },
+  });
+
+  const res = await client.query(
+    `
+    INSERT INTO webhook_deliveries (webhook_id, event_id, event_type, payload)
+    SELECT w.id, $2, $3, $4
+    FROM webhooks w
+    JOIN paylinks p ON p.id = w.paylink_id
+    WHERE w.paylink_id = $1
+      AND $3 = ANY(w.events)
+      AND p.deleted_at IS NULL
+    `,
+    [paylinkId, eventId, type, payload],
+  );
+  return res.rowCount ?? 0;
+}
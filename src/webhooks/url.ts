@@ -0,0 +1,142 @@
+// src/webhooks/url.ts
+//
+// Webhook URL checks. The server makes outbound requests to these URLs, so
+// plain http and loopback/private targets are refused unless
+// WEBHOOKS_ALLOW_INSECURE=true (development only). Registration checks the
+// URL as written; hostnames are checked when a delivery resolves them (see
+// lookupPublicAddress), since DNS answers can change after registration.
+
+import dns from "dns";
+import net from "net";
+import { getConfig } from "../config";
+
+const MAX_URL_LENGTH = 2048;
+
+export function webhooksAllowInsecure(): boolean {
+  return getConfig().webhooks.allowInsecure;
+}
+
+function isPrivateIPv4(ip: string): boolean {
+  const [a, b, c] = ip.split(".").map(Number) as [number, number, number];
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+// The eight 16-bit groups of an address net.isIP() accepted as IPv6
+function ipv6Groups(ip: string): number[] {
+  let s = ip.toLowerCase().replace(/%.*$/, "");
+  const dotted = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(s);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number) as [number, number, number, number];
+    s = s.slice(0, dotted.index) + `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const parse = (part: string | undefined) =>
+    part ? part.split(":").map((g) => parseInt(g, 16)) : [];
+  const [head, tail] = s.split("::");
+  const h = parse(head);
+  if (tail === undefined) return h;
+  const t = parse(tail);
+  return [...h, ...new Array<number>(8 - h.length - t.length).fill(0), ...t];
+}
+
+function isPrivateIPv6(ip: string): boolean {
+  const g = ipv6Groups(ip);
+  const zeros = (from: number, to: number) => g.slice(from, to).every((x) => x === 0);
+
+  // Forms that carry an IPv4 address in the last 32 bits and reach it:
+  // IPv4-compatible (::a.b.c.d, including :: and ::1), IPv4-mapped
+  // (::ffff:a.b.c.d), IPv4-translated (::ffff:0:a.b.c.d) and NAT64
+  // (64:ff9b::a.b.c.d). Resolvers and the URL parser write the IPv4 part
+  // dotted or as two hex groups, so check the groups.
+  if (
+    zeros(0, 6) ||
+    (zeros(0, 5) && g[5] === 0xffff) ||
+    (zeros(0, 4) && g[4] === 0xffff && g[5] === 0) ||
+    (g[0] === 0x64 && g[1] === 0xff9b && zeros(2, 6))
+  ) {
+    const [hi, lo] = [g[6]!, g[7]!];
+    return isPrivateIPv4(`${hi >> 8}.${hi & 0xff}.${lo >> 8}.${lo & 0xff}`);
+  }
+
+  const first = g[0]!;
+  return (
+    (first & 0xfe00) === 0xfc00 || // unique local, fc00::/7
+    (first & 0xffc0) === 0xfe80 || // link-local, fe80::/10
+    (first & 0xffc0) === 0xfec0 || // site-local (deprecated), fec0::/10
+    (first & 0xff00) === 0xff00 || // multicast, ff00::/8
+    (first === 0x64 && g[1] === 0xff9b && g[2] === 1) // local-use NAT64, 64:ff9b:1::/48
+  );
+}
+
+/**
+ * Returns an error message, or null when the URL is acceptable.
+ */
+export function checkWebhookUrl(raw: string, allowInsecure: boolean): string | null {
+  if (raw.length > MAX_URL_LENGTH) return "url is too long";
+
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return "url is not a valid URL";
+  }
+
+  if (url.username || url.password) return "url must not contain credentials";
+  if (url.protocol !== "https:" && !(allowInsecure && url.protocol === "http:")) {
+    return "url must use https";
+  }
+  if (allowInsecure) return null;
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (host === "localhost" || host.endsWith(".localhost")) {
+    return "url must not point at a local host";
+  }
+  const family = net.isIP(host);
+  if (
+    (family === 4 && isPrivateIPv4(host)) ||
+    (family === 6 && isPrivateIPv6(host))
+  ) {
+    return "url must not point at a private address";
+  }
+  return null;
+}
+
+function isPrivateAddress(ip: string): boolean {
+  const family = net.isIP(ip);
+  // Anything that isn't a plain address is not trusted either
+  return family === 4 ? isPrivateIPv4(ip) : family === 6 ? isPrivateIPv6(ip) : true;
+}
+
+/**
+ * `lookup` for webhook connections: resolves the hostname and fails when
+ * any of its addresses is private. The socket connects to the address
+ * checked here, so a name can't be re-pointed between check and connect.
+ * Literal IPs don't go through lookup; checkWebhookUrl covers those.
+ */
+export const lookupPublicAddress: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "");
+
+    if (addresses.length === 0 || addresses.some((a) => isPrivateAddress(a.address))) {
+      const blocked: NodeJS.ErrnoException = new Error(
+        `${hostname} resolves to a private address`,
+      );
+      blocked.code = "EPRIVATEADDRESS";
+      return callback(blocked, "");
+    }
+
+    if (options.all) return callback(null, addresses);
+    const [first] = addresses;
+    callback(null, first!.address, first!.family);
+  });
+};
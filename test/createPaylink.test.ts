@@ -0,0 +1,82 @@
+import "./helpers/env";
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { cnBase58Decode, cnBase58Encode } from "../src/monero/base58";
+import { decodeAddress } from "../src/monero/decodeAddress";
+import { startTestApp, type TestApp } from "./helpers/app";
+import { encodeAddress, testWallet } from "./helpers/fixtures";
+
+const STAGENET_STANDARD_PREFIX = 24;
+
+describe("POST /api/paylinks", () => {
+  let t: TestApp;
+
+  before(async () => {
+    t = await startTestApp();
+  });
+
+  after(async () => {
+    await t.stop();
+  });
+
+  const create = (publicAddress: string, privateViewKey: string) =>
+    t.app.inject({
+      method: "POST",
+      url: "/api/paylinks",
+      payload: { publicAddress, privateViewKey, options: { label: "Test" } },
+    });
+
+  test("stores and returns the address's network", async () => {
+    const wallet = testWallet(STAGENET_STANDARD_PREFIX);
+
+    const res = await create(wallet.publicAddress, wallet.privateViewKey);
+    assert.equal(res.statusCode, 201);
+    assert.equal(res.json().network, "stagenet");
+
+    const meta = await t.app.inject({ url: `/api/paylinks/${res.json().id}/meta` });
+    assert.equal(meta.json().network, "stagenet");
+  });
+
+  test("rejects an invalid address with its code", async () => {
+    const wallet = testWallet();
+    const bytes = Buffer.from(cnBase58Decode(wallet.publicAddress));
+    bytes[bytes.length - 1] = bytes[bytes.length - 1]! ^ 0x01;
+
+    const res = await create(cnBase58Encode(bytes), wallet.privateViewKey);
+    assert.equal(res.statusCode, 400);
+    assert.equal(res.json().error, "invalid_request");
+    assert.equal(res.json().code, "invalid_checksum");
+  });
+
+  test("rejects a subaddress", async () => {
+    const wallet = testWallet();
+    const { publicSpendKeyHex, publicViewKeyHex } = decodeAddress(wallet.publicAddress);
+
+    const res = await create(
+      encodeAddress(42, publicSpendKeyHex, publicViewKeyHex),
+      wallet.privateViewKey,
+    );
+    assert.equal(res.statusCode, 400);
+    assert.equal(res.json().code, "subaddress_not_supported");
+  });
+
+  test("rejects a view key that belongs to another wallet", async () => {
+    const wallet = testWallet();
+
+    const res = await create(wallet.publicAddress, testWallet().privateViewKey);
+    assert.equal(res.statusCode, 400);
+    assert.deepEqual(res.json(), {
+      error: "view_key_mismatch",
+      message: "privateViewKey does not belong to publicAddress",
+    });
+  });
+
+  test("rejects a view key that is not a reduced scalar", async () => {
+    const wallet = testWallet();
+
+    const res = await create(wallet.publicAddress, "ff".repeat(32));
+    assert.equal(res.statusCode, 400);
+    assert.equal(res.json().error, "invalid_request");
+    assert.ok(res.json().details.privateViewKey);
+  });
+});
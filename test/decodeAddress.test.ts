@@ -0,0 +1,127 @@
+import "./helpers/env";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { cnBase58Decode, cnBase58Encode } from "../src/monero/base58";
+import {
+  AddressValidationError,
+  decodeAddress,
+  decodeStandardAddress,
+  type AddressErrorCode,
+} from "../src/monero/decodeAddress";
+import { derivePublicKey } from "../src/monero/keys";
+import { encodeAddress, testWallet } from "./helpers/fixtures";
+
+const wallet = testWallet();
+const { publicSpendKeyHex, publicViewKeyHex } = decodeAddress(wallet.publicAddress);
+const paymentId = Buffer.from("0123456789abcdef", "hex");
+
+function withFlippedByte(address: string, offset: number): string {
+  const bytes = Buffer.from(cnBase58Decode(address));
+  const i = offset < 0 ? bytes.length + offset : offset;
+  bytes[i] = bytes[i]! ^ 0x01;
+  return cnBase58Encode(bytes);
+}
+
+function assertAddressError(decode: () => unknown, code: AddressErrorCode) {
+  assert.throws(decode, (err) => err instanceof AddressValidationError && err.code === code);
+}
+
+describe("decodeAddress", () => {
+  const invalid: [string, string, AddressErrorCode][] = [
+    ["a flipped checksum byte", withFlippedByte(wallet.publicAddress, -1), "invalid_checksum"],
+    ["a flipped key byte", withFlippedByte(wallet.publicAddress, 10), "invalid_checksum"],
+    ["characters outside base58", wallet.publicAddress.slice(0, -1) + "0", "invalid_encoding"],
+    ["a bare checksum", cnBase58Encode(Buffer.alloc(4)), "invalid_length"],
+    [
+      "a payment id on a standard prefix",
+      encodeAddress(18, publicSpendKeyHex, publicViewKeyHex, paymentId),
+      "invalid_length",
+    ],
+    [
+      "an integrated prefix without a payment id",
+      encodeAddress(19, publicSpendKeyHex, publicViewKeyHex),
+      "invalid_length",
+    ],
+    ["an unknown prefix", encodeAddress(99, publicSpendKeyHex, publicViewKeyHex), "unknown_network"],
+  ];
+
+  for (const [name, address, code] of invalid) {
+    test(`rejects ${name} with ${code}`, () => {
+      assertAddressError(() => decodeAddress(address), code);
+    });
+  }
+
+  const networks: [number, string, string][] = [
+    [18, "mainnet", "standard"],
+    [42, "mainnet", "subaddress"],
+    [24, "stagenet", "standard"],
+    [36, "stagenet", "subaddress"],
+    [53, "testnet", "standard"],
+    [63, "testnet", "subaddress"],
+  ];
+
+  for (const [prefix, network, type] of networks) {
+    test(`reads prefix ${prefix} as a ${network} ${type} address`, () => {
+      const decoded = decodeAddress(encodeAddress(prefix, publicSpendKeyHex, publicViewKeyHex));
+      assert.equal(decoded.network, network);
+      assert.equal(decoded.type, type);
+      assert.equal(decoded.publicSpendKeyHex, publicSpendKeyHex);
+      assert.equal(decoded.publicViewKeyHex, publicViewKeyHex);
+    });
+  }
+
+  test("reads the payment id of an integrated address", () => {
+    const decoded = decodeAddress(
+      encodeAddress(25, publicSpendKeyHex, publicViewKeyHex, paymentId),
+    );
+    assert.equal(decoded.network, "stagenet");
+    assert.equal(decoded.type, "integrated");
+    assert.equal(decoded.paymentIdHex, "0123456789abcdef");
+  });
+});
+
+describe("decodeStandardAddress", () => {
+  test("accepts primary addresses on every network", () => {
+    assert.equal(decodeStandardAddress(wallet.publicAddress).network, "mainnet");
+    assert.equal(
+      decodeStandardAddress(encodeAddress(24, publicSpendKeyHex, publicViewKeyHex)).network,
+      "stagenet",
+    );
+  });
+
+  const refused: [string, string, AddressErrorCode][] = [
+    [
+      "a subaddress",
+      encodeAddress(42, publicSpendKeyHex, publicViewKeyHex),
+      "subaddress_not_supported",
+    ],
+    [
+      "a testnet subaddress",
+      encodeAddress(63, publicSpendKeyHex, publicViewKeyHex),
+      "subaddress_not_supported",
+    ],
+    [
+      "an integrated address",
+      encodeAddress(19, publicSpendKeyHex, publicViewKeyHex, paymentId),
+      "integrated_address_not_supported",
+    ],
+    [
+      "a stagenet integrated address",
+      encodeAddress(25, publicSpendKeyHex, publicViewKeyHex, paymentId),
+      "integrated_address_not_supported",
+    ],
+  ];
+
+  for (const [name, address, code] of refused) {
+    test(`refuses ${name} with ${code}`, () => {
+      assertAddressError(() => decodeStandardAddress(address), code);
+    });
+  }
+
+  test("keeps the view key that create checks against", () => {
+    assert.equal(
+      decodeStandardAddress(wallet.publicAddress).publicViewKeyHex,
+      derivePublicKey(wallet.privateViewKey),
+    );
+  });
+});
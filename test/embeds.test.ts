@@ -0,0 +1,135 @@
+import "./helpers/env";
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { getConfig } from "../src/config";
+import { buildEmbeds, escapeHtml, type EmbedOptions } from "../src/embeds";
+import { startTestApp, type TestApp } from "./helpers/app";
+import { insertPaylink, testWallet } from "./helpers/fixtures";
+
+const HOSTILE = `"'<b>&</b> ](javascript:x) [/url][url=https://evil.example]`;
+const DONATE_URL = "https://donate.example/d#0f8fad5b-d9cb-469f-a165-70867728950e";
+
+// Text inside an HTML attribute or element that ends neither and opens no tag
+function assertInertHtml(s: string) {
+  assert.doesNotMatch(s, /["'<>]/);
+  assert.doesNotMatch(s, /&(?!(amp|lt|gt|quot|#39);)/);
+}
+
+function attribute(html: string, name: string): string {
+  const match = new RegExp(` ${name}="([^"]*)"`).exec(html);
+  assert.ok(match, `${name} attribute`);
+  return match[1]!;
+}
+
+describe("escapeHtml", () => {
+  test("escapes every character that is special in HTML", () => {
+    assert.equal(escapeHtml(`"'<>&`), "&quot;&#39;&lt;&gt;&amp;");
+    assert.equal(escapeHtml("&amp;"), "&amp;amp;");
+  });
+});
+
+describe("buildEmbeds", () => {
+  const opts: EmbedOptions = { theme: "dark", size: "small", buttonText: HOSTILE };
+  const embeds = buildEmbeds(DONATE_URL, HOSTILE, opts);
+
+  const elementText = (html: string) => {
+    const match = /<a [^>]*>([^<]*)<\/a>/.exec(html);
+    assert.ok(match, "link text");
+    return match[1]!;
+  };
+
+  test("html: escapes the button text", () => {
+    assert.equal(elementText(embeds.html), escapeHtml(HOSTILE));
+    assertInertHtml(elementText(embeds.html));
+    assert.equal(attribute(embeds.html, "href"), DONATE_URL);
+  });
+
+  test("button: escapes the text and the label in the title", () => {
+    assert.equal(elementText(embeds.button), escapeHtml(HOSTILE));
+    const title = attribute(embeds.button, "title");
+    assertInertHtml(title);
+    assert.equal(title, escapeHtml(`${HOSTILE}: ${HOSTILE}`));
+  });
+
+  test("iframe: escapes the label in the title", () => {
+    const title = attribute(embeds.iframe, "title");
+    assertInertHtml(title);
+    assert.equal(title, escapeHtml(`${HOSTILE}: ${HOSTILE}`));
+    assert.match(embeds.iframe, /^<iframe [^<>]*><\/iframe>\n$/);
+    assert.equal(attribute(embeds.iframe, "width"), "320");
+  });
+
+  test("markdown: keeps the text from closing the link", () => {
+    const match = /^\[((?:\\.|[^\\\]])*)\]\(([^()\s]*)\)$/.exec(embeds.markdown);
+    assert.ok(match, embeds.markdown);
+    assert.equal(match[1]!.replace(/\\(.)/g, "$1"), HOSTILE);
+    assert.equal(match[2], DONATE_URL);
+  });
+
+  test("markdown: encodes what would end the link destination", () => {
+    const { markdown } = buildEmbeds("https://donate.example/d (x)#id", null, opts);
+    assert.match(markdown, /\(https:\/\/donate\.example\/d%20%28x%29#id\)$/);
+  });
+
+  test("bbcode: drops brackets so the text can't open or close tags", () => {
+    const match = /^\[url=([^\][]*)\]([^\][]*)\[\/url\]$/.exec(embeds.bbcode);
+    assert.ok(match, embeds.bbcode);
+    assert.equal(match[1], DONATE_URL);
+    assert.equal(match[2], HOSTILE.replace(/[[\]]/g, ""));
+  });
+});
+
+describe("GET /oembed", () => {
+  let t: TestApp;
+
+  before(async () => {
+    t = await startTestApp();
+  });
+
+  after(async () => {
+    await t.stop();
+  });
+
+  const oembed = (query: Record<string, string>) =>
+    t.app.inject({ url: "/oembed", query });
+
+  test("describes the donation page with an escaped title", async () => {
+    const paylinkId = await insertPaylink(t.database.pool, testWallet(), { label: HOSTILE });
+
+    const res = await oembed({
+      url: `${getConfig().donateBaseUrl}${paylinkId}`,
+      maxwidth: "200",
+    });
+    assert.equal(res.statusCode, 200);
+    const body = res.json();
+    // A JSON string, escaped by whoever renders it
+    assert.equal(body.title, `Donate XMR: ${HOSTILE}`);
+    assert.deepEqual([body.width, body.height], [200, 300]);
+    assert.equal(attribute(body.html, "title"), escapeHtml(body.title));
+    assertInertHtml(attribute(body.html, "title"));
+  });
+
+  test("answers 404 for URLs outside DONATE_BASE_URL", async () => {
+    const paylinkId = await insertPaylink(t.database.pool, testWallet());
+    const base = getConfig().donateBaseUrl;
+
+    for (const url of [
+      `https://evil.example/d#${paylinkId}`,
+      `${base.replace("https://", "http://")}${paylinkId}`,
+      `https://evil.example/?${base}${paylinkId}`,
+      `${base}${paylinkId}/extra`,
+      paylinkId,
+    ]) {
+      const res = await oembed({ url });
+      assert.equal(res.statusCode, 404, url);
+      assert.deepEqual(res.json(), { error: "paylink_unavailable" });
+    }
+  });
+
+  test("only speaks JSON", async () => {
+    const paylinkId = await insertPaylink(t.database.pool, testWallet());
+
+    const res = await oembed({ url: `${getConfig().donateBaseUrl}${paylinkId}`, format: "xml" });
+    assert.equal(res.statusCode, 501);
+  });
+});
@@ -0,0 +1,43 @@
+// test/helpers/app.ts
+
+import type { Pool } from "pg";
+import type { buildApp } from "../../src/server";
+import { startTestDatabase, type TestDatabase } from "./database";
+
+export type TestApp = {
+  app: Awaited<ReturnType<typeof buildApp>>;
+  database: TestDatabase;
+  stop(): Promise<void>;
+};
+
+/**
+ * Start a migrated test database and build the app against it. The app's
+ * pool is created when src/db is first loaded, so the server is imported
+ * only once DATABASE_URL points at the database.
+ */
+export async function startTestApp(): Promise<TestApp> {
+  const database = await startTestDatabase();
+  process.env.DATABASE_URL = database.url;
+
+  let app: TestApp["app"];
+  let pool: Pool;
+  try {
+    ({ pool } = await import("../../src/db"));
+    const { buildApp } = await import("../../src/server");
+    app = await buildApp({ logger: false });
+  } catch (err) {
+    // A running database would keep the test process alive
+    await database.stop();
+    throw err;
+  }
+
+  return {
+    app,
+    database,
+    async stop() {
+      await app.close();
+      await pool.end();
+      await database.stop();
+    },
+  };
+}
@@ -0,0 +1,68 @@
+// test/helpers/database.ts
+//
+// A throwaway Postgres per test file: PGlite (Postgres compiled to WASM)
+// behind its wire-protocol server, so pg and node-pg-migrate connect to it
+// like to any other database. Queries of concurrent connections are
+// serialized, and an open transaction holds the others back until it ends.
+// Parameterized queries sent concurrently outside a transaction can get
+// mixed up ("unnamed prepared statement does not exist"), so tests await
+// their own queries one at a time.
+
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { pgcrypto } from "@electric-sql/pglite/contrib/pgcrypto";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+import { Pool } from "pg";
+
+export const MIGRATIONS_DIR = path.resolve(__dirname, "..", "..", "migrations");
+
+export type TestDatabase = {
+  url: string;
+  pool: Pool;
+  /** Run migrations like `npm run migrate` (all of them by default). */
+  migrate(direction: "up" | "down", count?: number): Promise<void>;
+  stop(): Promise<void>;
+};
+
+export async function startTestDatabase(
+  opts: { migrate?: boolean } = {},
+): Promise<TestDatabase> {
+  const db = await PGlite.create({ extensions: { pgcrypto } });
+  const server = new PGLiteSocketServer({
+    db,
+    host: "127.0.0.1",
+    port: 0,
+    maxConnections: 20,
+  });
+  await server.start();
+
+  const url = `postgres://postgres@${server.getServerConn()}/postgres`;
+  const pool = new Pool({ connectionString: url });
+
+  const migrate = async (direction: "up" | "down", count = Infinity) => {
+    const { runner } = await import("node-pg-migrate");
+    await runner({
+      databaseUrl: url,
+      dir: MIGRATIONS_DIR,
+      direction,
+      count,
+      migrationsTable: "pgmigrations",
+      log: () => {},
+    });
+  };
+
+  if (opts.migrate !== false) await migrate("up");
+
+  return {
+    url,
+    pool,
+    migrate,
+    async stop() {
+      await pool.end();
+      // Let the server see the connections close before it goes away
+      await new Promise((resolve) => setImmediate(resolve));
+      await server.stop();
+      await db.close();
+    },
+  };
+}
@@ -0,0 +1,22 @@
+// test/helpers/env.ts
+//
+// Settings for the tests. Import first, before any module reads the config.
+// Values from a local .env never override these (dotenv keeps what is set).
+
+process.env.NODE_ENV = "test";
+// Replaced by the test database's URL before the app's pool is created
+process.env.DATABASE_URL = "postgres://test-database-not-started";
+process.env.PAYLINKS_MASTER_KEY_B64 = Buffer.alloc(32, 7).toString("base64");
+process.env.PAYLINKS_FINGERPRINT_KEY = "test-fingerprint-key";
+// Empty means unset; background features are enabled by each test
+for (const name of [
+  "PAYLINKS_MASTER_KEYS",
+  "PAYLINKS_ACTIVE_KEY_VERSION",
+  "PAYMENTS_BACKEND",
+  "PRICE_PROVIDER",
+  "METRICS_PORT",
+  "SUBADDRESS_POOL_SIZE",
+  "DERIVATION_WORKERS",
+]) {
+  process.env[name] = "";
+}
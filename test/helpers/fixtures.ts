@@ -0,0 +1,145 @@
+// test/helpers/fixtures.ts
+
+import crypto from "crypto";
+import type { Pool } from "pg";
+import { encryptViewKey } from "../../src/crypto";
+import { cnBase58Encode } from "../../src/monero/base58";
+import {
+  bytesToNumberLE,
+  encodePoint,
+  L,
+  numberToBytesLE,
+  reduceScalar,
+  scalarMultBase,
+} from "../../src/monero/ed25519";
+import { keccak256 } from "../../src/monero/keccak";
+import { derivePublicKey } from "../../src/monero/keys";
+
+const MAINNET_STANDARD_PREFIX = 18;
+
+export type TestWallet = {
+  publicAddress: string;
+  privateSpendKey: string;
+  privateViewKey: string;
+};
+
+function randomPrivateKey(): string {
+  return Buffer.from(numberToBytesLE(reduceScalar(crypto.randomBytes(64)))).toString("hex");
+}
+
+/**
+ * Encode an address from its parts, with a valid checksum. `extra` is
+ * appended after the keys (an integrated address's payment id).
+ */
+export function encodeAddress(
+  prefix: number,
+  publicSpendKeyHex: string,
+  publicViewKeyHex: string,
+  extra: Buffer = Buffer.alloc(0),
+): string {
+  const body = Buffer.concat([
+    Buffer.from([prefix]),
+    Buffer.from(publicSpendKeyHex, "hex"),
+    Buffer.from(publicViewKeyHex, "hex"),
+    extra,
+  ]);
+  const checksum = keccak256(body).subarray(0, 4);
+  return cnBase58Encode(Buffer.concat([body, checksum]));
+}
+
+/** A random wallet with valid keys, on mainnet unless `prefix` says otherwise. */
+export function testWallet(prefix = MAINNET_STANDARD_PREFIX): TestWallet {
+  const privateSpendKey = randomPrivateKey();
+  const privateViewKey = randomPrivateKey();
+  return {
+    publicAddress: encodeAddress(
+      prefix,
+      derivePublicKey(privateSpendKey),
+      derivePublicKey(privateViewKey),
+    ),
+    privateSpendKey,
+    privateViewKey,
+  };
+}
+
+function writeVarint(n: number): Buffer {
+  const out: number[] = [];
+  for (; n >= 0x80; n = Math.floor(n / 128)) out.push((n & 0x7f) | 0x80);
+  out.push(n);
+  return Buffer.from(out);
+}
+
+/**
+ * Sign `message` with the wallet's spend key like wallet2's sign_message
+ * (crypto::generate_signature over get_message_hash, SigV2 encoding).
+ */
+export function signMessage(wallet: TestWallet, message: string): string {
+  const publicSpendKey = Buffer.from(derivePublicKey(wallet.privateSpendKey), "hex");
+  const publicViewKey = Buffer.from(derivePublicKey(wallet.privateViewKey), "hex");
+  const data = Buffer.from(message, "utf8");
+  const hash = keccak256(
+    Buffer.concat([
+      Buffer.from("MoneroMessageSignature\0", "ascii"),
+      publicSpendKey,
+      publicViewKey,
+      Buffer.from([0]), // spend key mode
+      writeVarint(data.length),
+      data,
+    ]),
+  );
+
+  const k = reduceScalar(crypto.randomBytes(64));
+  const comm = encodePoint(scalarMultBase(k));
+  const c = reduceScalar(keccak256(Buffer.concat([hash, publicSpendKey, comm])));
+  const secret = bytesToNumberLE(Buffer.from(wallet.privateSpendKey, "hex"));
+  const r = (((k - c * secret) % L) + L) % L;
+  return `SigV2${cnBase58Encode(Buffer.concat([numberToBytesLE(c), numberToBytesLE(r)]))}`;
+}
+
+/**
+ * Insert a paylink for `wallet` straight into the database. `columns`
+ * overrides or adds paylinks columns. Returns the id.
+ */
+export async function insertPaylink(
+  pool: Pool,
+  wallet: TestWallet,
+  columns: Record<string, unknown> = {},
+): Promise<string> {
+  // Encrypted with key version 1, the column default
+  const { ciphertextB64, nonceB64 } = encryptViewKey(wallet.privateViewKey);
+  const row: Record<string, unknown> = {
+    label: "Test paylink",
+    public_address: wallet.publicAddress,
+    encrypted_view_key: ciphertextB64,
+    encryption_nonce: nonceB64,
+    owner_key: crypto.randomBytes(32).toString("hex"),
+    ...columns,
+  };
+  const names = Object.keys(row);
+  const res = await pool.query<{ id: string }>(
+    `
+    INSERT INTO paylinks (${names.join(", ")})
+    VALUES (${names.map((_, i) => `$${i + 1}`).join(", ")})
+    RETURNING id
+    `,
+    Object.values(row),
+  );
+  return res.rows[0]!.id;
+}
+
+/** Insert an invoice for subaddress `index` of a paylink. Returns the id. */
+export async function insertInvoice(
+  pool: Pool,
+  paylinkId: string,
+  index: number,
+): Promise<string> {
+  const res = await pool.query<{ id: string }>(
+    `
+    INSERT INTO invoices (paylink_id, subaddress_index, address, expires_at)
+    VALUES ($1, $2, $3, now() + interval '1 hour')
+    RETURNING id
+    `,
+    [paylinkId, index, `8subaddress${index}`],
+  );
+  return res.rows[0]!.id;
+}
@@ -0,0 +1,90 @@
+import "./helpers/env";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { verifySpendKeySignature } from "../src/monero/messageSignature";
+import { signMessage, testWallet, type TestWallet } from "./helpers/fixtures";
+
+// Made with wallet2 (sign_message through monero-ts) for a throwaway wallet
+const WALLET2: TestWallet = {
+  publicAddress:
+    "47G354B8w2VYacuGxcCTrUThbwqNiGgkSTbkTfsmojuQhowr4LkTnKQj7wXJ2utDNq9hKhxYCbi5EhbVJ15PbymFK1PTeVg",
+  privateSpendKey: "8a26f5c6fa359dde62111f05e1d4836e2c037664f5495ea08d679aecdef85b0b",
+  privateViewKey: "4215740a735ed52ddca73db443c98092963473442270e31ba7c9ca65993e910b",
+};
+const WALLET2_MESSAGE = "Anonomi Paylinks owner authentication\ntest vector";
+const WALLET2_SPEND_KEY_SIGNATURE =
+  "SigV2N45ihTdxQh26BAVRrLDxeYfi3arDZ4YMjUYULsSRjwyQDstUn1YpJ2SLRh3hXKnanVQd2ctAFZxsHaxRnxFvgMX2";
+const WALLET2_VIEW_KEY_SIGNATURE =
+  "SigV2Yy5m5okbZku4Hp9WQyAkDyYXY5pe4FXpYRB2EQs7W7Wp3zU9cZAG8jDFpqdCJGpMUoHspB39HRwLpaSehgdcNcLV";
+
+function withChangedChar(signature: string, i: number): string {
+  const replacement = signature[i] === "2" ? "3" : "2";
+  return signature.slice(0, i) + replacement + signature.slice(i + 1);
+}
+
+describe("verifySpendKeySignature", () => {
+  test("accepts a wallet2 spend key signature", () => {
+    assert.equal(
+      verifySpendKeySignature(WALLET2_MESSAGE, WALLET2.publicAddress, WALLET2_SPEND_KEY_SIGNATURE),
+      true,
+    );
+  });
+
+  test("accepts what the test signer produces", () => {
+    const signature = signMessage(WALLET2, WALLET2_MESSAGE);
+    assert.equal(verifySpendKeySignature(WALLET2_MESSAGE, WALLET2.publicAddress, signature), true);
+
+    const wallet = testWallet();
+    // Longer than 127 bytes, so the length takes two varint bytes
+    const message = "x".repeat(300);
+    assert.equal(
+      verifySpendKeySignature(message, wallet.publicAddress, signMessage(wallet, message)),
+      true,
+    );
+  });
+
+  test("refuses view key signatures", () => {
+    assert.equal(
+      verifySpendKeySignature(WALLET2_MESSAGE, WALLET2.publicAddress, WALLET2_VIEW_KEY_SIGNATURE),
+      false,
+    );
+  });
+
+  test("refuses a changed message", () => {
+    for (const message of [`${WALLET2_MESSAGE} `, WALLET2_MESSAGE.replace("test", "Test"), ""]) {
+      assert.equal(
+        verifySpendKeySignature(message, WALLET2.publicAddress, WALLET2_SPEND_KEY_SIGNATURE),
+        false,
+      );
+    }
+  });
+
+  test("refuses a changed or malformed signature", () => {
+    const signatures = [
+      withChangedChar(WALLET2_SPEND_KEY_SIGNATURE, 10),
+      withChangedChar(WALLET2_SPEND_KEY_SIGNATURE, WALLET2_SPEND_KEY_SIGNATURE.length - 1),
+      WALLET2_SPEND_KEY_SIGNATURE.replace("SigV2", "SigV1"),
+      WALLET2_SPEND_KEY_SIGNATURE.slice(0, -11),
+      `SigV2${"1".repeat(88)}`,
+      "not a signature",
+    ];
+    for (const signature of signatures) {
+      assert.equal(
+        verifySpendKeySignature(WALLET2_MESSAGE, WALLET2.publicAddress, signature),
+        false,
+        signature,
+      );
+    }
+  });
+
+  test("refuses another wallet's address", () => {
+    assert.equal(
+      verifySpendKeySignature(
+        WALLET2_MESSAGE,
+        testWallet().publicAddress,
+        WALLET2_SPEND_KEY_SIGNATURE,
+      ),
+      false,
+    );
+  });
+});
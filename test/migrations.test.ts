@@ -0,0 +1,109 @@
+import "./helpers/env";
+import assert from "node:assert/strict";
+import fs from "fs";
+import { after, before, describe, test } from "node:test";
+import { MIGRATIONS_DIR, startTestDatabase, type TestDatabase } from "./helpers/database";
+import { enqueueWebhookEvent } from "../src/webhooks/events";
+import { insertInvoice, insertPaylink, testWallet } from "./helpers/fixtures";
+
+const MIGRATION_COUNT = fs.readdirSync(MIGRATIONS_DIR).filter((f) => /^\d+_.*\.ts$/.test(f)).length;
+
+describe("migrations", () => {
+  let database: TestDatabase;
+
+  before(async () => {
+    database = await startTestDatabase({ migrate: false });
+  });
+
+  after(async () => {
+    await database.stop();
+  });
+
+  const appliedCount = async () => {
+    const res = await database.pool.query<{ count: string }>(
+      `SELECT count(*) AS count FROM pgmigrations`,
+    );
+    return Number(res.rows[0]!.count);
+  };
+
+  test("upgrade a database that already has paylinks", async () => {
+    // The schema before sequential mode, with a paylink as the app wrote it
+    await database.migrate("up", 4);
+    await insertPaylink(database.pool, testWallet(), { gen_mode: "random" });
+
+    await database.migrate("up");
+    assert.equal(await appliedCount(), MIGRATION_COUNT);
+
+    const res = await database.pool.query<{ gen_mode: string; exhaustion_policy: string }>(
+      `SELECT gen_mode, exhaustion_policy FROM paylinks`,
+    );
+    assert.deepEqual(res.rows, [{ gen_mode: "random", exhaustion_policy: "refuse" }]);
+  });
+
+  test("column defaults satisfy the checks", async () => {
+    const paylinkId = await insertPaylink(database.pool, testWallet());
+    const paylink = await database.pool.query<{
+      gen_mode: string;
+      exhaustion_policy: string;
+      preset_amounts_atomic: string[];
+    }>(
+      `
+      SELECT gen_mode, exhaustion_policy, preset_amounts_atomic::text[]
+      FROM paylinks WHERE id = $1
+      `,
+      [paylinkId],
+    );
+    assert.deepEqual(paylink.rows[0], {
+      gen_mode: "random",
+      exhaustion_policy: "refuse",
+      preset_amounts_atomic: [],
+    });
+
+    const invoiceId = await insertInvoice(database.pool, paylinkId, 1);
+    const invoice = await database.pool.query<{ status: string }>(
+      `SELECT status FROM invoices WHERE id = $1`,
+      [invoiceId],
+    );
+    assert.equal(invoice.rows[0]!.status, "pending");
+
+    await database.pool.query(
+      `
+      INSERT INTO webhooks (paylink_id, url, events, encrypted_secret, secret_nonce, key_version)
+      VALUES ($1, 'https://example.com/hook', '{invoice.created}', 'c', 'n', 1)
+      `,
+      [paylinkId],
+    );
+    const client = await database.pool.connect();
+    try {
+      const queued = await enqueueWebhookEvent(client, paylinkId, "invoice.created", {
+        invoiceId,
+        address: "8subaddress1",
+        amount: "",
+        status: "pending",
+      });
+      assert.equal(queued, 1);
+    } finally {
+      client.release();
+    }
+    const delivery = await database.pool.query<{ status: string }>(
+      `SELECT status FROM webhook_deliveries`,
+    );
+    assert.equal(delivery.rows[0]!.status, "pending");
+  });
+
+  test("revert every migration and apply them again", async () => {
+    await database.migrate("down");
+    assert.equal(await appliedCount(), 0);
+
+    const tables = await database.pool.query<{ table_name: string }>(
+      `
+      SELECT table_name FROM information_schema.tables
+      WHERE table_schema = 'public' AND table_name <> 'pgmigrations'
+      `,
+    );
+    assert.deepEqual(tables.rows, []);
+
+    await database.migrate("up");
+    assert.equal(await appliedCount(), MIGRATION_COUNT);
+  });
+});
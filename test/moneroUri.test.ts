@@ -0,0 +1,78 @@
+import "./helpers/env";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  buildMoneroUri,
+  MoneroUriError,
+  parseMoneroUri,
+  type MoneroUri,
+} from "../src/moneroUri";
+import { testWallet } from "./helpers/fixtures";
+
+const alice = testWallet().publicAddress;
+const bob = testWallet().publicAddress;
+
+function roundTrip(uri: MoneroUri) {
+  const { network, ...parsed } = parseMoneroUri(buildMoneroUri(uri));
+  assert.equal(network, "mainnet");
+  return parsed;
+}
+
+function assertUriError(input: string, code: string) {
+  assert.throws(
+    () => parseMoneroUri(input),
+    (err) => err instanceof MoneroUriError && err.code === code,
+  );
+}
+
+describe("monero: URIs", () => {
+  test("round-trip a single recipient", () => {
+    const uri: MoneroUri = {
+      recipients: [{ address: alice, amount: "0.000000000001", name: "Café; +Friends & co" }],
+      description: "Thanks! 100% (really)",
+    };
+    assert.deepEqual(roundTrip(uri), { ...uri, extraParameters: undefined });
+  });
+
+  test("round-trip a bare address", () => {
+    assert.equal(buildMoneroUri({ recipients: [{ address: alice }] }), `monero:${alice}`);
+    assert.deepEqual(roundTrip({ recipients: [{ address: alice }] }), {
+      recipients: [{ address: alice, amount: undefined, name: undefined }],
+      description: undefined,
+      extraParameters: undefined,
+    });
+  });
+
+  test("round-trip several recipients with empty slots", () => {
+    const uri: MoneroUri = {
+      recipients: [
+        { address: alice, amount: "1.5", name: undefined },
+        { address: bob, amount: undefined, name: "Bob" },
+      ],
+      description: undefined,
+      extraParameters: [["x-ref", "a=b&c"]],
+    };
+    const built = buildMoneroUri(uri);
+    assert.match(built, /\?tx_amount=1\.5;&recipient_name=;Bob&x-ref=a%3Db%26c$/);
+    assert.deepEqual(roundTrip(uri), uri);
+  });
+
+  test("reject malformed URIs", () => {
+    assertUriError(`bitcoin:${alice}`, "invalid_scheme");
+    assertUriError("monero:", "no_recipients");
+    assertUriError(`monero:${alice};`, "no_recipients");
+    assertUriError("monero:4notanaddress", "invalid_address");
+    assertUriError(`monero:${alice}?tx_amount=0`, "invalid_amount");
+    assertUriError(`monero:${alice}?tx_amount=1.0000000000001`, "invalid_amount");
+    assertUriError(`monero:${alice};${bob}?tx_amount=1`, "recipient_count_mismatch");
+    assertUriError(`monero:${alice}?tx_amount=1&tx_amount=2`, "duplicate_parameter");
+    assertUriError(`monero:${alice}?tx_description=%E0%A4%A`, "invalid_encoding");
+  });
+
+  test("reject addresses on another network", () => {
+    assert.throws(
+      () => parseMoneroUri(`monero:${alice}`, { network: "stagenet" }),
+      (err) => err instanceof MoneroUriError && err.code === "mixed_networks",
+    );
+  });
+});
@@ -0,0 +1,140 @@
+import "./helpers/env";
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { startTestApp, type TestApp } from "./helpers/app";
+import { insertPaylink, signMessage, testWallet, type TestWallet } from "./helpers/fixtures";
+
+describe("owner signatures", () => {
+  let t: TestApp;
+
+  before(async () => {
+    t = await startTestApp();
+  });
+
+  after(async () => {
+    await t.stop();
+  });
+
+  const fetchChallenge = async (wallet: TestWallet) => {
+    const res = await t.app.inject({
+      method: "POST",
+      url: "/api/paylinks/challenge",
+      payload: { publicAddress: wallet.publicAddress },
+    });
+    assert.equal(res.statusCode, 200);
+    return res.json() as { nonce: string; message: string; expiresAt: string };
+  };
+
+  const signedChallenge = async (wallet: TestWallet) => {
+    const { nonce, message } = await fetchChallenge(wallet);
+    return {
+      publicAddress: wallet.publicAddress,
+      nonce,
+      signature: signMessage(wallet, message),
+    };
+  };
+
+  const listIds = async (ownerSignature: Record<string, string>) => {
+    const res = await t.app.inject({
+      method: "POST",
+      url: "/api/paylinks/list",
+      payload: { ownerSignature },
+    });
+    assert.equal(res.statusCode, 200);
+    return (res.json().paylinks as { id: string }[]).map((p) => p.id);
+  };
+
+  test("a valid signature covers every paylink of the address", async () => {
+    const wallet = testWallet();
+    const first = await insertPaylink(t.database.pool, wallet);
+    const second = await insertPaylink(t.database.pool, wallet);
+    await insertPaylink(t.database.pool, testWallet());
+
+    assert.deepEqual(await listIds(await signedChallenge(wallet)), [first, second]);
+  });
+
+  test("a challenge can only be used once", async () => {
+    const wallet = testWallet();
+    const paylinkId = await insertPaylink(t.database.pool, wallet);
+    const ownerSignature = await signedChallenge(wallet);
+
+    assert.deepEqual(await listIds(ownerSignature), [paylinkId]);
+    assert.deepEqual(await listIds(ownerSignature), []);
+  });
+
+  test("a refused signature uses the challenge up", async () => {
+    const wallet = testWallet();
+    const paylinkId = await insertPaylink(t.database.pool, wallet);
+    const { nonce, message } = await fetchChallenge(wallet);
+
+    const { publicAddress } = wallet;
+    const tampered = signMessage(wallet, `${message}\nextra`);
+    assert.deepEqual(await listIds({ publicAddress, nonce, signature: tampered }), []);
+
+    const valid = signMessage(wallet, message);
+    assert.deepEqual(await listIds({ publicAddress, nonce, signature: valid }), []);
+    assert.deepEqual(await listIds(await signedChallenge(wallet)), [paylinkId]);
+  });
+
+  test("another wallet's signature or challenge is refused", async () => {
+    const wallet = testWallet();
+    const other = testWallet();
+    await insertPaylink(t.database.pool, wallet);
+
+    // Signed by another wallet, claimed for this address
+    const { nonce, message } = await fetchChallenge(wallet);
+    const forged = signMessage(other, message);
+    assert.deepEqual(
+      await listIds({ publicAddress: wallet.publicAddress, nonce, signature: forged }),
+      [],
+    );
+
+    // This wallet's challenge presented as the other address's
+    const own = await fetchChallenge(wallet);
+    const signature = signMessage(other, own.message);
+    assert.deepEqual(
+      await listIds({ publicAddress: other.publicAddress, nonce: own.nonce, signature }),
+      [],
+    );
+  });
+
+  test("an expired challenge is refused", async () => {
+    const wallet = testWallet();
+    await insertPaylink(t.database.pool, wallet);
+    const ownerSignature = await signedChallenge(wallet);
+
+    await t.database.pool.query(
+      `UPDATE owner_challenges SET expires_at = now() - interval '1 second' WHERE nonce = $1`,
+      [ownerSignature.nonce],
+    );
+    assert.deepEqual(await listIds(ownerSignature), []);
+  });
+
+  test("a signature still works after the ownerKey was disabled", async () => {
+    const wallet = testWallet();
+    const ownerKey = "12".repeat(32);
+    const paylinkId = await insertPaylink(t.database.pool, wallet, { owner_key: ownerKey });
+
+    const disable = await t.app.inject({
+      method: "POST",
+      url: "/api/paylinks/owner-key",
+      payload: { ownerSignature: await signedChallenge(wallet), enabled: false },
+    });
+    assert.equal(disable.statusCode, 200);
+
+    const byKey = await t.app.inject({
+      method: "POST",
+      url: "/api/paylinks/list",
+      payload: { ownerKey },
+    });
+    assert.deepEqual(byKey.json().paylinks, []);
+
+    const deleted = await t.app.inject({
+      method: "POST",
+      url: `/api/paylinks/${paylinkId}/delete`,
+      payload: { ownerSignature: await signedChallenge(wallet) },
+    });
+    assert.equal(deleted.statusCode, 200);
+    assert.deepEqual(await listIds(await signedChallenge(wallet)), []);
+  });
+});
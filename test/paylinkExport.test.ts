@@ -0,0 +1,73 @@
+import "./helpers/env";
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { openExport, type ExportEnvelope } from "../src/paylinkExport";
+import { startTestApp, type TestApp } from "./helpers/app";
+import { insertPaylink, testWallet } from "./helpers/fixtures";
+
+const FILE_LIMIT = 500;
+
+describe("POST /api/paylinks/export", () => {
+  let t: TestApp;
+
+  before(async () => {
+    t = await startTestApp();
+  });
+
+  after(async () => {
+    await t.stop();
+  });
+
+  const exportFile = async (body: Record<string, unknown>) => {
+    const res = await t.app.inject({ method: "POST", url: "/api/paylinks/export", payload: body });
+    assert.equal(res.statusCode, 200);
+    return res.json() as ExportEnvelope & { truncated: boolean; next: string | null };
+  };
+
+  test("splits large exports into files of up to 500 links", async () => {
+    const wallet = testWallet();
+    const ownerKey = "ab".repeat(32);
+    const firstId = await insertPaylink(t.database.pool, wallet, { owner_key: ownerKey });
+    // Copies of the first link, each created a second later
+    await t.database.pool.query(
+      `
+      INSERT INTO paylinks (label, public_address, encrypted_view_key, encryption_nonce, owner_key, created_at)
+      SELECT label || ' ' || n, public_address, encrypted_view_key, encryption_nonce, owner_key,
+             created_at + make_interval(secs => n)
+      FROM paylinks, generate_series(1, $2::int) AS n
+      WHERE id = $1
+      `,
+      [firstId, FILE_LIMIT],
+    );
+
+    const first = await exportFile({ ownerKey });
+    assert.equal(first.truncated, true);
+    const firstPayload = openExport(first, wallet.publicAddress, wallet.privateViewKey) as {
+      paylinks: { id: string; label: string }[];
+    };
+    assert.equal(firstPayload.paylinks.length, FILE_LIMIT);
+    assert.equal(firstPayload.paylinks[0]!.id, firstId);
+    assert.equal(first.next, firstPayload.paylinks[FILE_LIMIT - 1]!.id);
+
+    const second = await exportFile({ ownerKey, after: first.next });
+    assert.equal(second.truncated, false);
+    assert.equal(second.next, null);
+    const secondPayload = openExport(second, wallet.publicAddress, wallet.privateViewKey) as {
+      paylinks: { label: string }[];
+    };
+    assert.deepEqual(
+      secondPayload.paylinks.map((p) => p.label),
+      [`Test paylink ${FILE_LIMIT}`],
+    );
+  });
+
+  test("exports small owners in one file", async () => {
+    const wallet = testWallet();
+    const ownerKey = "cd".repeat(32);
+    await insertPaylink(t.database.pool, wallet, { owner_key: ownerKey });
+
+    const file = await exportFile({ ownerKey });
+    assert.equal(file.truncated, false);
+    assert.equal(file.next, null);
+  });
+});
@@ -0,0 +1,96 @@
+import "./helpers/env";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { after, before, describe, test } from "node:test";
+import { openExport, sealExport, type ExportEnvelope } from "../src/paylinkExport";
+import { startTestApp, type TestApp } from "./helpers/app";
+import { insertPaylink, testWallet, type TestWallet } from "./helpers/fixtures";
+
+type ExportPayload = { publicAddress: string; paylinks: { id: string; label: string }[] };
+
+describe("POST /api/paylinks/import", () => {
+  let t: TestApp;
+
+  before(async () => {
+    t = await startTestApp();
+  });
+
+  after(async () => {
+    await t.stop();
+  });
+
+  // One paylink of `wallet`, exported and opened
+  const exportedPayload = async (wallet: TestWallet) => {
+    const ownerKey = crypto.randomBytes(32).toString("hex");
+    await insertPaylink(t.database.pool, wallet, { owner_key: ownerKey });
+    const res = await t.app.inject({
+      method: "POST",
+      url: "/api/paylinks/export",
+      payload: { ownerKey },
+    });
+    assert.equal(res.statusCode, 200);
+    const envelope = res.json() as ExportEnvelope;
+    return openExport(envelope, wallet.publicAddress, wallet.privateViewKey) as ExportPayload;
+  };
+
+  const importPayload = (wallet: TestWallet, payload: ExportPayload) =>
+    t.app.inject({
+      method: "POST",
+      url: "/api/paylinks/import",
+      payload: {
+        publicAddress: wallet.publicAddress,
+        privateViewKey: wallet.privateViewKey,
+        export: sealExport(payload, wallet.publicAddress, wallet.privateViewKey),
+      },
+    });
+
+  const labelOf = async (id: string) => {
+    const res = await t.database.pool.query<{ label: string }>(
+      `SELECT label FROM paylinks WHERE id = $1`,
+      [id],
+    );
+    return res.rows[0]?.label;
+  };
+
+  test("creates links under their original ids", async () => {
+    const wallet = testWallet();
+    const payload = await exportedPayload(wallet);
+    const id = crypto.randomUUID();
+    payload.paylinks[0] = { ...payload.paylinks[0]!, id, label: "Moved here" };
+
+    const res = await importPayload(wallet, payload);
+    assert.equal(res.statusCode, 200);
+    assert.deepEqual(res.json(), { imported: 1, skipped: 0 });
+    assert.equal(await labelOf(id), "Moved here");
+  });
+
+  test("counts existing ids without naming them", async () => {
+    const wallet = testWallet();
+    const payload = await exportedPayload(wallet);
+
+    // Importing into the instance it came from
+    const again = await importPayload(wallet, payload);
+    assert.deepEqual(again.json(), { imported: 0, skipped: 1 });
+  });
+
+  test("leaves another owner's paused link alone and doesn't reveal it", async () => {
+    const victimId = await insertPaylink(t.database.pool, testWallet(), {
+      label: "Paused",
+      active: false,
+    });
+    const wallet = testWallet();
+    const payload = await exportedPayload(wallet);
+    const freshId = crypto.randomUUID();
+    payload.paylinks = [
+      { ...payload.paylinks[0]!, id: victimId, label: "Taken over" },
+      { ...payload.paylinks[0]!, id: freshId },
+    ];
+
+    const started = Date.now();
+    const res = await importPayload(wallet, payload);
+    assert.deepEqual(res.json(), { imported: 1, skipped: 1 });
+    assert.doesNotMatch(res.body, new RegExp(`${victimId}|${freshId}`));
+    assert.ok(Date.now() - started >= 200, "padded like the other owner routes");
+    assert.equal(await labelOf(victimId), "Paused");
+  });
+});
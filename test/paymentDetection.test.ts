@@ -0,0 +1,146 @@
+import "./helpers/env";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, before, describe, test } from "node:test";
+import { MockPaymentBackend, type MockTransfer } from "../src/payments/mockBackend";
+import { runPaymentScan, type PaymentWatcherOptions } from "../src/payments/watcher";
+import { startTestDatabase, type TestDatabase } from "./helpers/database";
+import { insertInvoice, insertPaylink, testWallet } from "./helpers/fixtures";
+
+const silentLogger = { info() {}, error() {} };
+
+function watchedAccount(publicAddress: string, accountIndex = 0) {
+  return {
+    walletId: "w",
+    publicAddress,
+    privateViewKey: "00".repeat(32),
+    accountIndex,
+    since: new Date(0),
+  };
+}
+
+describe("MockPaymentBackend", () => {
+  test("returns the transfers of the account's watched subaddresses", async () => {
+    const backend = new MockPaymentBackend();
+    backend.addTransfer({ address: "4a", subaddressIndex: 1, txid: "t1", amount: "0.5", confirmations: 2 });
+    backend.addTransfer({ address: "4a", subaddressIndex: 2, txid: "t2", amount: "1", confirmations: 0 });
+    backend.addTransfer({ address: "4a", accountIndex: 1, subaddressIndex: 1, txid: "t3", amount: "1", confirmations: 0 });
+    backend.addTransfer({ address: "4b", subaddressIndex: 1, txid: "t4", amount: "1", confirmations: 0 });
+
+    const transfers = await backend.getIncomingTransfers(watchedAccount("4a"), [1, 3]);
+    assert.deepEqual(transfers, [
+      { txid: "t1", subaddressIndex: 1, amountAtomic: 500_000_000_000n, confirmations: 2 },
+    ]);
+  });
+
+  test("re-reads the fixture file on every call", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "paylinks-mock-"));
+    const file = path.join(dir, "transfers.json");
+    const backend = new MockPaymentBackend(file);
+    try {
+      // A missing file means no transfers yet
+      assert.deepEqual(await backend.getIncomingTransfers(watchedAccount("4a"), [7]), []);
+
+      const fixture: MockTransfer[] = [
+        { address: "4a", subaddressIndex: 7, txid: "ab12", amount: "0.25", confirmations: 3 },
+      ];
+      fs.writeFileSync(file, JSON.stringify(fixture));
+      const transfers = await backend.getIncomingTransfers(watchedAccount("4a"), [7]);
+      assert.equal(transfers.length, 1);
+      assert.equal(transfers[0]!.amountAtomic, 250_000_000_000n);
+
+      fs.writeFileSync(file, JSON.stringify({ not: "an array" }));
+      await assert.rejects(backend.getIncomingTransfers(watchedAccount("4a"), [7]), /JSON array/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("payment watcher", () => {
+  let database: TestDatabase;
+
+  before(async () => {
+    database = await startTestDatabase();
+  });
+
+  after(async () => {
+    await database.stop();
+  });
+
+  const scan = (backend: MockPaymentBackend) => {
+    const opts: PaymentWatcherOptions = {
+      pool: database.pool,
+      backend,
+      logger: silentLogger,
+      intervalMs: 60_000,
+      watchWindowHours: 24,
+      minConfirmations: 10,
+    };
+    return runPaymentScan(opts);
+  };
+
+  const invoiceStatus = async (invoiceId: string) => {
+    const res = await database.pool.query<{ status: string }>(
+      `SELECT status FROM invoices WHERE id = $1`,
+      [invoiceId],
+    );
+    return res.rows[0]!.status;
+  };
+
+  test("moves an invoice from pending to seen to confirmed", async () => {
+    const wallet = testWallet();
+    const paylinkId = await insertPaylink(database.pool, wallet);
+    const invoiceId = await insertInvoice(database.pool, paylinkId, 5);
+    const otherInvoiceId = await insertInvoice(database.pool, paylinkId, 6);
+
+    const backend = new MockPaymentBackend();
+    assert.deepEqual(await scan(backend), { paylinks: 1, transfers: 0 });
+    assert.equal(await invoiceStatus(invoiceId), "pending");
+
+    const transfer: MockTransfer = {
+      address: wallet.publicAddress,
+      subaddressIndex: 5,
+      txid: "aa".repeat(32),
+      amount: "0.3",
+      confirmations: 0,
+    };
+    backend.addTransfer(transfer);
+    // Another output of the same transaction to the same subaddress
+    backend.addTransfer({ ...transfer, amount: "0.2" });
+
+    await scan(backend);
+    assert.equal(await invoiceStatus(invoiceId), "seen");
+    assert.equal(await invoiceStatus(otherInvoiceId), "pending");
+
+    const payments = await database.pool.query<{ amount_atomic: string; invoice_id: string }>(
+      `SELECT amount_atomic, invoice_id FROM payments WHERE paylink_id = $1`,
+      [paylinkId],
+    );
+    assert.deepEqual(payments.rows, [{ amount_atomic: "500000000000", invoice_id: invoiceId }]);
+
+    transfer.confirmations = 10;
+    await scan(backend);
+    assert.equal(await invoiceStatus(invoiceId), "confirmed");
+  });
+
+  test("ignores transfers to other wallets and skips deleted paylinks", async () => {
+    const wallet = testWallet();
+    const paylinkId = await insertPaylink(database.pool, wallet);
+    const invoiceId = await insertInvoice(database.pool, paylinkId, 1);
+    const deletedWallet = testWallet();
+    const deletedId = await insertPaylink(database.pool, deletedWallet, { deleted_at: new Date() });
+    const deletedInvoiceId = await insertInvoice(database.pool, deletedId, 1);
+
+    const backend = new MockPaymentBackend();
+    for (const address of [testWallet().publicAddress, deletedWallet.publicAddress]) {
+      backend.addTransfer({ address, subaddressIndex: 1, txid: "bb".repeat(32), amount: "1", confirmations: 20 });
+    }
+
+    await scan(backend);
+    assert.equal(await invoiceStatus(invoiceId), "pending");
+    assert.equal(await invoiceStatus(deletedInvoiceId), "pending");
+  });
+});
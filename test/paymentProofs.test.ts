@@ -0,0 +1,80 @@
+import "./helpers/env";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, test } from "node:test";
+import { MockPaymentBackend, type MockTransfer } from "../src/payments/mockBackend";
+
+const TXID = "cc".repeat(32);
+const TX_KEY = "dd".repeat(32);
+
+function output(columns: Partial<MockTransfer>): MockTransfer {
+  return {
+    address: "4primary",
+    subaddressIndex: 3,
+    txid: TXID,
+    amount: "0.1",
+    confirmations: 12,
+    subaddress: "8donor",
+    txKey: TX_KEY,
+    ...columns,
+  };
+}
+
+describe("MockPaymentBackend.checkTxKey", () => {
+  test("returns null for an unknown transaction", async () => {
+    const backend = new MockPaymentBackend();
+    backend.addTransfer(output({}));
+
+    assert.equal(await backend.checkTxKey("ee".repeat(32), TX_KEY, "8donor"), null);
+  });
+
+  test("sums the outputs the key proves went to the address", async () => {
+    const backend = new MockPaymentBackend();
+    backend.addTransfer(output({ amount: "0.1" }));
+    backend.addTransfer(output({ amount: "0.05" }));
+    // Change back to the sender in the same transaction
+    backend.addTransfer(output({ amount: "2", subaddress: "8change" }));
+
+    assert.deepEqual(await backend.checkTxKey(TXID, TX_KEY, "8donor"), {
+      amountAtomic: 150_000_000_000n,
+      confirmations: 12,
+      inPool: false,
+    });
+  });
+
+  test("proves nothing with a wrong key or address", async () => {
+    const backend = new MockPaymentBackend();
+    backend.addTransfer(output({}));
+
+    const wrongKey = await backend.checkTxKey(TXID, "ff".repeat(32), "8donor");
+    assert.deepEqual(wrongKey, { amountAtomic: 0n, confirmations: 12, inPool: false });
+
+    const wrongAddress = await backend.checkTxKey(TXID, TX_KEY, "8someoneelse");
+    assert.deepEqual(wrongAddress, { amountAtomic: 0n, confirmations: 12, inPool: false });
+  });
+
+  test("reports an unconfirmed transaction as in the pool", async () => {
+    const backend = new MockPaymentBackend();
+    backend.addTransfer(output({ confirmations: 0 }));
+
+    const check = await backend.checkTxKey(TXID, TX_KEY, "8donor");
+    assert.equal(check?.inPool, true);
+    assert.equal(check?.amountAtomic, 100_000_000_000n);
+  });
+
+  test("verifies outputs from the fixture file", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "paylinks-mock-"));
+    const file = path.join(dir, "transfers.json");
+    try {
+      fs.writeFileSync(file, JSON.stringify([output({ amount: "1.5" })]));
+      const backend = new MockPaymentBackend(file);
+
+      const check = await backend.checkTxKey(TXID, TX_KEY, "8donor");
+      assert.equal(check?.amountAtomic, 1_500_000_000_000n);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,147 @@
+import "./helpers/env";
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { checkPowSolution, prunePowChallenges } from "../src/pow";
+import { startTestApp, type TestApp } from "./helpers/app";
+import { insertPaylink, testWallet } from "./helpers/fixtures";
+
+function solve(challenge: string, difficulty: number): string {
+  for (let i = 0; ; i++) {
+    const solution = i.toString(36);
+    if (checkPowSolution(challenge, solution, difficulty)) return solution;
+  }
+}
+
+describe("proof-of-work gate", () => {
+  let t: TestApp;
+
+  before(async () => {
+    t = await startTestApp();
+  });
+
+  after(async () => {
+    await t.stop();
+  });
+
+  const gatedPaylink = () =>
+    insertPaylink(t.database.pool, testWallet(), { pow_difficulty: 6 });
+
+  const fetchChallenge = async (paylinkId: string) => {
+    const res = await t.app.inject({
+      method: "POST",
+      url: `/api/paylinks/${paylinkId}/pow-challenge`,
+    });
+    assert.equal(res.statusCode, 200);
+    return res.json() as { challenge: string; difficulty: number };
+  };
+
+  const request = (paylinkId: string, pow?: { challenge: string; solution: string }) =>
+    t.app.inject({
+      method: "POST",
+      url: `/api/paylinks/${paylinkId}/request`,
+      payload: pow ? { pow } : {},
+    });
+
+  const storedChallenges = async () => {
+    const res = await t.database.pool.query<{ count: string }>(
+      `SELECT count(*) AS count FROM pow_challenges`,
+    );
+    return Number(res.rows[0]!.count);
+  };
+
+  test("issues challenges without storing them", async () => {
+    const paylinkId = await gatedPaylink();
+    const before = await storedChallenges();
+
+    for (let i = 0; i < 5; i++) await fetchChallenge(paylinkId);
+    assert.equal(await storedChallenges(), before);
+  });
+
+  test("accepts a solved challenge once", async () => {
+    const paylinkId = await gatedPaylink();
+    const { challenge, difficulty } = await fetchChallenge(paylinkId);
+    assert.equal(difficulty, 6);
+    const solution = solve(challenge, difficulty);
+
+    assert.equal((await request(paylinkId)).statusCode, 403);
+
+    // A wrong solution doesn't use the challenge up
+    let wrong = 0;
+    while (checkPowSolution(challenge, wrong.toString(36), difficulty)) wrong++;
+    const rejected = await request(paylinkId, { challenge, solution: wrong.toString(36) });
+    assert.equal(rejected.statusCode, 403);
+
+    assert.equal((await request(paylinkId, { challenge, solution })).statusCode, 200);
+
+    const reused = await request(paylinkId, { challenge, solution });
+    assert.equal(reused.statusCode, 403);
+    assert.deepEqual(reused.json(), { error: "pow_required" });
+  });
+
+  test("leaves the challenge unused when the request fails", async () => {
+    const paylinkId = await insertPaylink(t.database.pool, testWallet(), {
+      pow_difficulty: 6,
+      fixed_amount_atomic: "100000000000",
+      gen_mode: "sequential",
+      min_index: 1,
+      max_index: 1,
+    });
+    const before = await storedChallenges();
+
+    const first = await fetchChallenge(paylinkId);
+    const pow = { challenge: first.challenge, solution: solve(first.challenge, first.difficulty) };
+    const amountRes = await t.app.inject({
+      method: "POST",
+      url: `/api/paylinks/${paylinkId}/request`,
+      payload: { amount: "0.2", pow },
+    });
+    assert.equal(amountRes.statusCode, 400);
+    assert.equal((await request(paylinkId, pow)).statusCode, 200);
+
+    const second = await fetchChallenge(paylinkId);
+    const nextPow = {
+      challenge: second.challenge,
+      solution: solve(second.challenge, second.difficulty),
+    };
+    assert.equal((await request(paylinkId, nextPow)).statusCode, 409);
+    assert.equal(await storedChallenges(), before + 1);
+
+    await t.database.pool.query(`UPDATE paylinks SET max_index = 2 WHERE id = $1`, [paylinkId]);
+    assert.equal((await request(paylinkId, nextPow)).statusCode, 200);
+  });
+
+  test("refuses challenges issued for another paylink or altered", async () => {
+    const paylinkId = await gatedPaylink();
+    const otherId = await gatedPaylink();
+    const { challenge, difficulty } = await fetchChallenge(otherId);
+
+    const solution = solve(challenge, difficulty);
+    assert.equal((await request(paylinkId, { challenge, solution })).statusCode, 403);
+
+    // Lowering the difficulty breaks the signature
+    const easier = challenge.replace(/^(\d+)\.\d+\./, "$1.0.");
+    assert.equal(
+      (await request(otherId, { challenge: easier, solution: "0" })).statusCode,
+      403,
+    );
+  });
+
+  test("prunes used challenges once they expired", async () => {
+    const paylinkId = await gatedPaylink();
+    await t.database.pool.query(
+      `
+      INSERT INTO pow_challenges (nonce, paylink_id, difficulty, expires_at, used_at)
+      VALUES ('expired', $1, 6, now() - interval '1 second', now()),
+             ('current', $1, 6, now() + interval '1 minute', now())
+      `,
+      [paylinkId],
+    );
+
+    assert.ok((await prunePowChallenges(t.database.pool)) >= 1);
+    const left = await t.database.pool.query<{ nonce: string }>(
+      `SELECT nonce FROM pow_challenges WHERE paylink_id = $1`,
+      [paylinkId],
+    );
+    assert.deepEqual(left.rows, [{ nonce: "current" }]);
+  });
+});
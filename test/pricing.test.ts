@@ -0,0 +1,110 @@
+import "./helpers/env";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, afterEach, before, describe, test } from "node:test";
+import { fiatToAtomic } from "../src/pricing/convert";
+import { KrakenRateProvider } from "../src/pricing/krakenProvider";
+import { createRateProvider, RateUnavailableError } from "../src/pricing/provider";
+
+// Read when createRateProvider first loads the config
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "paylinks-rates-"));
+const fixtureFile = path.join(dir, "rates.json");
+process.env.PRICE_PROVIDER = "fixture";
+process.env.PRICE_FIXTURE_FILE = fixtureFile;
+process.env.PRICE_MAX_AGE_SECONDS = "600";
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("fixture rate provider", () => {
+  const providerFor = async (fixture: unknown) => {
+    fs.writeFileSync(fixtureFile, JSON.stringify(fixture));
+    const provider = await createRateProvider();
+    assert.ok(provider);
+    return provider;
+  };
+
+  test("quotes the file's rates at the current time", async () => {
+    const provider = await providerFor({ rates: { usd: "160.12", EUR: 148.3 } });
+    assert.equal(provider.name, "fixture");
+    assert.deepEqual(provider.currencies, ["USD", "EUR"]);
+
+    const quote = await provider.getRate("EUR");
+    assert.equal(quote.rate, "148.3");
+    assert.equal(quote.source, "fixture");
+    assert.ok(Date.now() - quote.quotedAt.getTime() < 5_000);
+
+    await assert.rejects(provider.getRate("CHF"), RateUnavailableError);
+  });
+
+  test("refuses a pinned quote time older than the maximum age", async () => {
+    const stale = await providerFor({
+      quotedAt: "2026-01-01T00:00:00Z",
+      rates: { USD: "160.12" },
+    });
+    await assert.rejects(stale.getRate("USD"), /stale/);
+
+    const quotedAt = new Date(Date.now() - 60_000).toISOString();
+    const recent = await providerFor({ quotedAt, rates: { USD: "160.12" } });
+    assert.equal((await recent.getRate("USD")).quotedAt.toISOString(), quotedAt);
+  });
+
+  test("rejects malformed files", async () => {
+    await assert.rejects(providerFor({ USD: "160" }), /PRICE_FIXTURE_FILE/);
+    await assert.rejects(providerFor({ quotedAt: "yesterday", rates: {} }), /PRICE_FIXTURE_FILE/);
+    await assert.rejects(providerFor({ rates: { USD: "0" } }), /Invalid fixture rate/);
+  });
+});
+
+describe("Kraken rate provider", () => {
+  const realFetch = globalThis.fetch;
+  let body: unknown;
+
+  before(() => {
+    globalThis.fetch = async () => Response.json(body);
+  });
+
+  afterEach(() => {
+    body = undefined;
+  });
+
+  after(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  const rateFor = (last: string) => {
+    body = { error: [], result: { XXMRZUSD: { a: ["1"], c: [last, "0.5"] } } };
+    return new KrakenRateProvider().getRate("USD");
+  };
+
+  test("keeps the last trade price exact", async () => {
+    assert.equal((await rateFor("150")).rate, "150");
+    assert.equal((await rateFor("150.00")).rate, "150");
+    assert.equal((await rateFor("150.10")).rate, "150.1");
+    assert.equal((await rateFor("0.0500")).rate, "0.05");
+  });
+
+  test("refuses unusable responses", async () => {
+    await assert.rejects(rateFor("0.000"), RateUnavailableError);
+    await assert.rejects(rateFor("1e3"), RateUnavailableError);
+
+    body = { error: ["EQuery:Unknown asset pair"] };
+    await assert.rejects(new KrakenRateProvider().getRate("USD"), /Unknown asset pair/);
+
+    for (const malformed of [null, { result: { XXMRZUSD: { c: [] } } }, { result: [1] }]) {
+      body = malformed;
+      await assert.rejects(new KrakenRateProvider().getRate("USD"), RateUnavailableError);
+    }
+  });
+});
+
+describe("fiatToAtomic", () => {
+  test("rounds up to the next atomic unit", () => {
+    assert.equal(fiatToAtomic("15", "150"), 100_000_000_000n);
+    assert.equal(fiatToAtomic("10", "150"), 66_666_666_667n);
+    assert.equal(fiatToAtomic("0.01", "1000000"), 10_000n);
+  });
+});
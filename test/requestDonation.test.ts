@@ -0,0 +1,204 @@
+import "./helpers/env";
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { parseMoneroUri } from "../src/moneroUri";
+import { startTestApp, type TestApp } from "./helpers/app";
+import { insertPaylink, testWallet } from "./helpers/fixtures";
+
+describe("POST /api/paylinks/:id/request", () => {
+  let t: TestApp;
+
+  before(async () => {
+    t = await startTestApp();
+  });
+
+  after(async () => {
+    await t.stop();
+  });
+
+  const request = (paylinkId: string, body: Record<string, unknown> = {}) =>
+    t.app.inject({
+      method: "POST",
+      url: `/api/paylinks/${paylinkId}/request`,
+      payload: body,
+    });
+
+  const paylinkState = async (paylinkId: string) => {
+    const res = await t.database.pool.query<{ request_count: number; invoices: string }>(
+      `
+      SELECT
+        request_count,
+        (SELECT count(*) FROM invoices WHERE paylink_id = $1) AS invoices
+      FROM paylinks WHERE id = $1
+      `,
+      [paylinkId],
+    );
+    const row = res.rows[0]!;
+    return { requestCount: row.request_count, invoices: Number(row.invoices) };
+  };
+
+  describe("amounts", () => {
+    test("invoices the requested amount", async () => {
+      const paylinkId = await insertPaylink(t.database.pool, testWallet());
+
+      const res = await request(paylinkId, { amount: "0.5" });
+      assert.equal(res.statusCode, 200);
+      assert.equal(res.json().amount, "0.5");
+
+      const invoice = await t.database.pool.query<{ amount_atomic: string }>(
+        `SELECT amount_atomic FROM invoices WHERE id = $1`,
+        [res.json().invoiceId],
+      );
+      assert.equal(invoice.rows[0]!.amount_atomic, "500000000000");
+    });
+
+    test("allows requests without an amount", async () => {
+      const paylinkId = await insertPaylink(t.database.pool, testWallet());
+
+      const res = await request(paylinkId);
+      assert.equal(res.statusCode, 200);
+      assert.equal(res.json().amount, "");
+    });
+
+    for (const amount of ["0", "0.000000000000", " 00.0 "]) {
+      test(`rejects a zero amount (${JSON.stringify(amount)})`, async () => {
+        const paylinkId = await insertPaylink(t.database.pool, testWallet());
+
+        const res = await request(paylinkId, { amount });
+        assert.equal(res.statusCode, 400);
+        assert.equal(res.json().error, "invalid_request");
+        assert.deepEqual(await paylinkState(paylinkId), { requestCount: 0, invoices: 0 });
+      });
+    }
+
+    test("rejects an amount other than the fixed amount", async () => {
+      const paylinkId = await insertPaylink(t.database.pool, testWallet(), {
+        fixed_amount_atomic: "250000000000",
+      });
+
+      const wrong = await request(paylinkId, { amount: "0.3" });
+      assert.equal(wrong.statusCode, 400);
+      assert.deepEqual(wrong.json(), { error: "amount_not_allowed", reason: "fixed_amount" });
+
+      const implicit = await request(paylinkId);
+      assert.equal(implicit.statusCode, 200);
+      assert.equal(implicit.json().amount, "0.25");
+    });
+
+    test("enforces the minimum amount", async () => {
+      const paylinkId = await insertPaylink(t.database.pool, testWallet(), {
+        min_amount_atomic: "100000000000",
+      });
+
+      const missing = await request(paylinkId);
+      assert.deepEqual(missing.json(), { error: "amount_not_allowed", reason: "amount_required" });
+
+      const below = await request(paylinkId, { amount: "0.099999999999" });
+      assert.deepEqual(below.json(), { error: "amount_not_allowed", reason: "below_minimum" });
+
+      const exact = await request(paylinkId, { amount: "0.1" });
+      assert.equal(exact.statusCode, 200);
+      assert.deepEqual(await paylinkState(paylinkId), { requestCount: 1, invoices: 1 });
+    });
+
+    test("accepts only preset amounts without a minimum", async () => {
+      const paylinkId = await insertPaylink(t.database.pool, testWallet(), {
+        preset_amounts_atomic: ["50000000000", "100000000000"],
+      });
+
+      const other = await request(paylinkId, { amount: "0.07" });
+      assert.deepEqual(other.json(), { error: "amount_not_allowed", reason: "not_a_preset" });
+
+      const preset = await request(paylinkId, { amount: "0.05" });
+      assert.equal(preset.statusCode, 200);
+    });
+
+    test("compares large preset amounts exactly", async () => {
+      // Above 2^53 atomic units, where a float can't tell these apart
+      const paylinkId = await insertPaylink(t.database.pool, testWallet(), {
+        preset_amounts_atomic: ["10000000000000001"],
+      });
+
+      const near = await request(paylinkId, { amount: "10000" });
+      assert.deepEqual(near.json(), { error: "amount_not_allowed", reason: "not_a_preset" });
+
+      const preset = await request(paylinkId, { amount: "10000.000000000001" });
+      assert.equal(preset.statusCode, 200);
+
+      const meta = await t.app.inject({ url: `/api/paylinks/${paylinkId}/meta` });
+      assert.deepEqual(meta.json().presetAmounts, ["10000.000000000001"]);
+    });
+  });
+
+  describe("payment URI", () => {
+    test("is what wallets read back", async () => {
+      const paylinkId = await insertPaylink(t.database.pool, testWallet(), {
+        label: "Food bank; Berlin",
+      });
+
+      const res = await request(paylinkId, { amount: "1.25", description: "Winter drive" });
+      const { uri, address } = res.json();
+      const parsed = parseMoneroUri(uri);
+      assert.deepEqual(parsed.recipients, [
+        { address, amount: "1.25", name: "Food bank; Berlin" },
+      ]);
+      assert.equal(parsed.description, "Winter drive");
+
+      const qr = await t.app.inject({ url: `/api/invoices/${res.json().invoiceId}/qr` });
+      assert.equal(qr.statusCode, 200);
+      // The label in the URI can change
+      assert.equal(qr.headers["cache-control"], "private, max-age=300");
+    });
+  });
+
+  describe("caps", () => {
+    test("stops answering once maxRequests requests were made", async () => {
+      const paylinkId = await insertPaylink(t.database.pool, testWallet(), { max_requests: 2 });
+
+      assert.equal((await request(paylinkId)).statusCode, 200);
+      assert.equal((await request(paylinkId)).statusCode, 200);
+
+      const capped = await request(paylinkId);
+      assert.equal(capped.statusCode, 404);
+      assert.deepEqual(capped.json(), { error: "paylink_unavailable" });
+      assert.deepEqual(await paylinkState(paylinkId), { requestCount: 2, invoices: 2 });
+    });
+
+    test("hands out sequential indices until the range is exhausted", async () => {
+      const paylinkId = await insertPaylink(t.database.pool, testWallet(), {
+        gen_mode: "sequential",
+        min_index: 1,
+        max_index: 2,
+      });
+
+      const first = await request(paylinkId);
+      const second = await request(paylinkId);
+      assert.notEqual(first.json().address, second.json().address);
+
+      const exhausted = await request(paylinkId);
+      assert.equal(exhausted.statusCode, 409);
+      assert.deepEqual(exhausted.json(), { error: "paylink_exhausted" });
+      // Refused requests don't count against maxRequests
+      assert.deepEqual(await paylinkState(paylinkId), { requestCount: 2, invoices: 2 });
+    });
+
+    test("a failed request neither counts nor uses up an index", async () => {
+      const paylinkId = await insertPaylink(t.database.pool, testWallet(), {
+        gen_mode: "sequential",
+        max_requests: 1,
+        // Fails to decrypt once the index is allocated
+        encrypted_view_key: Buffer.alloc(48).toString("base64"),
+      });
+
+      const res = await request(paylinkId);
+      assert.equal(res.statusCode, 500);
+      assert.deepEqual(await paylinkState(paylinkId), { requestCount: 0, invoices: 0 });
+
+      const next = await t.database.pool.query<{ next_index: number | null }>(
+        `SELECT next_index FROM paylinks WHERE id = $1`,
+        [paylinkId],
+      );
+      assert.equal(next.rows[0]!.next_index, null);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import "./helpers/env";
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { startTestApp, type TestApp } from "./helpers/app";
+import { insertPaylink, testWallet } from "./helpers/fixtures";
+
+describe("sequential subaddress allocation", () => {
+  let t: TestApp;
+
+  before(async () => {
+    t = await startTestApp();
+  });
+
+  after(async () => {
+    await t.stop();
+  });
+
+  const sequentialPaylink = (columns: Record<string, unknown>) =>
+    insertPaylink(t.database.pool, testWallet(), { gen_mode: "sequential", ...columns });
+
+  const request = (paylinkId: string) =>
+    t.app.inject({ method: "POST", url: `/api/paylinks/${paylinkId}/request`, payload: {} });
+
+  const requestIndex = async (paylinkId: string) => {
+    const res = await request(paylinkId);
+    assert.equal(res.statusCode, 200);
+    const invoice = await t.database.pool.query<{ subaddress_index: number }>(
+      `SELECT subaddress_index FROM invoices WHERE id = $1`,
+      [res.json().invoiceId],
+    );
+    return invoice.rows[0]!.subaddress_index;
+  };
+
+  const maxIndexOf = async (paylinkId: string) => {
+    const res = await t.database.pool.query<{ max_index: number }>(
+      `SELECT max_index FROM paylinks WHERE id = $1`,
+      [paylinkId],
+    );
+    return res.rows[0]!.max_index;
+  };
+
+  const updateRange = async (
+    paylinkId: string,
+    ownerKey: string,
+    minIndex: number,
+    maxIndex: number,
+  ) => {
+    const res = await t.app.inject({
+      method: "POST",
+      url: `/api/paylinks/${paylinkId}/update`,
+      payload: { ownerKey, minIndex, maxIndex },
+    });
+    assert.equal(res.statusCode, 200);
+  };
+
+  test("never hands the same index to concurrent requests", async () => {
+    const paylinkId = await sequentialPaylink({ min_index: 5, max_index: 24 });
+
+    const responses = await Promise.all(Array.from({ length: 20 }, () => request(paylinkId)));
+    assert.ok(responses.every((res) => res.statusCode === 200));
+    const invoices = await t.database.pool.query<{ subaddress_index: number }>(
+      `SELECT subaddress_index FROM invoices WHERE paylink_id = $1 ORDER BY subaddress_index`,
+      [paylinkId],
+    );
+    assert.deepEqual(
+      invoices.rows.map((row) => row.subaddress_index),
+      Array.from({ length: 20 }, (_, i) => 5 + i),
+    );
+
+    const exhausted = await Promise.all([request(paylinkId), request(paylinkId)]);
+    assert.deepEqual(
+      exhausted.map((res) => res.statusCode),
+      [409, 409],
+    );
+  });
+
+  test("refuse: answers 409 once the range is used", async () => {
+    const paylinkId = await sequentialPaylink({
+      min_index: 1,
+      max_index: 2,
+      exhaustion_policy: "refuse",
+    });
+
+    assert.deepEqual([await requestIndex(paylinkId), await requestIndex(paylinkId)], [1, 2]);
+
+    const res = await request(paylinkId);
+    assert.equal(res.statusCode, 409);
+    assert.deepEqual(res.json(), { error: "paylink_exhausted" });
+    assert.equal(await maxIndexOf(paylinkId), 2);
+  });
+
+  test("wrap: starts again at minIndex", async () => {
+    const paylinkId = await sequentialPaylink({
+      min_index: 3,
+      max_index: 4,
+      exhaustion_policy: "wrap",
+    });
+
+    const indices = [];
+    for (let i = 0; i < 5; i++) indices.push(await requestIndex(paylinkId));
+    assert.deepEqual(indices, [3, 4, 3, 4, 3]);
+    assert.equal(await maxIndexOf(paylinkId), 4);
+  });
+
+  test("extend: doubles the range and keeps counting", async () => {
+    const paylinkId = await sequentialPaylink({
+      min_index: 1,
+      max_index: 2,
+      exhaustion_policy: "extend",
+    });
+
+    const indices = [];
+    for (let i = 0; i < 5; i++) indices.push(await requestIndex(paylinkId));
+    assert.deepEqual(indices, [1, 2, 3, 4, 5]);
+    // 2 -> 4 on the third request, 4 -> 8 on the fifth
+    assert.equal(await maxIndexOf(paylinkId), 8);
+  });
+
+  test("extend: stops at the highest index, then refuses", async () => {
+    const paylinkId = await sequentialPaylink({
+      min_index: 999_998,
+      max_index: 999_999,
+      exhaustion_policy: "extend",
+    });
+
+    const indices = [];
+    for (let i = 0; i < 3; i++) indices.push(await requestIndex(paylinkId));
+    assert.deepEqual(indices, [999_998, 999_999, 1_000_000]);
+    assert.equal(await maxIndexOf(paylinkId), 1_000_000);
+
+    assert.equal((await request(paylinkId)).statusCode, 409);
+  });
+
+  describe("after the owner changes the range", () => {
+    const ownerKey = "ef".repeat(32);
+
+    test("refuse: a range below the next index is used up, one above starts fresh", async () => {
+      const paylinkId = await sequentialPaylink({
+        min_index: 1,
+        max_index: 10,
+        exhaustion_policy: "refuse",
+        owner_key: ownerKey,
+      });
+      for (let i = 0; i < 3; i++) await requestIndex(paylinkId);
+
+      await updateRange(paylinkId, ownerKey, 1, 2);
+      assert.equal((await request(paylinkId)).statusCode, 409);
+
+      await updateRange(paylinkId, ownerKey, 20, 21);
+      assert.deepEqual([await requestIndex(paylinkId), await requestIndex(paylinkId)], [20, 21]);
+      assert.equal((await request(paylinkId)).statusCode, 409);
+    });
+
+    test("extend: grows the new range instead of leaving it", async () => {
+      const paylinkId = await sequentialPaylink({
+        min_index: 1,
+        max_index: 10,
+        exhaustion_policy: "extend",
+        owner_key: ownerKey,
+      });
+      for (let i = 0; i < 6; i++) await requestIndex(paylinkId);
+
+      await updateRange(paylinkId, ownerKey, 1, 2);
+      assert.equal(await requestIndex(paylinkId), 3);
+      assert.equal(await maxIndexOf(paylinkId), 4);
+      assert.equal(await requestIndex(paylinkId), 4);
+    });
+
+    test("wrap: starts again at the new minimum", async () => {
+      const paylinkId = await sequentialPaylink({
+        min_index: 1,
+        max_index: 10,
+        exhaustion_policy: "wrap",
+        owner_key: ownerKey,
+      });
+      for (let i = 0; i < 6; i++) await requestIndex(paylinkId);
+
+      await updateRange(paylinkId, ownerKey, 1, 3);
+      assert.deepEqual([await requestIndex(paylinkId), await requestIndex(paylinkId)], [1, 2]);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import "./helpers/env";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+import { after, before, describe, test } from "node:test";
+import { encryptSecret } from "../src/crypto";
+import { runWebhookDispatch, signWebhookPayload } from "../src/webhooks/dispatcher";
+import { enqueueWebhookEvent } from "../src/webhooks/events";
+import { checkWebhookUrl, lookupPublicAddress } from "../src/webhooks/url";
+import { startTestDatabase, type TestDatabase } from "./helpers/database";
+import { insertInvoice, insertPaylink, testWallet } from "./helpers/fixtures";
+
+const silentLogger = { info() {}, error() {} };
+
+function lookup(hostname: string, all: boolean) {
+  return new Promise<unknown>((resolve, reject) => {
+    lookupPublicAddress(hostname, { all }, (err, address) =>
+      err ? reject(err) : resolve(address),
+    );
+  });
+}
+
+const PRIVATE_ADDRESSES = [
+  "127.0.0.1",
+  "10.1.2.3",
+  "192.0.0.8",
+  "198.18.0.1",
+  "198.19.255.254",
+  "::",
+  "::1",
+  "fd12:3456::1",
+  "fe80::1",
+  // IPv4-mapped
+  "::ffff:192.168.1.1",
+  "::ffff:c0a8:101",
+  // IPv4-compatible
+  "::127.0.0.1",
+  "::7f00:1",
+  // IPv4-translated
+  "::ffff:0:192.168.1.1",
+  "::ffff:0:a00:1",
+  // NAT64
+  "64:ff9b::10.0.0.1",
+  "64:ff9b::a9fe:a9fe",
+  "64:ff9b:1::5db8:d70e",
+];
+
+const PUBLIC_ADDRESSES = [
+  "93.184.215.14",
+  "198.20.0.1",
+  "2606:2800:21f:cb07:6820:80da:af6b:8b2c",
+  "::ffff:93.184.215.14",
+  "64:ff9b::5db8:d70e",
+];
+
+describe("lookupPublicAddress", () => {
+  for (const all of [false, true]) {
+    test(`refuses names of private addresses (all: ${all})`, async () => {
+      for (const host of ["localhost", ...PRIVATE_ADDRESSES]) {
+        await assert.rejects(lookup(host, all), { code: "EPRIVATEADDRESS" }, host);
+      }
+    });
+  }
+
+  test("returns public addresses", async () => {
+    for (const host of PUBLIC_ADDRESSES) {
+      assert.equal(await lookup(host, false), host);
+    }
+    assert.deepEqual(await lookup("2606:2800:21f:cb07:6820:80da:af6b:8b2c", true), [
+      { address: "2606:2800:21f:cb07:6820:80da:af6b:8b2c", family: 6 },
+    ]);
+  });
+});
+
+describe("checkWebhookUrl", () => {
+  test("refuses private address literals", () => {
+    for (const host of PRIVATE_ADDRESSES) {
+      const literal = host.includes(":") ? `[${host}]` : host;
+      assert.equal(
+        checkWebhookUrl(`https://${literal}/hook`, false),
+        "url must not point at a private address",
+        host,
+      );
+    }
+  });
+
+  test("accepts public address literals", () => {
+    for (const host of PUBLIC_ADDRESSES) {
+      const literal = host.includes(":") ? `[${host}]` : host;
+      assert.equal(checkWebhookUrl(`https://${literal}/hook`, false), null, host);
+    }
+  });
+});
+
+describe("webhook dispatch", () => {
+  let database: TestDatabase;
+  let receiver: http.Server;
+  let port: number;
+  const received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+
+  before(async () => {
+    database = await startTestDatabase();
+    receiver = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.end("ok");
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+    port = (receiver.address() as AddressInfo).port;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => receiver.close(resolve));
+    await database.stop();
+  });
+
+  const queueDelivery = async (url: string, secret: string) => {
+    const paylinkId = await insertPaylink(database.pool, testWallet());
+    const invoiceId = await insertInvoice(database.pool, paylinkId, 1);
+    const { ciphertextB64, nonceB64, keyVersion } = encryptSecret(secret);
+    await database.pool.query(
+      `
+      INSERT INTO webhooks (paylink_id, url, events, encrypted_secret, secret_nonce, key_version)
+      VALUES ($1, $2, '{invoice.created}', $3, $4, $5)
+      `,
+      [paylinkId, url, ciphertextB64, nonceB64, keyVersion],
+    );
+    const client = await database.pool.connect();
+    try {
+      await enqueueWebhookEvent(client, paylinkId, "invoice.created", {
+        invoiceId,
+        address: "8subaddress1",
+        amount: "",
+        status: "pending",
+      });
+    } finally {
+      client.release();
+    }
+    return paylinkId;
+  };
+
+  const lastDelivery = async (paylinkId: string) => {
+    const res = await database.pool.query<{ status: string; last_error: string | null }>(
+      `
+      SELECT d.status, d.last_error
+      FROM webhook_deliveries d
+      JOIN webhooks w ON w.id = d.webhook_id
+      WHERE w.paylink_id = $1
+      `,
+      [paylinkId],
+    );
+    return res.rows[0]!;
+  };
+
+  const dispatch = (allowInsecure: boolean) =>
+    runWebhookDispatch({
+      pool: database.pool,
+      logger: silentLogger,
+      intervalMs: 60_000,
+      maxAttempts: 5,
+      allowInsecure,
+    });
+
+  test("delivers signed events", async () => {
+    const paylinkId = await queueDelivery(`http://127.0.0.1:${port}/hook`, "s3cret");
+
+    assert.deepEqual(await dispatch(true), { delivered: 1, failed: 0 });
+    assert.equal((await lastDelivery(paylinkId)).status, "delivered");
+
+    const [{ headers, body }] = received.splice(0) as [(typeof received)[0]];
+    assert.equal(headers["x-paylinks-event"], "invoice.created");
+    const t = Number(/^t=(\d+),/.exec(String(headers["x-paylinks-signature"]))![1]);
+    assert.equal(headers["x-paylinks-signature"], signWebhookPayload("s3cret", body, t));
+  });
+
+  test("doesn't connect to private addresses", async () => {
+    // Passed the checks when registered, e.g. before its DNS changed
+    const byAddress = await queueDelivery(`https://127.0.0.1:${port}/hook`, "s");
+    const byName = await queueDelivery(`https://internal.localhost:${port}/hook`, "s");
+
+    assert.deepEqual(await dispatch(false), { delivered: 0, failed: 2 });
+    assert.equal(received.length, 0);
+    assert.deepEqual(await lastDelivery(byAddress), {
+      status: "pending",
+      last_error: "url must not point at a private address",
+    });
+    assert.equal((await lastDelivery(byName)).last_error, "url must not point at a local host");
+  });
+
+  test("checks the addresses a hostname resolves to", async () => {
+    const error = await new Promise<NodeJS.ErrnoException>((resolve, reject) => {
+      http
+        .get({ host: "localhost", port, lookup: lookupPublicAddress }, () =>
+          reject(new Error("connected")),
+        )
+        .on("error", resolve);
+    });
+    assert.equal(error.code, "EPRIVATEADDRESS");
+    assert.equal(received.length, 0);
+  });
+});